@@ -0,0 +1,273 @@
+import { describe, it, expect, vi } from 'vitest';
+import { nextCronTime } from '../cronScheduler.js';
+import type { CronJobOptions, CronRun } from '../cronScheduler.js';
+import { SyncedClock } from '../syncedClock.js';
+import { ManualTimeSource } from '../timeSource.js';
+import type { PongPayload, SyncConfig } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const START = Date.UTC(2024, 0, 1); // a Monday
+
+function createClock(overrides: Partial<SyncConfig> = {}): {
+  clock: SyncedClock;
+  time: ManualTimeSource;
+  triggerPong: (pong: PongPayload) => void;
+} {
+  const time = new ManualTimeSource({ wallTime: START });
+  let onPong: (pong: PongPayload) => void = () => {};
+  const clock = new SyncedClock({
+    syncIntervalMs: 1000,
+    historySize: 8,
+    outlierThreshold: 2,
+    transportAdapter: {
+      sendPing: vi.fn(),
+      onPong: (callback): void => {
+        onPong = callback;
+      },
+    },
+    timeSource: time,
+    ...overrides,
+  });
+  return { clock, time, triggerPong: (pong) => onPong(pong) };
+}
+
+/** Schedules a ten-second job, sleeps through a minute and returns its runs. */
+function runsAfterSleep(options: CronJobOptions): CronRun[] {
+  const { clock, time } = createClock();
+  clock.start();
+  const runs: CronRun[] = [];
+  clock.createCronScheduler().schedule('*/10 * * * * *', (run) => runs.push(run), options);
+  time.freeze();
+  time.advance(65_000);
+  time.unfreeze();
+  clock.destroy();
+  return runs;
+}
+
+// ── nextCronTime ──────────────────────────────────────────────────────────────
+
+describe('nextCronTime', () => {
+  it.each([
+    ['*/15 * * * *', Date.UTC(2024, 0, 1, 10, 7), Date.UTC(2024, 0, 1, 10, 15)],
+    ['0 0 * * *', Date.UTC(2024, 0, 1, 10, 7), Date.UTC(2024, 0, 2)],
+    ['30 0 0 * * *', Date.UTC(2024, 0, 1, 0, 0, 30), Date.UTC(2024, 0, 2, 0, 0, 30)],
+    ['*/20 * * * * *', Date.UTC(2024, 0, 1, 0, 0, 5, 500), Date.UTC(2024, 0, 1, 0, 0, 20)],
+    ['0 9 * * MON-FRI', Date.UTC(2024, 0, 5, 10), Date.UTC(2024, 0, 8, 9)],
+    ['0 0 * * 7', START, Date.UTC(2024, 0, 7)],
+    ['0 0 1 jan *', START, Date.UTC(2025, 0, 1)],
+    ['0 0 29 2 *', START, Date.UTC(2024, 1, 29)],
+    ['0 0 29 2 *', Date.UTC(2024, 1, 29), Date.UTC(2028, 1, 29)],
+    ['0 12 1-7 * 3', START, Date.UTC(2024, 0, 1, 12)],
+    ['10-50/20 * * * *', Date.UTC(2024, 0, 1, 0, 31), Date.UTC(2024, 0, 1, 0, 50)],
+    ['5,45 8 * * *', Date.UTC(2024, 0, 1, 8, 5), Date.UTC(2024, 0, 1, 8, 45)],
+    ['@hourly', Date.UTC(2024, 0, 1, 3, 59, 59, 999), Date.UTC(2024, 0, 1, 4)],
+    ['@weekly', START, Date.UTC(2024, 0, 7)],
+  ])('%s after %d is %d', (expression, after, expected) => {
+    expect(nextCronTime(expression, after)).toBe(expected);
+  });
+
+  it('returns a time strictly after `after`', () => {
+    expect(nextCronTime('* * * * *', START)).toBe(START + 60_000);
+  });
+
+  it.each(['* * * *', '* * * * * * *', 'a * * * *', '1/2/3 * * * *', '1- * * * *'])(
+    'throws TypeError for the malformed "%s"',
+    (expression) => {
+      expect(() => nextCronTime(expression, START)).toThrow(TypeError);
+    },
+  );
+
+  it.each([
+    '60 * * * * *',
+    '* 24 * * *',
+    '* * 0 * *',
+    '* * * 13 *',
+    '5-1 * * * *',
+    '*/0 * * * *',
+    '0 0 30 2 *',
+  ])('throws RangeError for "%s"', (expression) => {
+    expect(() => nextCronTime(expression, START)).toThrow(RangeError);
+  });
+});
+
+// ── CronScheduler ─────────────────────────────────────────────────────────────
+
+describe('CronScheduler', () => {
+  it('fires at occurrences of synced rather than local time', () => {
+    const { clock, time, triggerPong } = createClock({ stepPolicy: { stepThresholdMs: 50 } });
+    clock.start();
+    triggerPong({ t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-1' }); // steps 95 ms ahead
+    const callback = vi.fn();
+    const job = clock.createCronScheduler().schedule('*/10 * * * * *', callback);
+    expect(job.nextRun).toBe(START + 10_000);
+
+    time.advance(10_000 - 96);
+    expect(callback).not.toHaveBeenCalled();
+    time.advance(1);
+    expect(callback).toHaveBeenCalledWith({
+      scheduledTime: START + 10_000,
+      firedAt: START + 10_000,
+      latenessMs: 0,
+      missedRuns: 0,
+    });
+    expect(job.nextRun).toBe(START + 20_000);
+    clock.destroy();
+  });
+
+  it('runs a late occurrence normally within lateToleranceMs', () => {
+    const { clock, time } = createClock();
+    const runs: CronRun[] = [];
+    clock
+      .createCronScheduler({ catchUp: 'skip' })
+      .schedule('*/10 * * * * *', (run) => runs.push(run));
+    time.freeze();
+    time.advance(10_500);
+    time.unfreeze();
+    expect(runs).toEqual([
+      { scheduledTime: START + 10_000, firedAt: START + 10_500, latenessMs: 500, missedRuns: 0 },
+    ]);
+  });
+
+  it('catches up on every missed occurrence with "all"', () => {
+    const runs = runsAfterSleep({ catchUp: 'all' });
+    expect(runs.map(({ scheduledTime }) => scheduledTime - START)).toEqual([
+      10_000, 20_000, 30_000, 40_000, 50_000, 60_000,
+    ]);
+    expect(
+      runs.every(({ firedAt, missedRuns }) => firedAt === START + 65_000 && missedRuns === 0),
+    ).toBe(true);
+  });
+
+  it('runs only the most recent missed occurrence with "latest"', () => {
+    expect(runsAfterSleep({ catchUp: 'latest' })).toEqual([
+      { scheduledTime: START + 60_000, firedAt: START + 65_000, latenessMs: 5000, missedRuns: 5 },
+    ]);
+  });
+
+  it('counts an hour of missed seconds without running them with "latest"', () => {
+    const time = new ManualTimeSource({ wallTime: START - 500 });
+    const { clock } = createClock({ timeSource: time });
+    const runs: CronRun[] = [];
+    clock.createCronScheduler().schedule('* * * * * *', (run) => runs.push(run));
+    time.freeze();
+    time.advance(3_600_000);
+    time.unfreeze();
+    expect(runs).toEqual([
+      {
+        scheduledTime: Date.UTC(2024, 0, 1, 0, 59, 59),
+        firedAt: START + 3_599_500,
+        latenessMs: 500,
+        missedRuns: 3599,
+      },
+    ]);
+    clock.destroy();
+  });
+
+  it('runs at most 1000 missed occurrences with "all" and reports the rest on the next run', () => {
+    const { clock, time } = createClock();
+    const runs: CronRun[] = [];
+    clock.createCronScheduler({ catchUp: 'all' }).schedule('* * * * * *', (run) => runs.push(run));
+    time.freeze();
+    time.advance(3_600_000);
+    time.unfreeze();
+    expect(runs).toHaveLength(1000);
+    expect(runs[999].scheduledTime).toBe(START + 1_000_000);
+
+    time.advance(1000);
+    expect(runs[1000]).toMatchObject({ scheduledTime: START + 3_601_000, missedRuns: 2600 });
+    clock.destroy();
+  });
+
+  it('skips missed occurrences with "skip" and reports them on the next run', () => {
+    const { clock, time } = createClock();
+    clock.start();
+    const runs: CronRun[] = [];
+    clock
+      .createCronScheduler({ catchUp: 'skip' })
+      .schedule('*/10 * * * * *', (run) => runs.push(run));
+    time.freeze();
+    time.advance(65_000);
+    time.unfreeze();
+    expect(runs).toEqual([]);
+
+    time.advance(5000);
+    expect(runs).toEqual([
+      { scheduledTime: START + 70_000, firedAt: START + 70_000, latenessMs: 0, missedRuns: 6 },
+    ]);
+    clock.destroy();
+  });
+
+  it('re-evaluates its jobs as soon as a sleep is detected', () => {
+    const { clock, time } = createClock();
+    clock.start();
+    const callback = vi.fn();
+    clock.createCronScheduler().schedule('*/10 * * * * *', callback);
+    time.freeze();
+    time.advance(30_000);
+    clock.events.emit('sleep_detected', { gapMs: 30_000, timestamp: time.wallNow() });
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ scheduledTime: START + 30_000, missedRuns: 2 }),
+    );
+    clock.destroy();
+  });
+
+  it('stop() cancels a job', () => {
+    const { clock, time } = createClock();
+    const scheduler = clock.createCronScheduler();
+    const callback = vi.fn();
+    const job = scheduler.schedule('* * * * * *', callback);
+    expect(scheduler.jobs).toEqual([job]);
+
+    job.stop();
+    expect(job.active).toBe(false);
+    expect(job.nextRun).toBeNull();
+    expect(scheduler.jobs).toEqual([]);
+    time.advance(5000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('lets a callback stop its own job', () => {
+    const { clock, time } = createClock();
+    const job = clock.createCronScheduler().schedule('* * * * * *', () => job.stop());
+    time.advance(5000);
+    expect(job.active).toBe(false);
+    expect(time.pendingTimers).toBe(0);
+  });
+
+  it('destroy() stops every job', () => {
+    const { clock, time } = createClock();
+    const scheduler = clock.createCronScheduler();
+    const callback = vi.fn();
+    scheduler.schedule('* * * * * *', callback);
+    scheduler.schedule('@hourly', callback);
+    scheduler.destroy();
+    expect(scheduler.jobs).toEqual([]);
+    time.advance(5000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('clock.destroy() stops the jobs of its schedulers', () => {
+    const { clock, time } = createClock();
+    const callback = vi.fn();
+    const jobs = [
+      clock.createCronScheduler().schedule('* * * * * *', callback),
+      clock.createCronScheduler().schedule('@hourly', callback),
+    ];
+    clock.destroy();
+    for (const job of jobs) {
+      expect(job.active).toBe(false);
+      expect(job.nextRun).toBeNull();
+    }
+    time.advance(5000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('throws RangeError for a negative lateToleranceMs', () => {
+    const { clock } = createClock();
+    expect(() => clock.createCronScheduler({ lateToleranceMs: -1 })).toThrow(RangeError);
+    expect(() =>
+      clock.createCronScheduler().schedule('* * * * *', vi.fn(), { lateToleranceMs: -1 }),
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MeanEstimator,
+  MinDelayEstimator,
+  MedianMadEstimator,
+  EwmaEstimator,
+  KalmanEstimator,
+} from '../estimators.js';
+import type { OffsetEstimator, SyncSample } from '../types.js';
+
+function makeSamples(pairs: Array<[rtt: number, offset: number]>): SyncSample[] {
+  return pairs.map(([rtt, offset], i) => ({ rtt, offset, timestamp: i * 1000 }));
+}
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+/** Constant offset of 10ms with mildly varying RTTs. */
+const STEADY = makeSamples([
+  [20, 10],
+  [22, 10],
+  [19, 10],
+  [21, 10],
+]);
+
+/**
+ * A jittery mobile link whose true offset is 50ms.  Short round trips are
+ * accurate; long ones carry large asymmetric queueing errors.
+ */
+const MOBILE = makeSamples([
+  [20, 51],
+  [180, 120],
+  [22, 49],
+  [250, -40],
+  [21, 50],
+  [200, 140],
+  [19, 50.5],
+  [230, 110],
+]);
+
+/** Offset drifting by 1ms per sample at a constant RTT. */
+const DRIFTING = makeSamples([0, 1, 2, 3, 4, 5, 6, 7].map((o): [number, number] => [20, o]));
+
+// Factories, because stateful estimators must not be shared between tests.
+const ESTIMATORS: Array<[name: string, create: () => OffsetEstimator]> = [
+  ['MeanEstimator', (): OffsetEstimator => new MeanEstimator(2)],
+  ['MinDelayEstimator', (): OffsetEstimator => new MinDelayEstimator()],
+  ['MedianMadEstimator', (): OffsetEstimator => new MedianMadEstimator({ bestN: 4 })],
+  ['EwmaEstimator', (): OffsetEstimator => new EwmaEstimator(0.5)],
+  ['KalmanEstimator', (): OffsetEstimator => new KalmanEstimator()],
+];
+
+// ── Shared fixtures ───────────────────────────────────────────────────────────
+
+describe.each(ESTIMATORS)('%s', (_name, create) => {
+  it('recovers a constant offset exactly', () => {
+    expect(create().estimate(STEADY)).toBe(10);
+  });
+
+  it('returns the offset of a single sample', () => {
+    expect(create().estimate(makeSamples([[30, -7]]))).toBe(-7);
+  });
+});
+
+describe('estimators on a jittery mobile link', () => {
+  it.each([
+    ['MeanEstimator', new MeanEstimator(2), 66.3125],
+    ['MinDelayEstimator', new MinDelayEstimator(), 50.5],
+    ['MedianMadEstimator', new MedianMadEstimator({ bestN: 4 }), 50.125],
+  ])('%s', (_name, estimator, expected) => {
+    expect(estimator.estimate(MOBILE)).toBeCloseTo(expected);
+  });
+
+  it('min-delay and median/MAD land within 1ms of the true offset where the mean does not', () => {
+    expect(Math.abs(new MinDelayEstimator().estimate(MOBILE) - 50)).toBeLessThan(1);
+    expect(Math.abs(new MedianMadEstimator({ bestN: 4 }).estimate(MOBILE) - 50)).toBeLessThan(1);
+    expect(Math.abs(new MeanEstimator(2).estimate(MOBILE) - 50)).toBeGreaterThan(10);
+  });
+});
+
+describe('estimators on a drifting clock', () => {
+  it.each([
+    ['MeanEstimator', new MeanEstimator(2), 3.5],
+    ['MinDelayEstimator', new MinDelayEstimator(), 7],
+    ['MedianMadEstimator', new MedianMadEstimator(), 3.5],
+    ['EwmaEstimator', new EwmaEstimator(0.5), 6.0078125],
+  ])('%s', (_name, estimator, expected) => {
+    expect(estimator.estimate(DRIFTING)).toBeCloseTo(expected);
+  });
+});
+
+// ── Strategy-specific behaviour ───────────────────────────────────────────────
+
+describe('MeanEstimator', () => {
+  it('discards RTT outliers before averaging', () => {
+    const samples = makeSamples([
+      ...Array.from({ length: 9 }, (): [number, number] => [20, 10]),
+      [2000, 9999],
+    ]);
+    expect(new MeanEstimator(2).estimate(samples)).toBeCloseTo(10);
+  });
+
+  it('honours sample weights', () => {
+    const samples = makeSamples([
+      [20, 0],
+      [20, 40],
+    ]).map((s, i) => ({ ...s, weight: i === 0 ? 3 : 1 }));
+    expect(new MeanEstimator(2).estimate(samples)).toBe(10);
+  });
+
+  it('throws RangeError for a non-positive threshold', () => {
+    expect(() => new MeanEstimator(0)).toThrow(RangeError);
+  });
+});
+
+describe('MinDelayEstimator', () => {
+  it('only considers the most recent windowSize samples', () => {
+    const samples = makeSamples([
+      [5, 100],
+      [20, 10],
+      [30, 12],
+    ]);
+    expect(new MinDelayEstimator(2).estimate(samples)).toBe(10);
+  });
+
+  it('prefers the newest sample on an RTT tie', () => {
+    expect(new MinDelayEstimator().estimate(DRIFTING)).toBe(7);
+  });
+
+  it('throws RangeError for a non-positive windowSize', () => {
+    expect(() => new MinDelayEstimator(0)).toThrow(RangeError);
+  });
+});
+
+describe('MedianMadEstimator', () => {
+  it('rejects offsets far from the median', () => {
+    const samples = makeSamples([
+      [20, 10],
+      [20, 11],
+      [20, 9],
+      [20, 10],
+      [20, 500],
+    ]);
+    expect(new MedianMadEstimator().estimate(samples)).toBeCloseTo(10);
+  });
+
+  it('averages the inliers by weight', () => {
+    const samples = makeSamples([
+      [20, 10],
+      [20, 12],
+      [20, 500],
+    ]).map((s, i) => ({ ...s, weight: i === 1 ? 3 : 1 }));
+    expect(new MedianMadEstimator().estimate(samples)).toBeCloseTo(11.5);
+  });
+
+  it('throws RangeError for invalid options', () => {
+    expect(() => new MedianMadEstimator({ bestN: 0 })).toThrow(RangeError);
+    expect(() => new MedianMadEstimator({ madThreshold: -1 })).toThrow(RangeError);
+  });
+});
+
+describe('EwmaEstimator', () => {
+  it('returns the latest offset when alpha is 1', () => {
+    expect(new EwmaEstimator(1).estimate(DRIFTING)).toBe(7);
+  });
+
+  it('throws RangeError for alpha outside (0, 1]', () => {
+    expect(() => new EwmaEstimator(0)).toThrow(RangeError);
+    expect(() => new EwmaEstimator(1.5)).toThrow(RangeError);
+  });
+});
+
+describe('KalmanEstimator', () => {
+  /** One sample a minute from a local clock running 50 ppm fast, with ±2ms of noise. */
+  function driftingSamples(count: number): SyncSample[] {
+    return Array.from({ length: count }, (_, i) => {
+      const timestamp = i * 60_000;
+      const noise = ((i * 7) % 5) - 2;
+      return { rtt: 20, offset: 100 - 50e-6 * timestamp + noise, timestamp };
+    });
+  }
+
+  it('tracks offset and drift together', () => {
+    const kalman = new KalmanEstimator();
+    const samples = driftingSamples(120);
+    const last = samples[samples.length - 1];
+
+    expect(kalman.estimateDriftPpm(samples)).toBeCloseTo(50, 0);
+    expect(kalman.estimate(samples)).toBeCloseTo(100 - 50e-6 * last.timestamp, 0);
+  });
+
+  it('weights samples by their RTT-derived variance', () => {
+    const fastFirst = makeSamples([
+      [20, 0],
+      [200, 100],
+    ]).map((s) => ({ ...s, timestamp: 0 }));
+    const slowFirst = makeSamples([
+      [200, 100],
+      [20, 0],
+    ]).map((s) => ({ ...s, timestamp: 0 }));
+
+    expect(new KalmanEstimator().estimate(fastFirst)).toBeLessThan(2);
+    expect(new KalmanEstimator().estimate(slowFirst)).toBeLessThan(2);
+  });
+
+  it('folds in only the samples it has not seen yet', () => {
+    const samples = driftingSamples(30);
+    const incremental = new KalmanEstimator();
+    for (let n = 1; n <= samples.length; n++) {
+      incremental.estimate(samples.slice(0, n));
+    }
+    const batch = new KalmanEstimator();
+
+    expect(incremental.estimate(samples)).toBeCloseTo(batch.estimate(samples), 10);
+    expect(incremental.covariance).toEqual(batch.covariance);
+  });
+
+  it('continues from the newest retained sample once its last sample is evicted', () => {
+    const samples = driftingSamples(10);
+    const windowed = new KalmanEstimator();
+    windowed.estimate(samples.slice(0, 4));
+    windowed.estimate(samples.slice(4, 8)); // the window has slid past sample 3
+    windowed.estimate(samples.slice(6, 10));
+    const batch = new KalmanEstimator();
+    batch.estimate(samples);
+
+    expect(windowed.estimate(samples.slice(6, 10))).toBeCloseTo(batch.estimate(samples), 10);
+  });
+
+  it('exposes a covariance that shrinks as samples accumulate', () => {
+    const kalman = new KalmanEstimator();
+    expect(kalman.covariance).toEqual([
+      [0, 0],
+      [0, 0],
+    ]);
+
+    const samples = driftingSamples(40);
+    kalman.estimate(samples.slice(0, 2));
+    const [[early], [, earlyDrift]] = kalman.covariance;
+    kalman.estimate(samples);
+    const [[late, cross], [cross2, lateDrift]] = kalman.covariance;
+
+    expect(late).toBeLessThan(early);
+    expect(lateDrift).toBeLessThan(earlyDrift);
+    expect(cross).toBe(cross2);
+  });
+
+  it('forgets everything on reset()', () => {
+    const kalman = new KalmanEstimator();
+    kalman.estimate(driftingSamples(10));
+    kalman.reset();
+    expect(kalman.estimate(makeSamples([[20, -3]]))).toBe(-3);
+    expect(kalman.estimateDriftPpm(makeSamples([[20, -3]]))).toBe(0);
+  });
+
+  it('throws RangeError for negative noise parameters', () => {
+    expect(() => new KalmanEstimator({ processNoiseOffset: -1 })).toThrow(RangeError);
+    expect(() => new KalmanEstimator({ processNoiseDrift: -1 })).toThrow(RangeError);
+    expect(() => new KalmanEstimator({ measurementNoise: NaN })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FetchTransport } from '../fetchTransport.js';
+import { calculateOffset, calculateRTT } from '../timeMath.js';
+import { ManualTimeSource } from '../timeSource.js';
+import type { PingPayload, PongPayload } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function nextPong(transport: FetchTransport): Promise<PongPayload> {
+  return new Promise((resolve) => transport.onPong(resolve));
+}
+
+function nextError(transport: FetchTransport): Promise<unknown> {
+  return new Promise((resolve) => transport.onError(resolve));
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// ── FetchTransport ────────────────────────────────────────────────────────────
+
+describe('FetchTransport', () => {
+  it('POSTs the ping as JSON to the configured endpoint', async () => {
+    const fetchMock = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+      const ping = JSON.parse(String(init?.body)) as PingPayload;
+      return jsonResponse({ ...ping, t1: 500, t2: 501 });
+    });
+    const transport = new FetchTransport({
+      url: 'https://time.example/sync',
+      headers: { Authorization: 'Bearer x' },
+      fetch: fetchMock as typeof fetch,
+    });
+
+    const pongPromise = nextPong(transport);
+    transport.sendPing({ t0: 100, id: 'ping-1' });
+    const pong = await pongPromise;
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://time.example/sync');
+    expect(init?.method).toBe('POST');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer x' });
+    expect(pong).toMatchObject({ t0: 100, t1: 500, t2: 501, id: 'ping-1' });
+    expect(pong.resolution).toBeUndefined();
+  });
+
+  it('stamps t3 when the response arrives, before the body is read', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(10_000);
+    const response = jsonResponse({ t0: 9_990, t1: 10_500, t2: 10_500, id: 'ping-1' });
+    const originalJson = response.json.bind(response);
+    response.json = async (): Promise<unknown> => {
+      vi.setSystemTime(10_250); // slow body download
+      return originalJson();
+    };
+    const transport = new FetchTransport({
+      url: '/time',
+      fetch: async (): Promise<Response> => response,
+    });
+
+    const pongPromise = nextPong(transport);
+    transport.sendPing({ t0: 9_990, id: 'ping-1' });
+    const pong = await pongPromise;
+    vi.useRealTimers();
+
+    expect(pong.t3).toBe(10_000);
+  });
+
+  it('stamps t3 with the injected time source', async () => {
+    const time = new ManualTimeSource({ wallTime: 1_700_000_000_000 });
+    const transport = new FetchTransport({
+      url: '/time',
+      fetch: async (): Promise<Response> => jsonResponse({ t0: 1, t1: 2, t2: 2, id: 'ping-1' }),
+      timeSource: time,
+    });
+
+    const pongPromise = nextPong(transport);
+    transport.sendPing({ t0: 1, id: 'ping-1' });
+    expect((await pongPromise).t3).toBe(1_700_000_000_000);
+  });
+
+  it('falls back to the Date header and marks the pong with one-second resolution', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.UTC(2024, 0, 1, 0, 0, 0, 100));
+    const transport = new FetchTransport({
+      url: '/',
+      fetch: async (): Promise<Response> =>
+        new Response('<html></html>', {
+          headers: { 'Content-Type': 'text/html', Date: 'Mon, 01 Jan 2024 00:00:05 GMT' },
+        }),
+    });
+
+    const pongPromise = nextPong(transport);
+    const t0 = Date.UTC(2024, 0, 1, 0, 0, 0, 0);
+    transport.sendPing({ t0, id: 'ping-1' });
+    const pong = await pongPromise;
+    vi.useRealTimers();
+
+    const headerTime = Date.UTC(2024, 0, 1, 0, 0, 5);
+    expect(pong).toMatchObject({ t1: headerTime, t2: headerTime, resolution: 1000 });
+    expect(calculateRTT(pong.t0, pong.t1, pong.t2, pong.t3)).toBe(100);
+    // Header second 5 covers [5000, 6000) → centre at 5500, minus the 50ms mid-flight point.
+    expect(calculateOffset(pong.t0, pong.t1, pong.t2, pong.t3, pong.resolution)).toBe(5450);
+  });
+
+  it('falls back to the Date header when the JSON body is for another ping', async () => {
+    const transport = new FetchTransport({
+      url: '/',
+      fetch: async (): Promise<Response> => {
+        const response = jsonResponse({ t0: 1, t1: 2, t2: 3, id: 'other' });
+        response.headers.set('Date', 'Mon, 01 Jan 2024 00:00:05 GMT');
+        return response;
+      },
+    });
+
+    const pongPromise = nextPong(transport);
+    transport.sendPing({ t0: 1, id: 'ping-1' });
+    expect((await pongPromise).resolution).toBe(1000);
+  });
+
+  it('falls back to the Date header when the JSON body does not parse', async () => {
+    const transport = new FetchTransport({
+      url: '/',
+      fetch: async (): Promise<Response> =>
+        new Response('{"t0":', {
+          headers: { 'Content-Type': 'application/json', Date: 'Mon, 01 Jan 2024 00:00:05 GMT' },
+        }),
+    });
+
+    const pongPromise = nextPong(transport);
+    transport.sendPing({ t0: 1, id: 'ping-1' });
+    expect(await pongPromise).toMatchObject({
+      t1: Date.UTC(2024, 0, 1, 0, 0, 5),
+      resolution: 1000,
+    });
+  });
+
+  it('reports a non-OK response as an error, ignoring its Date header', async () => {
+    const transport = new FetchTransport({
+      url: '/',
+      fetch: async (): Promise<Response> =>
+        new Response('<html>Bad Gateway</html>', {
+          status: 502,
+          headers: { 'Content-Type': 'text/html', Date: 'Mon, 01 Jan 2024 00:00:05 GMT' },
+        }),
+    });
+    const onPong = vi.fn();
+    transport.onPong(onPong);
+
+    const errorPromise = nextError(transport);
+    transport.sendPing({ t0: 1, id: 'ping-1' });
+    expect(String(await errorPromise)).toContain('502');
+    expect(onPong).not.toHaveBeenCalled();
+  });
+
+  it('reports an error when neither a pong nor a Date header is available', async () => {
+    const transport = new FetchTransport({
+      url: '/',
+      fetch: async (): Promise<Response> => new Response('nope'),
+    });
+    const onPong = vi.fn();
+    transport.onPong(onPong);
+
+    const errorPromise = nextError(transport);
+    transport.sendPing({ t0: 1, id: 'ping-1' });
+    expect(await errorPromise).toBeInstanceOf(Error);
+    expect(onPong).not.toHaveBeenCalled();
+  });
+
+  it('aborts requests that exceed timeoutMs', async () => {
+    let signal: AbortSignal | undefined;
+    const transport = new FetchTransport({
+      url: '/',
+      timeoutMs: 20,
+      fetch: (_url, init): Promise<Response> =>
+        new Promise<Response>((_resolve, reject) => {
+          signal = init?.signal ?? undefined;
+          signal?.addEventListener('abort', () => reject(signal?.reason));
+        }),
+    });
+    const onError = vi.fn();
+    transport.onError(onError);
+
+    const errorPromise = nextError(transport);
+    transport.sendPing({ t0: 1, id: 'ping-1' });
+    await errorPromise;
+
+    expect(signal?.aborted).toBe(true);
+    expect(onError).toHaveBeenCalledWith(expect.anything(), { t0: 1, id: 'ping-1' });
+  });
+
+  it('throws when no fetch implementation is available', () => {
+    const original = globalThis.fetch;
+    // @ts-expect-error — simulate an environment without fetch
+    delete globalThis.fetch;
+    try {
+      expect(() => new FetchTransport({ url: '/' })).toThrow(TypeError);
+    } finally {
+      globalThis.fetch = original;
+    }
+  });
+});
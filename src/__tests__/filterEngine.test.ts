@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { FilterEngine } from '../filterEngine.js';
+import { MinDelayEstimator } from '../estimators.js';
 import type { SyncSample } from '../types.js';
 
 function makeSample(rtt: number, offset: number): SyncSample {
@@ -16,6 +17,11 @@ describe('FilterEngine', () => {
       expect(() => new FilterEngine(1.5, 2)).toThrow(RangeError);
     });
 
+    it('throws RangeError for non-positive maxSampleAgeMs or halfLifeMs', () => {
+      expect(() => new FilterEngine(10, 2, { maxSampleAgeMs: 0 })).toThrow(RangeError);
+      expect(() => new FilterEngine(10, 2, { halfLifeMs: -1 })).toThrow(RangeError);
+    });
+
     it('throws RangeError for non-positive outlierThreshold', () => {
       expect(() => new FilterEngine(10, 0)).toThrow(RangeError);
     });
@@ -83,4 +89,211 @@ describe('FilterEngine', () => {
       expect(engine.getOptimalOffset()).toBeCloseTo(15);
     });
   });
+
+  describe('offset estimator', () => {
+    it('delegates getOptimalOffset to the configured estimator', () => {
+      const engine = new FilterEngine(10, 2, { estimator: new MinDelayEstimator() });
+      engine.push(makeSample(40, 30));
+      engine.push(makeSample(10, 20));
+      engine.push(makeSample(40, 30));
+      expect(engine.getOptimalOffset()).toBe(20);
+    });
+
+    it('passes the full history, oldest first', () => {
+      const estimate = vi.fn((samples: ReadonlyArray<SyncSample>) => samples.length);
+      const engine = new FilterEngine(2, 2, { estimator: { estimate } });
+      engine.push(makeSample(20, 1));
+      engine.push(makeSample(20, 2));
+      engine.push(makeSample(20, 3));
+      expect(engine.getOptimalOffset()).toBe(2);
+      expect(estimate.mock.lastCall![0].map((s) => s.offset)).toEqual([2, 3]);
+    });
+
+    it('uses a drift-modelling estimator for getDriftPpm and skips the projection', () => {
+      const estimate = vi.fn((samples: ReadonlyArray<SyncSample>) => samples[0].offset);
+      const engine = new FilterEngine(10, 2, {
+        estimator: { estimate, estimateDriftPpm: (): number => 20 },
+      });
+      engine.push({ rtt: 20, offset: 100, timestamp: 0 });
+      engine.push({ rtt: 20, offset: 0, timestamp: 1_000_000 });
+      expect(engine.getDriftPpm()).toBe(20);
+      expect(engine.getOptimalOffset()).toBe(100);
+    });
+
+    it('resets the estimator on flush', () => {
+      const reset = vi.fn();
+      const engine = new FilterEngine(10, 2, { estimator: { estimate: (): number => 0, reset } });
+      engine.flush();
+      expect(reset).toHaveBeenCalledOnce();
+    });
+
+    it('is not consulted while the history is empty', () => {
+      const estimate = vi.fn(() => 42);
+      const engine = new FilterEngine(10, 2, { estimator: { estimate } });
+      expect(engine.getOptimalOffset()).toBe(0);
+      expect(estimate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDriftPpm', () => {
+    const at = (timestamp: number, offset: number, rtt = 20): SyncSample => ({
+      rtt,
+      offset,
+      timestamp,
+    });
+
+    it('returns 0 with fewer than two samples', () => {
+      const engine = new FilterEngine(10, 2);
+      expect(engine.getDriftPpm()).toBe(0);
+      engine.push(at(0, 100));
+      expect(engine.getDriftPpm()).toBe(0);
+    });
+
+    it('is positive when the offset shrinks, i.e. the local clock runs fast', () => {
+      const engine = new FilterEngine(10, 2);
+      // Offset falls by 50ms every 1000s → 50 ppm.
+      engine.push(at(0, 100));
+      engine.push(at(1_000_000, 50));
+      engine.push(at(2_000_000, 0));
+      expect(engine.getDriftPpm()).toBeCloseTo(50);
+    });
+
+    it('ignores RTT outliers', () => {
+      const engine = new FilterEngine(10, 1);
+      engine.push(at(0, 0));
+      engine.push(at(1_000_000, -10));
+      engine.push(at(2_000_000, -20));
+      engine.push(at(3_000_000, 500, 400));
+      expect(engine.getDriftPpm()).toBeCloseTo(10);
+    });
+
+    it('clamps implausible slopes to ±500 ppm', () => {
+      const engine = new FilterEngine(10, 2);
+      engine.push(at(0, 0));
+      engine.push(at(100_000, 100));
+      engine.push(at(200_000, 200));
+      expect(engine.getDriftPpm()).toBe(-500);
+    });
+
+    it('returns 0 until three samples span a minute', () => {
+      const engine = new FilterEngine(10, 2);
+      // A startup burst: 10ms of offset noise over half a second.
+      engine.push(at(0, 10));
+      engine.push(at(250, 0));
+      engine.push(at(500, 5));
+      expect(engine.getDriftPpm()).toBe(0);
+      expect(engine.getDriftStdErrorPpm()).toBe(Infinity);
+
+      engine.push(at(60_000, 5));
+      expect(engine.getDriftStdErrorPpm()).toBeLessThan(Infinity);
+    });
+
+    it('returns 0 while the slope is within two standard errors', () => {
+      const engine = new FilterEngine(10, 2);
+      engine.push(at(0, 0));
+      engine.push(at(100_000, 10));
+      engine.push(at(200_000, -5));
+      engine.push(at(300_000, 8));
+      expect(engine.getDriftStdErrorPpm()).toBeGreaterThan(0);
+      expect(engine.getDriftPpm()).toBe(0);
+    });
+
+    it('reports no standard error for collinear samples', () => {
+      const engine = new FilterEngine(10, 2);
+      engine.push(at(0, 100));
+      engine.push(at(1_000_000, 50));
+      engine.push(at(2_000_000, 0));
+      expect(engine.getDriftStdErrorPpm()).toBe(0);
+    });
+  });
+
+  describe('drift-compensated getOptimalOffset', () => {
+    it('projects every sample to the time of the newest one', () => {
+      const engine = new FilterEngine(10, 2);
+      engine.push({ rtt: 20, offset: 100, timestamp: 0 });
+      engine.push({ rtt: 20, offset: 50, timestamp: 1_000_000 });
+      engine.push({ rtt: 20, offset: 0, timestamp: 2_000_000 });
+      // A plain mean would lag at 50.
+      expect(engine.getOptimalOffset()).toBeCloseTo(0);
+    });
+  });
+
+  describe('maxSampleAgeMs', () => {
+    it('evicts samples older than maxSampleAgeMs relative to the newest', () => {
+      const engine = new FilterEngine(10, 2, { maxSampleAgeMs: 60_000 });
+      engine.push({ rtt: 20, offset: 1, timestamp: 0 });
+      engine.push({ rtt: 20, offset: 2, timestamp: 30_000 });
+      engine.push({ rtt: 20, offset: 3, timestamp: 70_000 });
+      expect(engine.getHistory().map((s) => s.offset)).toEqual([2, 3]);
+    });
+
+    it('always keeps the newest sample', () => {
+      const engine = new FilterEngine(10, 2, { maxSampleAgeMs: 1000 });
+      engine.push({ rtt: 20, offset: 1, timestamp: 0 });
+      engine.push({ rtt: 20, offset: 2, timestamp: 1_000_000 });
+      expect(engine.getHistory()).toHaveLength(1);
+    });
+  });
+
+  describe('age-decay weighting', () => {
+    it('halves a sample weight every halfLifeMs of age', () => {
+      const estimate = vi.fn((samples: ReadonlyArray<SyncSample>) => samples[0].offset);
+      const engine = new FilterEngine(10, 2, { halfLifeMs: 60_000, estimator: { estimate } });
+      engine.push({ rtt: 20, offset: 5, timestamp: 0 });
+      engine.push({ rtt: 20, offset: 5, timestamp: 60_000 });
+      engine.push({ rtt: 20, offset: 5, timestamp: 120_000 });
+      engine.getOptimalOffset();
+      expect(estimate.mock.lastCall![0].map((s) => s.weight)).toEqual([0.25, 0.5, 1]);
+    });
+
+    it('multiplies the decay into an existing sample weight', () => {
+      const estimate = vi.fn((samples: ReadonlyArray<SyncSample>) => samples[0].weight!);
+      const engine = new FilterEngine(10, 2, { halfLifeMs: 1000, estimator: { estimate } });
+      engine.push({ rtt: 20, offset: 5, timestamp: 0, weight: 4 });
+      engine.push({ rtt: 20, offset: 5, timestamp: 2000 });
+      expect(engine.getOptimalOffset()).toBe(1);
+    });
+  });
+
+  describe('getAcceptedSamples', () => {
+    it('returns every sample when all RTTs are identical', () => {
+      const engine = new FilterEngine(10, 2);
+      engine.push(makeSample(20, 1));
+      engine.push(makeSample(20, 2));
+      expect(engine.getAcceptedSamples()).toHaveLength(2);
+    });
+
+    it('omits RTT outliers', () => {
+      const engine = new FilterEngine(20, 2);
+      for (let i = 0; i < 9; i++) engine.push(makeSample(20, 10));
+      engine.push(makeSample(2000, 9999));
+      const accepted = engine.getAcceptedSamples();
+      expect(accepted).toHaveLength(9);
+      expect(accepted.every((s) => s.rtt === 20)).toBe(true);
+    });
+  });
+
+  describe('getJitter', () => {
+    it('returns 0 with fewer than two samples', () => {
+      const engine = new FilterEngine(10, 2);
+      expect(engine.getJitter()).toBe(0);
+      engine.push(makeSample(20, 100));
+      expect(engine.getJitter()).toBe(0);
+    });
+
+    it('is the RMS of successive offset differences', () => {
+      const engine = new FilterEngine(10, 2);
+      engine.push(makeSample(20, 0));
+      engine.push(makeSample(20, 3));
+      engine.push(makeSample(20, -1));
+      // differences 3 and -4 → sqrt((9 + 16) / 2)
+      expect(engine.getJitter()).toBeCloseTo(Math.sqrt(12.5));
+    });
+
+    it('is 0 for a steady drift-free offset', () => {
+      const engine = new FilterEngine(10, 2);
+      for (let i = 0; i < 5; i++) engine.push(makeSample(20 + i, 50));
+      expect(engine.getJitter()).toBe(0);
+    });
+  });
 });
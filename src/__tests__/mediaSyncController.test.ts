@@ -0,0 +1,268 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { MediaElementLike, MediaSyncOptions } from '../mediaSyncController.js';
+import { SyncedClock } from '../syncedClock.js';
+import { ManualTimeSource } from '../timeSource.js';
+import type { PongPayload, SyncConfig } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const START = 1_700_000_000_000;
+
+/** A media element whose position advances with a ManualTimeSource while playing. */
+class FakeMedia implements MediaElementLike {
+  play = vi.fn((): Promise<void> | void => {
+    this._rebase();
+    this._paused = false;
+  });
+
+  private readonly _time: ManualTimeSource;
+  private _positionMs = 0;
+  private _since: number;
+  private _rate = 1;
+  private _paused = true;
+
+  constructor(time: ManualTimeSource) {
+    this._time = time;
+    this._since = time.monotonicNow();
+  }
+
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  get currentTime(): number {
+    const elapsed = this._paused ? 0 : this._time.monotonicNow() - this._since;
+    return (this._positionMs + elapsed * this._rate) / 1000;
+  }
+
+  set currentTime(seconds: number) {
+    this._positionMs = seconds * 1000;
+    this._since = this._time.monotonicNow();
+  }
+
+  get playbackRate(): number {
+    return this._rate;
+  }
+
+  set playbackRate(rate: number) {
+    this._rebase();
+    this._rate = rate;
+  }
+
+  pause(): void {
+    this._rebase();
+    this._paused = true;
+  }
+
+  private _rebase(): void {
+    this.currentTime = this.currentTime;
+  }
+}
+
+function createSetup(overrides: Partial<SyncConfig> = {}): {
+  clock: SyncedClock;
+  time: ManualTimeSource;
+  media: FakeMedia;
+  triggerPong: (pong: PongPayload) => void;
+} {
+  const time = new ManualTimeSource({ wallTime: START });
+  let onPong: (pong: PongPayload) => void = () => {};
+  const clock = new SyncedClock({
+    syncIntervalMs: 1000,
+    historySize: 8,
+    outlierThreshold: 2,
+    transportAdapter: {
+      sendPing: vi.fn(),
+      onPong: (callback): void => {
+        onPong = callback;
+      },
+    },
+    timeSource: time,
+    ...overrides,
+  });
+  return { clock, time, media: new FakeMedia(time), triggerPong: (pong) => onPong(pong) };
+}
+
+// ── MediaSyncController ───────────────────────────────────────────────────────
+
+describe('MediaSyncController', () => {
+  it('holds the media at 0 until the timeline starts, then plays in line', () => {
+    const { clock, time, media } = createSetup();
+    const sync = clock.createMediaSyncController(media, {
+      timeline: { startEpochMs: START + 1000 },
+    });
+    sync.start();
+    expect(sync.running).toBe(true);
+    time.advance(999);
+    expect(media.paused).toBe(true);
+    expect(media.currentTime).toBe(0);
+    expect(sync.errorMs).toBeNull();
+
+    time.advance(1);
+    expect(media.paused).toBe(false);
+    time.advance(5000);
+    expect(media.currentTime).toBeCloseTo(5);
+    expect(sync.errorMs).toBeCloseTo(0);
+  });
+
+  it('seeks when the error reaches seekThresholdMs', () => {
+    const { clock, media } = createSetup();
+    const onCorrection = vi.fn();
+    const sync = clock.createMediaSyncController(media, {
+      timeline: { startEpochMs: START - 10_000 },
+    });
+    sync.events.on('correction', onCorrection);
+    sync.start();
+    expect(media.currentTime).toBe(10);
+    expect(onCorrection).toHaveBeenCalledWith({
+      action: 'seek',
+      errorMs: -10_000,
+      playbackRate: 1,
+      timestamp: START,
+    });
+  });
+
+  it('nudges playbackRate to close a small error, then returns to the timeline rate', () => {
+    const { clock, time, media } = createSetup();
+    media.currentTime = 9.9;
+    const sync = clock.createMediaSyncController(media, {
+      timeline: { startEpochMs: START - 10_000 },
+    });
+    sync.start();
+    expect(media.currentTime).toBeCloseTo(9.9);
+    expect(media.playbackRate).toBeCloseTo(1.05);
+
+    time.advance(5000);
+    expect(media.playbackRate).toBe(1);
+    expect(Math.abs(sync.errorMs!)).toBeLessThanOrEqual(20);
+  });
+
+  it('slows down in proportion to a small lead', () => {
+    const { clock, media } = createSetup();
+    media.currentTime = 10.03;
+    clock.createMediaSyncController(media, { timeline: { startEpochMs: START - 10_000 } }).start();
+    expect(media.playbackRate).toBeCloseTo(0.97);
+  });
+
+  it('leaves an error within toleranceMs alone', () => {
+    const { clock, media } = createSetup();
+    media.currentTime = 10.015;
+    const onCorrection = vi.fn();
+    const sync = clock.createMediaSyncController(media, {
+      timeline: { startEpochMs: START - 10_000 },
+    });
+    sync.events.on('correction', onCorrection);
+    sync.start();
+    expect(media.playbackRate).toBe(1);
+    expect(onCorrection).not.toHaveBeenCalled();
+  });
+
+  it('follows the timeline rate', () => {
+    const { clock, time, media } = createSetup();
+    clock.createMediaSyncController(media, { timeline: { startEpochMs: START, rate: 2 } }).start();
+    time.advance(3000);
+    expect(media.playbackRate).toBe(2);
+    expect(media.currentTime).toBeCloseTo(6);
+  });
+
+  it('corrects at once when a sync steps the clock', () => {
+    const { clock, media, triggerPong } = createSetup({ stepPolicy: { stepThresholdMs: 100 } });
+    const sync = clock.createMediaSyncController(media, { timeline: { startEpochMs: START } });
+    const onCorrection = vi.fn();
+    sync.events.on('correction', onCorrection);
+    clock.start();
+    sync.start();
+
+    triggerPong({ t0: 0, t1: 305, t2: 305, t3: 10, id: 'ping-1' }); // steps 300 ms ahead
+    expect(onCorrection).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'nudge', errorMs: -300, playbackRate: 1.05 }),
+    );
+    clock.destroy();
+  });
+
+  it('setTimeline() re-locks to the new timeline at once', () => {
+    const { clock, media } = createSetup();
+    const sync = clock.createMediaSyncController(media, { timeline: { startEpochMs: START } });
+    sync.start();
+    sync.setTimeline({ startEpochMs: START - 60_000 });
+    expect(media.currentTime).toBe(60);
+  });
+
+  it('stop() restores the timeline rate and stops correcting', () => {
+    const { clock, time, media } = createSetup();
+    media.currentTime = 9.9;
+    const sync = clock.createMediaSyncController(media, {
+      timeline: { startEpochMs: START - 10_000 },
+    });
+    sync.start();
+    sync.stop();
+    expect(sync.running).toBe(false);
+    expect(media.playbackRate).toBe(1);
+    media.currentTime = 0;
+    time.advance(1000);
+    expect(media.currentTime).toBeCloseTo(1);
+  });
+
+  it('emits play_error when play() rejects', async () => {
+    const { clock, media } = createSetup();
+    const error = new Error('NotAllowedError');
+    media.play.mockImplementation(() => Promise.reject(error));
+    const sync = clock.createMediaSyncController(media, { timeline: { startEpochMs: START } });
+    const onPlayError = vi.fn();
+    sync.events.on('play_error', onPlayError);
+    sync.start();
+    await Promise.resolve();
+    expect(onPlayError).toHaveBeenCalledWith({ error, timestamp: START });
+  });
+
+  it('tries play() once and waits for the user, start() or setTimeline() to retry', async () => {
+    const { clock, time, media } = createSetup();
+    const play = media.play.getMockImplementation()!;
+    media.play.mockImplementation(() => Promise.reject(new Error('NotAllowedError')));
+    const sync = clock.createMediaSyncController(media, { timeline: { startEpochMs: START } });
+    const onPlayError = vi.fn();
+    sync.events.on('play_error', onPlayError);
+    sync.start();
+    await Promise.resolve();
+    time.advance(1000);
+    await Promise.resolve();
+    expect(media.play).toHaveBeenCalledTimes(1);
+    expect(onPlayError).toHaveBeenCalledTimes(1);
+
+    sync.setTimeline({ startEpochMs: START });
+    await Promise.resolve();
+    expect(media.play).toHaveBeenCalledTimes(2);
+    expect(onPlayError).toHaveBeenCalledTimes(2);
+
+    sync.stop();
+    sync.start();
+    await Promise.resolve();
+    expect(media.play).toHaveBeenCalledTimes(3);
+
+    // A play from the user unblocks the controller, which resumes it after a pause.
+    media.play.mockImplementation(play);
+    media.play();
+    time.advance(250);
+    media.pause();
+    time.advance(250);
+    expect(media.paused).toBe(false);
+    expect(media.play).toHaveBeenCalledTimes(5);
+  });
+
+  it.each<[string, Partial<MediaSyncOptions>]>([
+    ['a non-finite start', { timeline: { startEpochMs: NaN } }],
+    ['a non-positive rate', { timeline: { startEpochMs: START, rate: 0 } }],
+    ['a negative tolerance', { toleranceMs: -1 }],
+    ['a seek threshold within the tolerance', { toleranceMs: 50, seekThresholdMs: 50 }],
+    ['a rate adjustment of 1', { maxRateAdjustment: 1 }],
+    ['a zero interval', { intervalMs: 0 }],
+  ])('throws RangeError for %s', (_, overrides) => {
+    const { clock, media } = createSetup();
+    expect(() =>
+      clock.createMediaSyncController(media, {
+        timeline: { startEpochMs: START },
+        ...overrides,
+      }),
+    ).toThrow(RangeError);
+  });
+});
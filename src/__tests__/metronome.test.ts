@@ -0,0 +1,200 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Metronome } from '../metronome.js';
+import type { MetronomeOptions, MetronomeTick } from '../metronome.js';
+import { SyncedClock } from '../syncedClock.js';
+import { ManualTimeSource } from '../timeSource.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const START = 1_700_000_000_000;
+
+function createClock(): { clock: SyncedClock; time: ManualTimeSource } {
+  const time = new ManualTimeSource({ wallTime: START });
+  const clock = new SyncedClock({
+    syncIntervalMs: 1000,
+    historySize: 8,
+    outlierThreshold: 2,
+    transportAdapter: { sendPing: vi.fn(), onPong: vi.fn() },
+    timeSource: time,
+  });
+  return { clock, time };
+}
+
+function createMetronome(options: MetronomeOptions): {
+  metronome: Metronome;
+  time: ManualTimeSource;
+  ticks: MetronomeTick[];
+} {
+  const { clock, time } = createClock();
+  const metronome = clock.createMetronome(options);
+  const ticks: MetronomeTick[] = [];
+  metronome.events.on('tick', (tick) => ticks.push(tick));
+  return { metronome, time, ticks };
+}
+
+// ── Metronome ─────────────────────────────────────────────────────────────────
+
+describe('Metronome', () => {
+  it('ticks on the global beat grid', () => {
+    const { metronome, time, ticks } = createMetronome({ periodMs: 500, phaseOriginMs: START });
+    time.advance(100);
+    metronome.start();
+    expect(metronome.running).toBe(true);
+
+    time.advance(1400);
+    expect(ticks.map(({ beat, time: beatTime }) => [beat, beatTime])).toEqual([
+      [1, START + 500],
+      [2, START + 1000],
+      [3, START + 1500],
+    ]);
+    expect(ticks.every(({ latenessMs }) => latenessMs === 0)).toBe(true);
+  });
+
+  it('aligns metronomes started at different times', () => {
+    const { clock, time } = createClock();
+    const first = clock.createMetronome({ bpm: 120, phaseOriginMs: START });
+    const second = clock.createMetronome({ bpm: 120, phaseOriginMs: START });
+    const firstTimes: number[] = [];
+    const secondTimes: number[] = [];
+    first.events.on('tick', ({ time: beatTime }) => firstTimes.push(beatTime));
+    second.events.on('tick', ({ time: beatTime }) => secondTimes.push(beatTime));
+
+    first.start();
+    time.advance(1170);
+    second.start();
+    time.advance(2000);
+    expect(secondTimes.length).toBeGreaterThan(0);
+    expect(firstTimes).toEqual(expect.arrayContaining(secondTimes));
+  });
+
+  it('counts beats within bars', () => {
+    const { metronome, time, ticks } = createMetronome({
+      periodMs: 100,
+      phaseOriginMs: START,
+      beatsPerBar: 3,
+    });
+    metronome.start();
+    time.advance(500);
+    expect(ticks.map(({ beat, bar, beatInBar }) => [beat, bar, beatInBar])).toEqual([
+      [0, 0, 0],
+      [1, 0, 1],
+      [2, 0, 2],
+      [3, 1, 0],
+      [4, 1, 1],
+      [5, 1, 2],
+    ]);
+  });
+
+  it('emits each tick lookaheadMs before its beat', () => {
+    const { metronome, time, ticks } = createMetronome({
+      periodMs: 1000,
+      phaseOriginMs: START,
+      lookaheadMs: 200,
+    });
+    time.advance(100);
+    metronome.start();
+    time.advance(699);
+    expect(ticks).toEqual([]);
+    time.advance(1);
+    expect(ticks).toEqual([
+      { beat: 1, bar: 0, beatInBar: 1, time: START + 1000, periodMs: 1000, latenessMs: 0 },
+    ]);
+  });
+
+  it('changes tempo at the agreed beat', () => {
+    const { metronome, time, ticks } = createMetronome({ periodMs: 500, phaseOriginMs: START });
+    metronome.start();
+    metronome.setTempo({ periodMs: 250 }, 4);
+    time.advance(2500);
+    expect(
+      ticks.map(({ beat, time: beatTime, periodMs }) => [beat, beatTime - START, periodMs]),
+    ).toEqual([
+      [0, 0, 500],
+      [1, 500, 500],
+      [2, 1000, 500],
+      [3, 1500, 500],
+      [4, 2000, 250],
+      [5, 2250, 250],
+      [6, 2500, 250],
+    ]);
+    expect(metronome.periodMs).toBe(250);
+  });
+
+  it('lands a late joiner on the same grid after a past tempo change', () => {
+    const { clock, time } = createClock();
+    const early = clock.createMetronome({ bpm: 60, phaseOriginMs: START });
+    early.setTempo({ bpm: 120 }, 2);
+    time.advance(10_000);
+    const late = clock.createMetronome({ bpm: 60, phaseOriginMs: START });
+    late.setTempo({ bpm: 120 }, 2);
+    for (const beat of [0, 1, 2, 3, 20]) {
+      expect(late.timeOfBeat(beat)).toBe(early.timeOfBeat(beat));
+    }
+    expect(late.timeOfBeat(20)).toBe(START + 2000 + 18 * 500);
+  });
+
+  it('discards later tempo changes when an earlier one is set', () => {
+    const { metronome } = createMetronome({ periodMs: 100, phaseOriginMs: START });
+    metronome.setTempo({ periodMs: 50 }, 10);
+    metronome.setTempo({ periodMs: 200 }, 5);
+    expect(metronome.timeOfBeat(12)).toBe(START + 500 + 7 * 200);
+  });
+
+  it('skips the beats missed while the host slept', () => {
+    const { metronome, time, ticks } = createMetronome({ periodMs: 100, phaseOriginMs: START });
+    metronome.start();
+    time.advance(100);
+    time.freeze();
+    time.advance(1050);
+    time.unfreeze();
+    time.advance(100);
+    expect(ticks.map(({ beat }) => beat)).toEqual([0, 1, 2, 12]);
+    expect(ticks[2].latenessMs).toBe(950);
+  });
+
+  it('stop() silences it and start() resumes on the grid', () => {
+    const { metronome, time, ticks } = createMetronome({ periodMs: 100, phaseOriginMs: START });
+    metronome.start();
+    metronome.stop();
+    expect(metronome.running).toBe(false);
+    time.advance(250);
+    expect(ticks).toEqual([]);
+
+    metronome.start();
+    time.advance(100);
+    expect(ticks.map(({ beat }) => beat)).toEqual([3]);
+  });
+
+  it('maps between beats and times, before the origin too', () => {
+    const { metronome } = createMetronome({ bpm: 240, phaseOriginMs: START });
+    expect(metronome.timeOfBeat(-2)).toBe(START - 500);
+    expect(metronome.beatAt(START - 500)).toBe(-2);
+    expect(metronome.beatAt(START - 1)).toBe(-1);
+    expect(metronome.beatAt(START + 0.1 * 3)).toBe(0);
+  });
+
+  it('throws TypeError unless exactly one of periodMs and bpm is given', () => {
+    const { clock } = createClock();
+    expect(() => clock.createMetronome({} as MetronomeOptions)).toThrow(TypeError);
+    expect(() =>
+      clock.createMetronome({ periodMs: 500, bpm: 120 } as unknown as MetronomeOptions),
+    ).toThrow(TypeError);
+  });
+
+  it.each<[string, MetronomeOptions]>([
+    ['a non-positive period', { periodMs: 0 }],
+    ['a non-positive bpm', { bpm: -60 }],
+    ['a non-finite origin', { periodMs: 100, phaseOriginMs: NaN }],
+    ['a fractional beatsPerBar', { periodMs: 100, beatsPerBar: 2.5 }],
+    ['a negative lookahead', { periodMs: 100, lookaheadMs: -1 }],
+  ])('throws RangeError for %s', (_, options) => {
+    const { clock } = createClock();
+    expect(() => clock.createMetronome(options)).toThrow(RangeError);
+  });
+
+  it('throws RangeError when a tempo change is not at a positive beat', () => {
+    const { metronome } = createMetronome({ periodMs: 100 });
+    expect(() => metronome.setTempo({ periodMs: 50 }, 0)).toThrow(RangeError);
+    expect(() => metronome.setTempo({ periodMs: 50 }, 2.5)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,342 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SyncedClock } from '../syncedClock.js';
+import { FilterEngine } from '../filterEngine.js';
+import type {
+  PingPayload,
+  PongPayload,
+  SyncConfig,
+  SyncEventMap,
+  TransportAdapter,
+} from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+type ServerAdapter = TransportAdapter & {
+  /** Pings received so far, in order. */
+  pings: PingPayload[];
+  /**
+   * Answers the given ping as a server `aheadMs` ahead with `rttMs` of
+   * latency, of which `outboundShare` is spent on the way to the server.
+   */
+  answer: (ping: PingPayload, aheadMs: number, rttMs?: number, outboundShare?: number) => void;
+};
+
+function createServer(): ServerAdapter {
+  let pongCallback: ((payload: PongPayload) => void) | null = null;
+  const pings: PingPayload[] = [];
+  return {
+    pings,
+    sendPing(payload: PingPayload): void {
+      pings.push(payload);
+    },
+    onPong(callback: (payload: PongPayload) => void): void {
+      pongCallback = callback;
+    },
+    answer({ t0, id }: PingPayload, aheadMs: number, rttMs = 20, outboundShare = 0.5): void {
+      const serverTime = t0 + rttMs * outboundShare + aheadMs;
+      pongCallback?.({ t0, t1: serverTime, t2: serverTime, t3: t0 + rttMs, id });
+    },
+  };
+}
+
+function createConfig(overrides: Partial<SyncConfig> = {}): SyncConfig {
+  return {
+    syncIntervalMs: 1000,
+    historySize: 8,
+    outlierThreshold: 2,
+    timeSlewRate: Infinity,
+    ...overrides,
+  };
+}
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+
+describe('SyncedClock multi-source configuration', () => {
+  it('throws when neither transportAdapter nor sources is given', () => {
+    expect(() => new SyncedClock(createConfig())).toThrow(TypeError);
+  });
+
+  it('throws when both transportAdapter and sources are given', () => {
+    const server = createServer();
+    expect(
+      () =>
+        new SyncedClock(
+          createConfig({
+            transportAdapter: server,
+            sources: [{ id: 'a', transportAdapter: server }],
+          }),
+        ),
+    ).toThrow(TypeError);
+  });
+
+  it('throws on duplicate source ids', () => {
+    const sources = [
+      { id: 'a', transportAdapter: createServer() },
+      { id: 'a', transportAdapter: createServer() },
+    ];
+    expect(() => new SyncedClock(createConfig({ sources }))).toThrow(TypeError);
+  });
+});
+
+// ── Source selection ──────────────────────────────────────────────────────────
+
+describe('SyncedClock multi-source selection', () => {
+  let a: ServerAdapter;
+  let b: ServerAdapter;
+  let c: ServerAdapter;
+  let clock: SyncedClock;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    a = createServer();
+    b = createServer();
+    c = createServer();
+    clock = new SyncedClock(
+      createConfig({
+        sources: [
+          { id: 'a', transportAdapter: a },
+          { id: 'b', transportAdapter: b },
+          { id: 'c', transportAdapter: c },
+        ],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    clock.destroy();
+    vi.useRealTimers();
+  });
+
+  it('queries every source in parallel with distinct ping ids', () => {
+    const onStart = vi.fn();
+    clock.events.on('sync_start', onStart);
+    clock.start();
+
+    expect(onStart).toHaveBeenCalledOnce();
+    const ids = [a.pings[0].id, b.pings[0].id, c.pings[0].id];
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('waits for every source before syncing', () => {
+    clock.start();
+    a.answer(a.pings[0], 100);
+    b.answer(b.pings[0], 100);
+    expect(clock.state).toBe('SYNCING');
+    c.answer(c.pings[0], 100);
+    expect(clock.state).toBe('SYNCED');
+  });
+
+  it('discards an outvoted falseticker and reports it via "source_rejected"', () => {
+    const rejected: Array<SyncEventMap['source_rejected']> = [];
+    clock.events.on('source_rejected', (e) => rejected.push(e));
+    clock.start();
+
+    a.answer(a.pings[0], 100);
+    b.answer(b.pings[0], 104);
+    c.answer(c.pings[0], 3_600_000); // an hour off
+
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toMatchObject({ sourceId: 'c', offset: 3_600_000, rtt: 20 });
+    expect(rejected[0].agreed).toEqual({ lower: 94, upper: 110 });
+    expect(clock.now() - Date.now()).toBeCloseTo(102, 0);
+  });
+
+  it('votes among the sources that answered when one times out', () => {
+    const rejected = vi.fn();
+    clock.events.on('source_rejected', rejected);
+    clock.start();
+
+    a.answer(a.pings[0], 100);
+    b.answer(b.pings[0], 102);
+    vi.advanceTimersByTime(1000); // c's ping times out
+
+    expect(clock.state).toBe('SYNCED');
+    expect(rejected).not.toHaveBeenCalled();
+    expect(clock.now() - Date.now()).toBeCloseTo(101, 0);
+  });
+
+  it('discards the round with "no_majority" when sources disagree', () => {
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+
+    a.answer(a.pings[0], 0);
+    b.answer(b.pings[0], 5_000);
+    c.answer(c.pings[0], 10_000);
+
+    expect(errors.map((e) => e.reason)).toEqual(['no_majority']);
+    expect(clock.state).toBe('SYNCING');
+  });
+
+  it('rejects a pong delivered by a different source than the one pinged', () => {
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+
+    b.answer(a.pings[0], 100);
+
+    expect(errors[0]).toMatchObject({ reason: 'unknown_id', sourceId: 'b' });
+  });
+
+  it('re-polls only the source that reconnected', () => {
+    let setConnected: (connected: boolean) => void = () => {};
+    c.onConnectionChange = (callback): void => {
+      setConnected = callback;
+      callback(true);
+    };
+    clock.destroy();
+    clock = new SyncedClock(
+      createConfig({
+        sources: [
+          { id: 'a', transportAdapter: a },
+          { id: 'b', transportAdapter: b },
+          { id: 'c', transportAdapter: c },
+        ],
+      }),
+    );
+    clock.start();
+    setConnected(false);
+    setConnected(true);
+
+    expect([a.pings.length, b.pings.length, c.pings.length]).toEqual([1, 1, 2]);
+  });
+
+  it('tags timeouts with the source id', () => {
+    const timeouts: Array<SyncEventMap['sync_timeout']> = [];
+    clock.events.on('sync_timeout', (e) => timeouts.push(e));
+    clock.start();
+
+    a.answer(a.pings[0], 100);
+    b.answer(b.pings[0], 100);
+    vi.advanceTimersByTime(1000);
+
+    expect(timeouts.map((e) => e.sourceId)).toEqual(['c']);
+  });
+});
+
+// ── Path asymmetry ────────────────────────────────────────────────────────────
+
+describe('SyncedClock path asymmetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('applies the configured asymmetry to every sample', () => {
+    const server = createServer();
+    const push = vi.spyOn(FilterEngine.prototype, 'push');
+    const clock = new SyncedClock(
+      createConfig({ transportAdapter: server, pathAsymmetry: { outboundRatio: 0.8 } }),
+    );
+    clock.start();
+    server.answer(server.pings[0], 100, 100, 0.8);
+
+    expect(push.mock.lastCall![0].offset).toBeCloseTo(100);
+    expect(clock.getPathAsymmetry()).toEqual({ outboundRatio: 0.8 });
+    clock.destroy();
+  });
+
+  it('lets a source override the global asymmetry', () => {
+    const a = createServer();
+    const clock = new SyncedClock(
+      createConfig({
+        pathAsymmetry: { outboundExcessMs: 10 },
+        sources: [
+          { id: 'a', transportAdapter: a, pathAsymmetry: { outboundExcessMs: 40 } },
+          { id: 'b', transportAdapter: createServer() },
+        ],
+      }),
+    );
+    expect(clock.getPathAsymmetry('a')).toEqual({ outboundExcessMs: 40 });
+    expect(clock.getPathAsymmetry('b')).toEqual({ outboundExcessMs: 10 });
+    expect(clock.getPathAsymmetry('missing')).toBeUndefined();
+  });
+
+  describe('calibration mode', () => {
+    let ref: ServerAdapter;
+    let sat: ServerAdapter;
+
+    function createCalibratingClock(model?: 'fixed' | 'ratio'): SyncedClock {
+      ref = createServer();
+      sat = createServer();
+      return new SyncedClock(
+        createConfig({
+          sources: [
+            { id: 'ref', transportAdapter: ref },
+            { id: 'sat', transportAdapter: sat },
+          ],
+          asymmetryCalibration: { referenceSourceId: 'ref', samples: 3, model },
+        }),
+      );
+    }
+
+    /** Runs one round: the satellite link spends 80% of its 100ms RTT uplink. */
+    function round(index: number): void {
+      ref.answer(ref.pings[index], 100);
+      sat.answer(sat.pings[index], 100, 100, 0.8);
+      vi.advanceTimersByTime(1000);
+    }
+
+    it('estimates a fixed correction against the reference and applies it', () => {
+      const clock = createCalibratingClock();
+      const calibrated: Array<SyncEventMap['asymmetry_calibrated']> = [];
+      clock.events.on('asymmetry_calibrated', (e) => calibrated.push(e));
+      clock.start();
+
+      round(0);
+      round(1);
+      expect(calibrated).toHaveLength(0);
+      round(2);
+
+      expect(calibrated).toHaveLength(1);
+      expect(calibrated[0]).toMatchObject({ sourceId: 'sat', samples: 3 });
+      expect(calibrated[0].asymmetry.outboundExcessMs).toBeCloseTo(60);
+      expect(clock.getPathAsymmetry('sat')?.outboundExcessMs).toBeCloseTo(60);
+
+      const push = vi.spyOn(FilterEngine.prototype, 'push');
+      round(3);
+      const offsets = push.mock.calls.map(([sample]) => sample.offset);
+      expect(offsets).toHaveLength(2);
+      for (const offset of offsets) expect(offset).toBeCloseTo(100);
+      clock.destroy();
+    });
+
+    it('can estimate an RTT ratio instead', () => {
+      const clock = createCalibratingClock('ratio');
+      clock.start();
+      round(0);
+      round(1);
+      round(2);
+      expect(clock.getPathAsymmetry('sat')?.outboundRatio).toBeCloseTo(0.8);
+      clock.destroy();
+    });
+
+    it('skips rounds the reference did not answer', () => {
+      const clock = createCalibratingClock();
+      const calibrated = vi.fn();
+      clock.events.on('asymmetry_calibrated', calibrated);
+      clock.start();
+      for (let i = 0; i < 3; i++) {
+        sat.answer(sat.pings[i], 100, 100, 0.8);
+        vi.advanceTimersByTime(1000); // ref times out
+      }
+      expect(calibrated).not.toHaveBeenCalled();
+      clock.destroy();
+    });
+
+    it('rejects an unknown reference source', () => {
+      expect(
+        () =>
+          new SyncedClock(
+            createConfig({
+              sources: [{ id: 'a', transportAdapter: createServer() }],
+              asymmetryCalibration: { referenceSourceId: 'missing' },
+            }),
+          ),
+      ).toThrow(TypeError);
+    });
+  });
+});
@@ -2,6 +2,9 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SyncedClock } from '../syncedClock.js';
 import { EventEmitter } from '../eventEmitter.js';
 import { FilterEngine } from '../filterEngine.js';
+import { MemoryClockStorage } from '../storage.js';
+import { ManualTimeSource } from '../timeSource.js';
+import { calculateSlopeStdError } from '../timeMath.js';
 import type { TransportAdapter, PingPayload, PongPayload, SyncConfig, SyncEventMap } from '../types.js';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
@@ -33,9 +36,9 @@ function createConfig(overrides: Partial<SyncConfig> = {}): SyncConfig & { trans
   } as SyncConfig & { transportAdapter: MockAdapter };
 }
 
-function makePong(offsetMs = 100): PongPayload {
+function makePong(offsetMs = 100, id = 'ping-1'): PongPayload {
   // t0=0, t1=offsetMs, t2=offsetMs, t3=10 → offset ≈ offsetMs - 5
-  return { t0: 0, t1: offsetMs, t2: offsetMs, t3: 10, id: 'p1' };
+  return { t0: 0, t1: offsetMs, t2: offsetMs, t3: 10, id };
 }
 
 // ── EventEmitter ──────────────────────────────────────────────────────────────
@@ -228,7 +231,7 @@ describe('SyncedClock events', () => {
     clock.events.on('drift_warning', handler);
     clock.start();
     // offset ≈ 495ms → exceeds 50ms threshold
-    cfg.transportAdapter.triggerPong({ t0: 0, t1: 500, t2: 500, t3: 10, id: 'p1' });
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 500, t2: 500, t3: 10, id: 'ping-1' });
     expect(handler).toHaveBeenCalledOnce();
     clock.stop();
   });
@@ -240,11 +243,33 @@ describe('SyncedClock events', () => {
     clock.events.on('drift_warning', handler);
     clock.start();
     // offset ≈ 9ms (very small)
-    cfg.transportAdapter.triggerPong({ t0: 0, t1: 10, t2: 10, t3: 2, id: 'p1' });
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 10, t2: 10, t3: 2, id: 'ping-1' });
     expect(handler).not.toHaveBeenCalled();
     clock.stop();
   });
 
+  it('emits "drift_warning" once per excursion beyond the threshold', () => {
+    const cfg = createConfig({ driftWarningThreshold: 50, historySize: 1 });
+    const clock = new SyncedClock(cfg);
+    const handler = vi.fn();
+    clock.events.on('drift_warning', handler);
+    clock.start();
+    const answerLatest = (offsetMs: number): void => {
+      const sendPing = cfg.transportAdapter.sendPing as ReturnType<typeof vi.fn>;
+      const { id } = sendPing.mock.lastCall![0] as PingPayload;
+      cfg.transportAdapter.triggerPong(makePong(offsetMs, id));
+    };
+
+    answerLatest(500);
+    for (const offset of [500, 500, 20, 500]) {
+      vi.advanceTimersByTime(1000);
+      answerLatest(offset);
+    }
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    clock.stop();
+  });
+
   it('emits "state_change" events when state transitions', () => {
     const cfg = createConfig();
     const clock = new SyncedClock(cfg);
@@ -334,6 +359,1293 @@ describe('SyncedClock sleep detection', () => {
   });
 });
 
+// ── In-flight ping tracking ──────────────────────────────────────────────────
+
+describe('SyncedClock in-flight ping tracking', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('emits "sync_error" with reason "unknown_id" for a pong that matches no ping', () => {
+    const cfg = createConfig();
+    const clock = new SyncedClock(cfg);
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+
+    cfg.transportAdapter.triggerPong(makePong(100, 'forged'));
+
+    expect(errors.map((e) => [e.reason, e.id])).toEqual([['unknown_id', 'forged']]);
+    expect(clock.state).toBe('SYNCING');
+    clock.stop();
+  });
+
+  it('rejects a duplicate pong for an already answered ping', () => {
+    const cfg = createConfig();
+    const clock = new SyncedClock(cfg);
+    const onSuccess = vi.fn();
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_success', onSuccess);
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+
+    cfg.transportAdapter.triggerPong(makePong());
+    cfg.transportAdapter.triggerPong(makePong(5000));
+
+    expect(onSuccess).toHaveBeenCalledOnce();
+    expect(errors.map((e) => e.reason)).toEqual(['duplicate']);
+    clock.stop();
+  });
+
+  it('emits "sync_timeout" when no pong arrives within pingTimeoutMs', () => {
+    const cfg = createConfig({ syncIntervalMs: 10_000, pingTimeoutMs: 2000 });
+    const clock = new SyncedClock(cfg);
+    const timeouts: Array<SyncEventMap['sync_timeout']> = [];
+    clock.events.on('sync_timeout', (e) => timeouts.push(e));
+    clock.start();
+
+    vi.advanceTimersByTime(1999);
+    expect(timeouts).toHaveLength(0);
+    vi.advanceTimersByTime(1);
+    expect(timeouts).toHaveLength(1);
+    expect(timeouts[0]).toMatchObject({ id: 'ping-1', timeoutMs: 2000, lossRate: 1 });
+    clock.stop();
+  });
+
+  it('defaults pingTimeoutMs to syncIntervalMs', () => {
+    const cfg = createConfig({ syncIntervalMs: 1000 });
+    const clock = new SyncedClock(cfg);
+    const onTimeout = vi.fn();
+    clock.events.on('sync_timeout', onTimeout);
+    clock.start();
+
+    vi.advanceTimersByTime(1000);
+    expect(onTimeout).toHaveBeenCalledOnce();
+    clock.stop();
+  });
+
+  it('rejects a pong that arrives after its ping timed out', () => {
+    const cfg = createConfig({ syncIntervalMs: 10_000, pingTimeoutMs: 500 });
+    const clock = new SyncedClock(cfg);
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+
+    vi.advanceTimersByTime(500);
+    cfg.transportAdapter.triggerPong(makePong());
+
+    expect(errors.map((e) => e.reason)).toEqual(['late']);
+    expect(clock.state).toBe('SYNCING');
+    clock.stop();
+  });
+
+  it('reports a transport failure as "transport_error" and counts it as lost', () => {
+    const cfg = createConfig();
+    (cfg.transportAdapter.sendPing as ReturnType<typeof vi.fn>).mockImplementation(() => {
+      throw new Error('socket closed');
+    });
+    const clock = new SyncedClock(cfg);
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+
+    expect(() => clock.start()).not.toThrow();
+    expect(errors[0]).toMatchObject({ reason: 'transport_error', id: 'ping-1' });
+    expect(errors[0].error).toBeInstanceOf(Error);
+    expect(clock.lossRate).toBe(1);
+    clock.stop();
+  });
+
+  it('reports a ping the transport says it lost without waiting for the timeout', () => {
+    let reportError: (error: unknown, ping: PingPayload) => void = () => {};
+    const cfg = createConfig({ pingTimeoutMs: 5000 });
+    cfg.transportAdapter.onError = (callback): void => {
+      reportError = callback;
+    };
+    const clock = new SyncedClock(cfg);
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+
+    reportError(new Error('HTTP 503'), { t0: 0, id: 'ping-1' });
+    expect(errors).toEqual([
+      expect.objectContaining({ reason: 'transport_error', id: 'ping-1', sourceId: 'default' }),
+    ]);
+    expect(clock.lossRate).toBe(1);
+    reportError(new Error('HTTP 503'), { t0: 0, id: 'ping-1' });
+    expect(errors).toHaveLength(1);
+    clock.stop();
+  });
+
+  it('computes lossRate over answered and timed-out pings', () => {
+    const cfg = createConfig({ syncIntervalMs: 1000, pingTimeoutMs: 500 });
+    const clock = new SyncedClock(cfg);
+    expect(clock.lossRate).toBe(0);
+    clock.start();
+
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1')); // answered
+    vi.advanceTimersByTime(1000); // ping-2 sent
+    vi.advanceTimersByTime(500); // ping-2 lost
+    vi.advanceTimersByTime(500); // ping-3 sent
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-3')); // answered
+    vi.advanceTimersByTime(1000); // ping-4 sent
+    vi.advanceTimersByTime(500); // ping-4 lost
+
+    expect(clock.lossRate).toBe(0.5);
+    clock.stop();
+  });
+
+  it('stop() abandons outstanding pings without counting them as lost', () => {
+    const cfg = createConfig({ pingTimeoutMs: 500 });
+    const clock = new SyncedClock(cfg);
+    const onTimeout = vi.fn();
+    clock.events.on('sync_timeout', onTimeout);
+    clock.start();
+    clock.stop();
+
+    vi.advanceTimersByTime(1000);
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(clock.lossRate).toBe(0);
+  });
+});
+
+// ── Sample validation ─────────────────────────────────────────────────────────
+
+describe('SyncedClock sample validation', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('emits "sample_rejected" with the offending pong and does not sync', () => {
+    const cfg = createConfig();
+    const clock = new SyncedClock(cfg);
+    const rejected: Array<SyncEventMap['sample_rejected']> = [];
+    const onSuccess = vi.fn();
+    clock.events.on('sample_rejected', (e) => rejected.push(e));
+    clock.events.on('sync_success', onSuccess);
+    clock.start();
+
+    const pong = { t0: 100, t1: 50, t2: 50, t3: 90, id: 'ping-1' };
+    cfg.transportAdapter.triggerPong(pong);
+
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toMatchObject({ reason: 'causality_violation', pong });
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(clock.state).toBe('SYNCING');
+    clock.stop();
+  });
+
+  it('keeps a bad pong from moving the target offset', () => {
+    const cfg = createConfig({ maxOffsetMs: 60_000, timeSlewRate: Infinity });
+    const clock = new SyncedClock(cfg);
+    const rejected: Array<SyncEventMap['sample_rejected']> = [];
+    clock.events.on('sample_rejected', (e) => rejected.push(e));
+    clock.start();
+
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    vi.advanceTimersByTime(1000);
+    // Server suddenly claims to be three hours ahead.
+    cfg.transportAdapter.triggerPong(makePong(3 * 3_600_000, 'ping-2'));
+
+    expect(rejected.map((e) => e.reason)).toEqual(['offset_exceeded']);
+    expect(clock.now() - Date.now()).toBeCloseTo(95, 0);
+    clock.stop();
+  });
+
+  it('applies maxRttMs from the config', () => {
+    const cfg = createConfig({ maxRttMs: 5 });
+    const clock = new SyncedClock(cfg);
+    const onRejected = vi.fn();
+    clock.events.on('sample_rejected', onRejected);
+    clock.start();
+
+    cfg.transportAdapter.triggerPong(makePong()); // RTT = 10ms
+    expect(onRejected).toHaveBeenCalledWith(expect.objectContaining({ reason: 'rtt_exceeded' }));
+    clock.stop();
+  });
+});
+
+// ── Adaptive polling ──────────────────────────────────────────────────────────
+
+describe('SyncedClock adaptive polling', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  const adaptivePoll = { minIntervalMs: 1000, maxIntervalMs: 8000 };
+
+  it('reports syncIntervalMs as the poll interval when adaptive polling is off', () => {
+    const clock = new SyncedClock(createConfig({ syncIntervalMs: 3000 }));
+    expect(clock.pollIntervalMs).toBe(3000);
+  });
+
+  it('clamps the initial interval to the adaptive bounds', () => {
+    const clock = new SyncedClock(createConfig({ syncIntervalMs: 500, adaptivePoll }));
+    expect(clock.pollIntervalMs).toBe(1000);
+  });
+
+  it('doubles the interval up to maxIntervalMs while the clock is stable', () => {
+    const cfg = createConfig({ syncIntervalMs: 1000, adaptivePoll });
+    const clock = new SyncedClock(cfg);
+    const changes: Array<SyncEventMap['poll_interval_change']> = [];
+    clock.events.on('poll_interval_change', (e) => changes.push(e));
+    clock.start();
+
+    const sendPing = cfg.transportAdapter.sendPing as ReturnType<typeof vi.fn>;
+    const answerLatest = (): void => {
+      const { id } = sendPing.mock.lastCall![0] as PingPayload;
+      cfg.transportAdapter.triggerPong(makePong(100, id));
+    };
+
+    answerLatest(); // first sync: no adaptation
+    expect(clock.pollIntervalMs).toBe(1000);
+    for (const interval of [1000, 2000, 4000, 8000]) {
+      vi.advanceTimersByTime(interval);
+      answerLatest();
+    }
+
+    expect(changes.map((e) => e.to)).toEqual([2000, 4000, 8000]);
+    expect(clock.pollIntervalMs).toBe(8000);
+    expect(sendPing).toHaveBeenCalledTimes(5);
+    clock.stop();
+  });
+
+  it('halves the interval when the offset moves', () => {
+    const cfg = createConfig({ syncIntervalMs: 4000, adaptivePoll, historySize: 1 });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+
+    vi.advanceTimersByTime(4000);
+    cfg.transportAdapter.triggerPong(makePong(300, 'ping-2'));
+
+    expect(clock.pollIntervalMs).toBe(2000);
+    clock.stop();
+  });
+
+  it('halves the interval on an RTT spike even when the offset is unchanged', () => {
+    const cfg = createConfig({ syncIntervalMs: 4000, adaptivePoll });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1')); // RTT 10, offset 95
+    vi.advanceTimersByTime(4000);
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-2')); // stable → 8000
+    expect(clock.pollIntervalMs).toBe(8000);
+
+    vi.advanceTimersByTime(8000);
+    // RTT 100, offset still 95
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 145, t2: 145, t3: 100, id: 'ping-3' });
+
+    expect(clock.pollIntervalMs).toBe(4000);
+    clock.stop();
+  });
+
+  it('re-arms the pending poll when the interval shrinks', () => {
+    const cfg = createConfig({ syncIntervalMs: 8000, adaptivePoll, historySize: 1 });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    vi.advanceTimersByTime(8000);
+    cfg.transportAdapter.triggerPong(makePong(500, 'ping-2')); // → 4000ms
+
+    vi.advanceTimersByTime(3999);
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(1);
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledTimes(3);
+    clock.stop();
+  });
+});
+
+// ── Initial burst ─────────────────────────────────────────────────────────────
+
+describe('SyncedClock initial burst', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  const initialBurst = { count: 4, intervalMs: 100, minSamples: 3, deadlineMs: 2000 };
+
+  it('fires count pings intervalMs apart', () => {
+    const cfg = createConfig({ syncIntervalMs: 60_000, initialBurst });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(300);
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledTimes(4);
+    vi.advanceTimersByTime(1000);
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledTimes(4);
+    clock.stop();
+  });
+
+  it('stays SYNCING until minSamples samples are accepted', () => {
+    const cfg = createConfig({ syncIntervalMs: 60_000, initialBurst });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    vi.advanceTimersByTime(300);
+
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-2'));
+    expect(clock.state).toBe('SYNCING');
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-3'));
+    expect(clock.state).toBe('SYNCED');
+    clock.stop();
+  });
+
+  it('does not count RTT outliers towards minSamples', () => {
+    const cfg = createConfig({
+      syncIntervalMs: 60_000,
+      outlierThreshold: 1,
+      initialBurst: { count: 4, intervalMs: 100, minSamples: 4, deadlineMs: 2000 },
+    });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    vi.advanceTimersByTime(300);
+
+    for (const id of ['ping-1', 'ping-2', 'ping-3']) {
+      cfg.transportAdapter.triggerPong(makePong(100, id));
+    }
+    // RTT 500 against three RTTs of 10 is more than 1σ from the mean.
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 300, t2: 300, t3: 500, id: 'ping-4' });
+    expect(clock.state).toBe('SYNCING');
+    clock.stop();
+  });
+
+  it('cancels the remaining burst pings once locked', () => {
+    const cfg = createConfig({
+      syncIntervalMs: 60_000,
+      initialBurst: { count: 4, intervalMs: 100, minSamples: 1 },
+    });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    expect(clock.state).toBe('SYNCED');
+
+    vi.advanceTimersByTime(1000);
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledTimes(1);
+    clock.stop();
+  });
+
+  it('locks on the available samples at the deadline', async () => {
+    const cfg = createConfig({ syncIntervalMs: 60_000, initialBurst });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    const synced = clock.waitForInitialSync();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+
+    vi.advanceTimersByTime(1999);
+    expect(clock.state).toBe('SYNCING');
+    vi.advanceTimersByTime(1);
+    expect(clock.state).toBe('SYNCED');
+    await synced;
+    clock.stop();
+  });
+
+  it('emits "sync_error" with reason "burst_deadline" when no sample arrived', () => {
+    const cfg = createConfig({ syncIntervalMs: 60_000, initialBurst });
+    const clock = new SyncedClock(cfg);
+    const reasons: string[] = [];
+    clock.events.on('sync_error', ({ reason }) => reasons.push(reason));
+    clock.start();
+
+    vi.advanceTimersByTime(2000);
+    expect(reasons).toEqual(['burst_deadline']);
+    expect(clock.state).toBe('SYNCING');
+
+    // After the burst a single sample is enough.
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-4'));
+    expect(clock.state).toBe('SYNCED');
+    clock.stop();
+  });
+
+  it('validates the burst configuration', () => {
+    expect(() => new SyncedClock(createConfig({ initialBurst: { count: 0 } }))).toThrow(RangeError);
+    expect(
+      () => new SyncedClock(createConfig({ initialBurst: { count: 2, minSamples: 3 } })),
+    ).toThrow(RangeError);
+  });
+});
+
+// ── Drift compensation ────────────────────────────────────────────────────────
+
+describe('SyncedClock drift compensation', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  const INTERVAL = 1_000_000;
+
+  /** Syncs three times, 1000s apart, against a server the local clock gains 50 ppm on. */
+  function syncFastClock(): { clock: SyncedClock; cfg: ReturnType<typeof createConfig> } {
+    const cfg = createConfig({ syncIntervalMs: INTERVAL, timeSlewRate: Infinity });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    vi.advanceTimersByTime(INTERVAL);
+    cfg.transportAdapter.triggerPong(makePong(50, 'ping-2'));
+    vi.advanceTimersByTime(INTERVAL);
+    cfg.transportAdapter.triggerPong(makePong(0, 'ping-3'));
+    return { clock, cfg };
+  }
+
+  it('starts with a driftPpm of 0', () => {
+    const clock = new SyncedClock(createConfig());
+    expect(clock.driftPpm).toBe(0);
+  });
+
+  it('exposes the estimated skew in ppm', () => {
+    const { clock } = syncFastClock();
+    expect(clock.driftPpm).toBeCloseTo(50);
+    clock.stop();
+  });
+
+  it('extrapolates the offset in now() between syncs', () => {
+    const { clock } = syncFastClock();
+    expect(clock.now() - Date.now()).toBeCloseTo(-5);
+
+    // Half a poll later the offset has shrunk by another 25ms.
+    vi.advanceTimersByTime(INTERVAL / 2);
+    expect(clock.now() - Date.now()).toBeCloseTo(-30);
+    clock.stop();
+  });
+
+  it('keeps the skew estimate across a sleep-induced history flush', () => {
+    const { clock, cfg } = syncFastClock();
+    const flushSpy = vi.spyOn(FilterEngine.prototype, 'flush');
+    vi.setSystemTime(Date.now() + INTERVAL * 20);
+    vi.advanceTimersByTime(INTERVAL);
+    expect(flushSpy).toHaveBeenCalled();
+
+    cfg.transportAdapter.triggerPong(makePong(0, 'ping-4'));
+    expect(clock.driftPpm).toBeCloseTo(50);
+    clock.stop();
+  });
+});
+
+// ── Bounded uncertainty ───────────────────────────────────────────────────────
+
+describe('SyncedClock bounded-uncertainty time', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  /** Syncs against a server 1000ms ahead over a 20ms round trip. */
+  function syncedClock(overrides: Partial<SyncConfig> = {}): SyncedClock {
+    const cfg = createConfig({ syncIntervalMs: 60_000, timeSlewRate: Infinity, ...overrides });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    const t0 = Date.now();
+    cfg.transportAdapter.triggerPong({ t0, t1: t0 + 1010, t2: t0 + 1010, t3: t0 + 20, id: 'ping-1' });
+    return clock;
+  }
+
+  it('is unbounded before the first sync', () => {
+    const clock = new SyncedClock(createConfig());
+    expect(clock.nowInterval()).toEqual({ earliest: -Infinity, latest: Infinity });
+    expect(clock.definitelyAfter(0)).toBe(false);
+    expect(clock.definitelyBefore(Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+
+  it('is centred on the offset estimate with half the RTT as error bound', () => {
+    const clock = syncedClock();
+    const server = Date.now() + 1000;
+    expect(clock.nowInterval().earliest).toBeCloseTo(server - 10);
+    expect(clock.nowInterval().latest).toBeCloseTo(server + 10);
+  });
+
+  it('widens at dispersionRatePpm since the last sync', () => {
+    const clock = syncedClock({ dispersionRatePpm: 100 });
+    vi.advanceTimersByTime(10_000);
+    const { earliest, latest } = clock.nowInterval();
+    // 10ms from the RTT plus 100 ppm × 10s = 1ms
+    expect(latest - earliest).toBeCloseTo(22);
+  });
+
+  it('answers definitelyAfter / definitelyBefore from the interval', () => {
+    const clock = syncedClock();
+    const server = Date.now() + 1000;
+    expect(clock.definitelyAfter(server - 11)).toBe(true);
+    expect(clock.definitelyAfter(server - 9)).toBe(false);
+    expect(clock.definitelyBefore(server + 11)).toBe(true);
+    expect(clock.definitelyBefore(server + 9)).toBe(false);
+  });
+
+  it('widens by the standard error of the drift estimate as well', () => {
+    const cfg = createConfig({ syncIntervalMs: 100_000, slewRatePpm: Infinity });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    const offsets = [100, 110, 95, 108];
+    offsets.forEach((offset, i) => {
+      if (i > 0) vi.advanceTimersByTime(100_000);
+      cfg.transportAdapter.triggerPong(makePong(offset, `ping-${i + 1}`));
+    });
+    expect(clock.driftPpm).toBe(0); // the scatter hides any skew
+
+    const width = (): number => clock.nowInterval().latest - clock.nowInterval().earliest;
+    const before = width();
+    vi.advanceTimersByTime(10_000);
+    const stdErrorPpm =
+      calculateSlopeStdError(
+        [0, 100_000, 200_000, 300_000],
+        offsets.map((offset) => offset - 5),
+      ) * 1e6;
+    expect(width() - before).toBeCloseTo(2 * (15 + stdErrorPpm) * 0.01);
+    clock.stop();
+  });
+
+  it('commitWait resolves only once the timestamp has definitely passed', async () => {
+    const clock = syncedClock();
+    const ts = clock.nowInterval().latest;
+    let done = false;
+    void clock.commitWait(ts).then(() => { done = true; });
+
+    await vi.advanceTimersByTimeAsync(19);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(2);
+    expect(done).toBe(true);
+    expect(clock.definitelyAfter(ts)).toBe(true);
+    clock.stop();
+  });
+
+  it('commitWait waits for the initial sync first', async () => {
+    const cfg = createConfig({ syncIntervalMs: 60_000 });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    let done = false;
+    void clock.commitWait(0).then(() => { done = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toBe(false);
+
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toBe(true);
+    clock.stop();
+  });
+
+  it('commitWait rejects when the clock is destroyed', async () => {
+    const clock = syncedClock();
+    const wait = clock.commitWait(Date.now() + 60_000);
+    clock.destroy();
+    await expect(wait).rejects.toThrow(/destroyed/);
+  });
+});
+
+// ── getStats ──────────────────────────────────────────────────────────────────
+
+describe('SyncedClock.getStats()', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('reports an empty, unhealthy clock before the first sync', () => {
+    const clock = new SyncedClock(createConfig());
+    expect(clock.getStats()).toEqual({
+      offset: 0,
+      targetOffset: 0,
+      slewRemaining: 0,
+      jitter: 0,
+      dispersion: Infinity,
+      minRtt: null,
+      medianRtt: null,
+      sampleCount: 0,
+      rejectedCount: 0,
+      lastSyncAgeMs: null,
+      lossRate: 0,
+      health: 0,
+      status: 'degraded',
+    });
+  });
+
+  it('summarizes the sample history', () => {
+    const cfg = createConfig({ syncIntervalMs: 60_000 });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-1' });
+    vi.advanceTimersByTime(60_000);
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 30, id: 'ping-2' });
+    vi.advanceTimersByTime(60_000);
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 20, id: 'ping-3' });
+    vi.advanceTimersByTime(5000);
+
+    const stats = clock.getStats();
+    expect(stats.sampleCount).toBe(3);
+    expect(stats.minRtt).toBe(10);
+    expect(stats.medianRtt).toBe(20);
+    expect(stats.lastSyncAgeMs).toBe(5000);
+    expect(stats.jitter).toBeGreaterThan(0);
+    expect(stats.dispersion).toBeGreaterThan(10);
+    expect(stats.status).toBe('healthy');
+    clock.stop();
+  });
+
+  it('reports the offset still to be slewed in', () => {
+    const cfg = createConfig({ timeSlewRate: 10 });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1')); // offset 95
+    vi.advanceTimersByTime(1000);
+
+    const { offset, targetOffset, slewRemaining } = clock.getStats();
+    expect(offset).toBe(10);
+    expect(targetOffset).toBe(95);
+    expect(slewRemaining).toBe(85);
+    clock.stop();
+  });
+
+  it('counts rejected samples', () => {
+    const cfg = createConfig({ maxRttMs: 50 });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 200, id: 'ping-1' });
+    expect(clock.getStats().rejectedCount).toBe(1);
+    clock.stop();
+  });
+
+  it('emits "health_change" on degrade and recovery, with hysteresis', () => {
+    const cfg = createConfig({ syncIntervalMs: 1000, pingTimeoutMs: 100 });
+    const clock = new SyncedClock(cfg);
+    const changes: string[] = [];
+    clock.events.on('health_change', ({ from, to }) => changes.push(`${from}->${to}`));
+    clock.start();
+
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    expect(changes).toEqual(['degraded->healthy']);
+
+    vi.advanceTimersByTime(1100); // ping-2 lost: loss rate 1/2
+    expect(changes).toEqual(['degraded->healthy', 'healthy->degraded']);
+
+    vi.advanceTimersByTime(900);
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-3')); // loss 1/3: health ≈ 0.63
+    expect(clock.getStats().health).toBeGreaterThan(0.5);
+    expect(clock.getStats().status).toBe('degraded');
+
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-4')); // loss 1/4: health ≈ 0.71
+    expect(changes).toEqual(['degraded->healthy', 'healthy->degraded', 'degraded->healthy']);
+    clock.stop();
+  });
+
+  it('degrades while the offset exceeds driftWarningThreshold', () => {
+    const cfg = createConfig({ driftWarningThreshold: 50 });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(500, 'ping-1'));
+    expect(clock.getStats().health).toBeLessThan(0.5);
+    expect(clock.getStats().status).toBe('degraded');
+    clock.stop();
+  });
+});
+
+// ── Step policy ───────────────────────────────────────────────────────────────
+
+describe('SyncedClock step policy', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  // A single-sample history keeps drift estimation out of the way.
+  function createStepConfig(stepPolicy: SyncConfig['stepPolicy']): ReturnType<typeof createConfig> {
+    return createConfig({ historySize: 1, stepPolicy });
+  }
+
+  it('throws RangeError for a non-positive threshold', () => {
+    expect(() => new SyncedClock(createStepConfig({ stepThresholdMs: 0 }))).toThrow(RangeError);
+    expect(() => new SyncedClock(createStepConfig({ panicThresholdMs: -1 }))).toThrow(RangeError);
+  });
+
+  it('steps a correction at or above stepThresholdMs forward at once', () => {
+    const cfg = createStepConfig({ stepThresholdMs: 1000 });
+    const clock = new SyncedClock(cfg);
+    const steps: Array<SyncEventMap['time_step']> = [];
+    clock.events.on('time_step', (e) => steps.push(e));
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(30_005, 'ping-1'));
+
+    expect(clock.now() - Date.now()).toBe(30_000);
+    expect(clock.performanceNow() - performance.now()).toBeCloseTo(30_000, 0);
+    expect(steps).toHaveLength(1);
+    expect(steps[0].direction).toBe('forward');
+    expect(steps[0].to - steps[0].from).toBe(30_000);
+    clock.stop();
+  });
+
+  it('slews corrections below stepThresholdMs', () => {
+    const cfg = createStepConfig({ stepThresholdMs: 1000 });
+    const clock = new SyncedClock(cfg);
+    const onStep = vi.fn();
+    clock.events.on('time_step', onStep);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(505, 'ping-1'));
+    vi.advanceTimersByTime(1000);
+
+    expect(clock.now() - Date.now()).toBe(10);
+    expect(onStep).not.toHaveBeenCalled();
+    clock.stop();
+  });
+
+  it('freezes now() after a backward step until real time catches up', () => {
+    const cfg = createStepConfig({ stepThresholdMs: 1000 });
+    const clock = new SyncedClock(cfg);
+    const steps: Array<SyncEventMap['time_step']> = [];
+    clock.events.on('time_step', (e) => steps.push(e));
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(5, 'ping-1'));
+    vi.advanceTimersByTime(1000);
+    const before = clock.now();
+
+    cfg.transportAdapter.triggerPong(makePong(-29_995, 'ping-2'));
+    expect(steps).toEqual([
+      { from: before, to: before - 30_000, direction: 'backward', timestamp: Date.now() },
+    ]);
+    vi.advanceTimersByTime(20_000);
+    expect(clock.now()).toBe(before);
+
+    vi.advanceTimersByTime(11_000);
+    expect(clock.now()).toBe(Date.now() - 30_000);
+    clock.stop();
+  });
+
+  it('only steps on the way to the first sync with stepOnlyWhenUnsynced', () => {
+    const cfg = createStepConfig({ stepThresholdMs: 1000, stepOnlyWhenUnsynced: true });
+    const clock = new SyncedClock(cfg);
+    const onStep = vi.fn();
+    clock.events.on('time_step', onStep);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(30_005, 'ping-1'));
+    expect(onStep).toHaveBeenCalledOnce();
+
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(5, 'ping-2'));
+    expect(onStep).toHaveBeenCalledOnce();
+    expect(clock.getStats().slewRemaining).toBeLessThan(0);
+    clock.stop();
+  });
+
+  it('discards samples beyond panicThresholdMs once synced', () => {
+    const cfg = createStepConfig({ panicThresholdMs: 10_000 });
+    const clock = new SyncedClock(cfg);
+    const errors: SyncEventMap['sync_error'][] = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+    // The first sync is exempt.
+    cfg.transportAdapter.triggerPong(makePong(20_005, 'ping-1'));
+    expect(clock.getStats().targetOffset).toBe(20_000);
+
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(40_005, 'ping-2'));
+    expect(errors.map((e) => e.reason)).toEqual(['panic']);
+    expect(clock.getStats().targetOffset).toBe(20_000);
+    expect(clock.getStats().rejectedCount).toBe(1);
+    clock.stop();
+  });
+
+  it('trusts the new offset after panicRecoveryRounds agreeing rounds', () => {
+    const cfg = createStepConfig({
+      stepThresholdMs: 1000,
+      panicThresholdMs: 10_000,
+      panicRecoveryRounds: 3,
+    });
+    const clock = new SyncedClock(cfg);
+    const errors: SyncEventMap['sync_error'][] = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    const onStep = vi.fn();
+    clock.events.on('time_step', onStep);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(5, 'ping-1'));
+
+    for (const id of ['ping-2', 'ping-3', 'ping-4']) {
+      vi.advanceTimersByTime(1000);
+      cfg.transportAdapter.triggerPong(makePong(30_005, id));
+    }
+    expect(errors.map((e) => e.reason)).toEqual(['panic', 'panic']);
+    expect(clock.getStats().targetOffset).toBe(30_000);
+    expect(clock.now() - Date.now()).toBe(30_000);
+    expect(onStep).toHaveBeenCalledOnce();
+    clock.stop();
+  });
+
+  it('restarts the recovery count when rejected rounds disagree', () => {
+    const cfg = createStepConfig({ panicThresholdMs: 10_000, panicRecoveryRounds: 2 });
+    const clock = new SyncedClock(cfg);
+    const errors: SyncEventMap['sync_error'][] = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(5, 'ping-1'));
+
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(30_005, 'ping-2'));
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(-30_005, 'ping-3'));
+    expect(errors.map((e) => e.reason)).toEqual(['panic', 'panic']);
+    expect(clock.getStats().targetOffset).toBe(0);
+    clock.stop();
+  });
+
+  it('exempts the first round after a sleep from the panic check', () => {
+    const cfg = createStepConfig({ stepThresholdMs: 1000, panicThresholdMs: 10_000 });
+    const clock = new SyncedClock(cfg);
+    const onPanic = vi.fn();
+    clock.events.on('sync_error', onPanic);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(5, 'ping-1'));
+
+    // A long offline period during which the clock was reset by 30 s.
+    vi.setSystemTime(Date.now() + 3_600_000);
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(30_005, 'ping-2'));
+    expect(onPanic).not.toHaveBeenCalled();
+    expect(clock.getStats().targetOffset).toBe(30_000);
+    clock.stop();
+  });
+
+  it('throws RangeError for a non-integer panicRecoveryRounds', () => {
+    expect(
+      () => new SyncedClock(createStepConfig({ panicThresholdMs: 100, panicRecoveryRounds: 0 })),
+    ).toThrow(RangeError);
+    expect(
+      () => new SyncedClock(createStepConfig({ panicThresholdMs: 100, panicRecoveryRounds: 1.5 })),
+    ).toThrow(RangeError);
+  });
+});
+
+// ── Slew profiles ─────────────────────────────────────────────────────────────
+
+describe('SyncedClock slew convergence', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('reports estimatedConvergenceMs and emits "slew_complete" when it elapses', () => {
+    const cfg = createConfig({ syncIntervalMs: 60_000, slewRatePpm: 50_000 });
+    const clock = new SyncedClock(cfg);
+    const onComplete = vi.fn();
+    clock.events.on('slew_complete', onComplete);
+    clock.start();
+    expect(clock.estimatedConvergenceMs).toBe(0);
+    cfg.transportAdapter.triggerPong(makePong(105, 'ping-1')); // offset 100 at 5 %
+    expect(clock.estimatedConvergenceMs).toBeCloseTo(2000);
+
+    vi.advanceTimersByTime(1999);
+    expect(onComplete).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onComplete).toHaveBeenCalledOnce();
+    expect(onComplete).toHaveBeenCalledWith({ offset: 100, timestamp: Date.now() });
+    expect(clock.estimatedConvergenceMs).toBe(0);
+    clock.stop();
+  });
+
+  it('does not emit "slew_complete" for a correction applied at once', () => {
+    const cfg = createConfig({ slewRatePpm: Infinity });
+    const clock = new SyncedClock(cfg);
+    const onComplete = vi.fn();
+    clock.events.on('slew_complete', onComplete);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(105, 'ping-1'));
+    vi.advanceTimersByTime(10_000);
+    expect(onComplete).not.toHaveBeenCalled();
+    clock.stop();
+  });
+
+  it('emits "slew_complete" when a step cuts a slew short', () => {
+    const cfg = createConfig({ historySize: 1, stepPolicy: { stepThresholdMs: 1000 } });
+    const clock = new SyncedClock(cfg);
+    const onComplete = vi.fn();
+    clock.events.on('slew_complete', onComplete);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(105, 'ping-1'));
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(30_005, 'ping-2'));
+    expect(onComplete).toHaveBeenCalledOnce();
+    clock.stop();
+  });
+
+  it('applies the configured slew profile', () => {
+    const linear = createConfig({ slewRatePpm: 50_000 });
+    const eased = createConfig({ slewRatePpm: 50_000, slewProfile: 'eased' });
+    const linearClock = new SyncedClock(linear);
+    const easedClock = new SyncedClock(eased);
+    linearClock.start();
+    easedClock.start();
+    linear.transportAdapter.triggerPong(makePong(105, 'ping-1'));
+    eased.transportAdapter.triggerPong(makePong(105, 'ping-1'));
+    expect(easedClock.estimatedConvergenceMs).toBeCloseTo(3000);
+
+    vi.advanceTimersByTime(100);
+    expect(linearClock.now() - Date.now()).toBeCloseTo(5);
+    expect(easedClock.now() - Date.now()).toBeLessThan(1);
+    linearClock.stop();
+    easedClock.stop();
+  });
+
+  it('throws RangeError for a non-positive slewTimeConstantMs', () => {
+    expect(() => new SyncedClock(createConfig({ slewTimeConstantMs: 0 }))).toThrow(RangeError);
+  });
+});
+
+// ── Warm start ────────────────────────────────────────────────────────────────
+
+describe('SyncedClock warm start', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  /** Syncs a first clock against a server `offsetMs` ahead and stops it. */
+  function syncAndStop(storage: MemoryClockStorage, offsetMs = 95): number {
+    const cfg = createConfig({ storage, slewRatePpm: Infinity });
+    const clock = new SyncedClock(cfg);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(offsetMs + 5, 'ping-1'));
+    const last = clock.now();
+    clock.stop();
+    return last;
+  }
+
+  it('saves the offset, drift and samples after every sync round', () => {
+    const storage = new MemoryClockStorage();
+    syncAndStop(storage);
+    expect(storage.load()).toMatchObject({
+      version: 1,
+      offset: 95,
+      syncedAt: Date.now(),
+      driftPpm: 0,
+      samples: [{ rtt: 10, offset: 95 }],
+    });
+  });
+
+  it('does not save before the first sync', () => {
+    const storage = new MemoryClockStorage();
+    const clock = new SyncedClock(createConfig({ storage }));
+    clock.start();
+    clock.stop();
+    expect(storage.load()).toBeNull();
+  });
+
+  it('restores a saved state as a provisional sync', async () => {
+    const storage = new MemoryClockStorage();
+    syncAndStop(storage);
+    vi.advanceTimersByTime(60_000);
+
+    const cfg = createConfig({ storage });
+    const clock = new SyncedClock(cfg);
+    expect(clock.state).toBe('SYNCED');
+    expect(clock.provisional).toBe(true);
+    expect(clock.now() - Date.now()).toBe(95);
+    expect(clock.getStats().sampleCount).toBe(1);
+    expect(clock.getStats().lastSyncAgeMs).toBe(60_000);
+    await clock.waitForInitialSync();
+
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    expect(clock.provisional).toBe(false);
+    expect(clock.getStats().sampleCount).toBe(2);
+    clock.stop();
+  });
+
+  it('ignores a state older than restoredStateMaxAgeMs but never goes backwards', () => {
+    const storage = new MemoryClockStorage();
+    const last = syncAndStop(storage, 10_000);
+    vi.advanceTimersByTime(2000);
+
+    const clock = new SyncedClock(createConfig({ storage, restoredStateMaxAgeMs: 1000 }));
+    expect(clock.state).toBe('UNSYNCED');
+    expect(clock.provisional).toBe(false);
+    expect(clock.now()).toBe(last);
+  });
+
+  it.each([
+    ['a restored state', {}],
+    ['a state too old to restore', { restoredStateMaxAgeMs: 1000 }],
+  ])('ignores a lastNow beyond the error bound of %s', (_, overrides) => {
+    const storage = new MemoryClockStorage();
+    syncAndStop(storage);
+    storage.save({ ...storage.load()!, lastNow: Date.now() + 3_600_000 });
+    vi.advanceTimersByTime(2000);
+
+    const clock = new SyncedClock(createConfig({ storage, ...overrides }));
+    expect(clock.now()).toBeLessThan(Date.now() + 1000);
+  });
+
+  it('reverts to UNSYNCED if no sync completes within restoredStateMaxAgeMs', () => {
+    const storage = new MemoryClockStorage();
+    syncAndStop(storage);
+
+    const clock = new SyncedClock(createConfig({ storage, restoredStateMaxAgeMs: 10_000 }));
+    const changes: Array<SyncEventMap['state_change']> = [];
+    clock.events.on('state_change', (e) => changes.push(e));
+    clock.start();
+    vi.advanceTimersByTime(10_000);
+
+    expect(changes).toContainEqual({ from: 'SYNCED', to: 'UNSYNCED' });
+    expect(clock.provisional).toBe(false);
+    expect(clock.getStats().sampleCount).toBe(0);
+    clock.stop();
+  });
+
+  it('reports a failing save as a "sync_error"', () => {
+    const error = new Error('quota exceeded');
+    const cfg = createConfig({
+      storage: {
+        load: (): null => null,
+        save: (): void => {
+          throw error;
+        },
+      },
+    });
+    const clock = new SyncedClock(cfg);
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1'));
+    expect(errors).toMatchObject([{ reason: 'storage_error', error }]);
+
+    vi.advanceTimersByTime(1000);
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-2'));
+    expect(errors).toHaveLength(2);
+    expect(clock.state).toBe('SYNCED');
+    clock.stop();
+  });
+
+  it('starts cold and reports a failing load from start()', () => {
+    const error = new Error('SecurityError');
+    const cfg = createConfig({
+      storage: {
+        load: (): null => {
+          throw error;
+        },
+        save: vi.fn(),
+      },
+    });
+    const clock = new SyncedClock(cfg);
+    expect(clock.state).toBe('UNSYNCED');
+    const errors: Array<SyncEventMap['sync_error']> = [];
+    clock.events.on('sync_error', (e) => errors.push(e));
+
+    clock.start();
+    expect(errors).toMatchObject([{ reason: 'storage_error', error }]);
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledOnce();
+    clock.stop();
+    clock.start();
+    expect(errors).toHaveLength(1);
+    clock.stop();
+  });
+});
+
+// ── Injected time source ──────────────────────────────────────────────────────
+
+describe('SyncedClock with a ManualTimeSource', () => {
+  function createManualClock(): {
+    clock: SyncedClock;
+    cfg: ReturnType<typeof createConfig>;
+    time: ManualTimeSource;
+  } {
+    const time = new ManualTimeSource({ wallTime: 1_700_000_000_000 });
+    const cfg = createConfig({ timeSource: time });
+    return { clock: new SyncedClock(cfg), cfg, time };
+  }
+
+  it('stamps pings with the injected wall clock', () => {
+    const { clock, cfg } = createManualClock();
+    clock.start();
+    expect(cfg.transportAdapter.sendPing).toHaveBeenCalledWith({
+      t0: 1_700_000_000_000,
+      id: 'ping-1',
+    });
+    clock.destroy();
+  });
+
+  it('slews against the injected monotonic clock', () => {
+    const { clock, cfg, time } = createManualClock();
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1')); // offset 95
+    expect(clock.now()).toBe(time.wallNow());
+
+    time.advance(1000);
+    expect(clock.now() - time.wallNow()).toBeCloseTo(10);
+    expect(clock.performanceNow() - time.monotonicNow()).toBeCloseTo(10);
+    clock.destroy();
+  });
+
+  it('detects a sleep when timers fire late', () => {
+    const { clock, time } = createManualClock();
+    const onSleep = vi.fn();
+    clock.events.on('sleep_detected', onSleep);
+    clock.start();
+
+    time.freeze();
+    time.advance(60_000);
+    time.unfreeze();
+    expect(onSleep).toHaveBeenCalledWith({ gapMs: 60_000, timestamp: time.wallNow() });
+    clock.destroy();
+  });
+
+  it('stays monotonic when the wall clock is set back', () => {
+    const { clock, time } = createManualClock();
+    const before = clock.now();
+    time.jump(-5000);
+    expect(clock.now()).toBe(before);
+  });
+
+  it('schedules every timer on the injected source', () => {
+    const { clock, time } = createManualClock();
+    clock.start();
+    expect(time.pendingTimers).toBeGreaterThan(0);
+    clock.destroy();
+    expect(time.pendingTimers).toBe(0);
+  });
+
+  it('stop() drops the slew timer and start() re-arms it', () => {
+    const { clock, cfg, time } = createManualClock();
+    const onComplete = vi.fn();
+    clock.events.on('slew_complete', onComplete);
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(105, 'ping-1')); // 10 s at 10 ms/s
+    clock.stop();
+    expect(time.pendingTimers).toBe(0);
+
+    clock.start();
+    time.advance(10_000);
+    expect(onComplete).toHaveBeenCalledOnce();
+    clock.destroy();
+  });
+});
+
+// ── Scheduling ────────────────────────────────────────────────────────────────
+
+describe('SyncedClock scheduling', () => {
+  function createScheduledClock(overrides: Partial<SyncConfig> = {}): {
+    clock: SyncedClock;
+    cfg: ReturnType<typeof createConfig>;
+    time: ManualTimeSource;
+  } {
+    const time = new ManualTimeSource({ wallTime: 1_700_000_000_000 });
+    const cfg = createConfig({ timeSource: time, ...overrides });
+    return { clock: new SyncedClock(cfg), cfg, time };
+  }
+
+  it('scheduleAt() runs the callback when now() reaches the target', () => {
+    const { clock, time } = createScheduledClock();
+    const target = clock.now() + 1000;
+    const callback = vi.fn();
+    const task = clock.scheduleAt(target, callback);
+    expect(task.targetTime).toBe(target);
+
+    time.advance(999);
+    expect(callback).not.toHaveBeenCalled();
+    expect(task.pending).toBe(true);
+    time.advance(1);
+    expect(callback).toHaveBeenCalledWith({ targetTime: target, firedAt: target, latenessMs: 0 });
+    expect(task.pending).toBe(false);
+  });
+
+  it('setTimeout() runs the callback after a delay of synced time', () => {
+    const { clock, time } = createScheduledClock();
+    const callback = vi.fn();
+    clock.setTimeout(callback, 250);
+    time.advance(250);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ latenessMs: 0 }));
+  });
+
+  it('re-arms when a sync moves the offset', () => {
+    const { clock, cfg, time } = createScheduledClock({ stepPolicy: { stepThresholdMs: 50 } });
+    clock.start();
+    const target = clock.now() + 1000;
+    const callback = vi.fn();
+    clock.scheduleAt(target, callback);
+    cfg.transportAdapter.triggerPong(makePong(100, 'ping-1')); // steps forward by 95 ms
+
+    time.advance(904);
+    expect(callback).not.toHaveBeenCalled();
+    time.advance(1);
+    expect(callback).toHaveBeenCalledWith({ targetTime: target, firedAt: target, latenessMs: 0 });
+    clock.destroy();
+  });
+
+  it('is never early while a slew slows the clock down', () => {
+    const { clock, cfg, time } = createScheduledClock();
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(-100, 'ping-1')); // slews back by 105 ms
+    const target = clock.now() + 1000;
+    const callback = vi.fn();
+    clock.scheduleAt(target, callback);
+
+    time.advance(1000);
+    expect(callback).not.toHaveBeenCalled();
+    time.advance(100);
+    expect(callback).toHaveBeenCalledOnce();
+    const [{ firedAt, latenessMs }] = callback.mock.calls[0] as [{ firedAt: number; latenessMs: number }];
+    expect(firedAt).toBeGreaterThanOrEqual(target);
+    expect(latenessMs).toBeLessThan(1);
+    clock.destroy();
+  });
+
+  it('is not late while a slew speeds the clock up', () => {
+    const { clock, cfg, time } = createScheduledClock({ slewRatePpm: 50_000 });
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(188, 'ping-1')); // slews ahead by 183 ms
+    const target = clock.now() + 5000;
+    const callback = vi.fn();
+    clock.scheduleAt(target, callback);
+
+    time.advance(5000);
+    expect(callback).toHaveBeenCalledOnce();
+    const [{ latenessMs }] = callback.mock.calls[0] as [{ latenessMs: number }];
+    expect(latenessMs).toBeGreaterThanOrEqual(0);
+    expect(latenessMs).toBeLessThan(1);
+    clock.destroy();
+  });
+
+  it('re-arms when a slew completes', () => {
+    const { clock, cfg, time } = createScheduledClock({ slewRatePpm: 50_000 });
+    clock.start();
+    cfg.transportAdapter.triggerPong(makePong(105, 'ping-1')); // slews ahead by 100 ms in 2 s
+    const rearm = vi.spyOn(time, 'setTimeout');
+    clock.setTimeout(vi.fn(), 10_000);
+    rearm.mockClear();
+
+    time.advance(2000);
+    expect(rearm.mock.calls.filter(([, delay]) => delay > 1000)).toHaveLength(1);
+    clock.destroy();
+  });
+
+  it('reports lateness when the host slept through the target', () => {
+    const { clock, time } = createScheduledClock();
+    const callback = vi.fn();
+    clock.setTimeout(callback, 1000);
+    time.freeze();
+    time.advance(5000);
+    time.unfreeze();
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ latenessMs: 4000 }));
+  });
+
+  it('runs a past target on the next tick, not synchronously', () => {
+    const { clock, time } = createScheduledClock();
+    const callback = vi.fn();
+    clock.scheduleAt(clock.now() - 500, callback);
+    expect(callback).not.toHaveBeenCalled();
+    time.advance(0);
+    expect(callback).toHaveBeenCalledWith(expect.objectContaining({ latenessMs: 500 }));
+  });
+
+  it('cancel() stops a pending callback', () => {
+    const { clock, time } = createScheduledClock();
+    const callback = vi.fn();
+    const task = clock.setTimeout(callback, 100);
+    task.cancel();
+    expect(task.pending).toBe(false);
+    time.advance(200);
+    expect(callback).not.toHaveBeenCalled();
+    expect(time.pendingTimers).toBe(0);
+  });
+
+  it('destroy() cancels every pending callback', () => {
+    const { clock, time } = createScheduledClock();
+    const callback = vi.fn();
+    const task = clock.setTimeout(callback, 100);
+    clock.destroy();
+    time.advance(200);
+    expect(callback).not.toHaveBeenCalled();
+    expect(task.pending).toBe(false);
+  });
+
+  it('throws RangeError for a non-finite target or delay', () => {
+    const { clock } = createScheduledClock();
+    expect(() => clock.scheduleAt(NaN, vi.fn())).toThrow(RangeError);
+    expect(() => clock.setTimeout(vi.fn(), Infinity)).toThrow(RangeError);
+  });
+
+  it('throws RangeError for a negative scheduleTailMs', () => {
+    expect(() => createScheduledClock({ scheduleTailMs: -1 })).toThrow(RangeError);
+  });
+});
+
 // ── destroy ───────────────────────────────────────────────────────────────────
 
 describe('SyncedClock.destroy()', () => {
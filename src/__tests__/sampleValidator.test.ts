@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { validatePong } from '../sampleValidator.js';
+import type { PongPayload } from '../types.js';
+
+function makePong(overrides: Partial<PongPayload> = {}): PongPayload {
+  // 20ms RTT, server 100ms ahead
+  return { t0: 1000, t1: 1110, t2: 1110, t3: 1020, id: 'ping-1', ...overrides };
+}
+
+describe('validatePong', () => {
+  it('accepts a well-formed pong', () => {
+    expect(validatePong(makePong())).toBeNull();
+  });
+
+  it('rejects NaN and missing timestamps as "non_finite"', () => {
+    expect(validatePong(makePong({ t1: NaN }))).toBe('non_finite');
+    expect(validatePong(makePong({ t3: undefined as unknown as number }))).toBe('non_finite');
+    expect(validatePong(makePong({ t2: Infinity }))).toBe('non_finite');
+    expect(validatePong(makePong({ resolution: NaN }))).toBe('non_finite');
+  });
+
+  it('rejects t3 < t0 as "causality_violation"', () => {
+    expect(validatePong(makePong({ t3: 999 }))).toBe('causality_violation');
+  });
+
+  it('rejects t2 < t1 as "causality_violation"', () => {
+    expect(validatePong(makePong({ t1: 1120, t2: 1110 }))).toBe('causality_violation');
+  });
+
+  it('rejects server processing longer than the round-trip as "negative_rtt"', () => {
+    // Round-trip of 20ms but the server claims 50ms of processing.
+    expect(validatePong(makePong({ t1: 1100, t2: 1150 }))).toBe('negative_rtt');
+  });
+
+  it('rejects RTTs above maxRttMs', () => {
+    expect(validatePong(makePong(), { maxRttMs: 19, maxOffsetMs: Infinity })).toBe('rtt_exceeded');
+    expect(validatePong(makePong(), { maxRttMs: 20, maxOffsetMs: Infinity })).toBeNull();
+  });
+
+  it('rejects offsets beyond maxOffsetMs in either direction', () => {
+    const limits = { maxRttMs: Infinity, maxOffsetMs: 60_000 };
+    expect(validatePong(makePong({ t1: 1000 + 3_600_000, t2: 1000 + 3_600_000 }), limits)).toBe(
+      'offset_exceeded',
+    );
+    expect(validatePong(makePong({ t1: 10, t2: 10, t0: 3_600_000, t3: 3_600_020 }), limits)).toBe(
+      'offset_exceeded',
+    );
+    expect(validatePong(makePong(), limits)).toBeNull();
+  });
+});
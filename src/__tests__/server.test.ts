@@ -0,0 +1,219 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Mock } from 'vitest';
+import { createPong, createHttpHandler, createSocketHandler } from '../server.js';
+import type { HttpRequestLike, HttpResponseLike } from '../server.js';
+import { calculateOffset, calculateRTT } from '../timeMath.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/** Returns a fake clock that yields the given timestamps in order. */
+function sequenceClock(...values: number[]): () => number {
+  let i = 0;
+  return () => values[Math.min(i++, values.length - 1)];
+}
+
+type FakeRequest = HttpRequestLike & {
+  emit: (event: string, chunk?: unknown) => void;
+  destroy: Mock<() => void>;
+};
+
+function createRequest(method = 'POST'): FakeRequest {
+  const listeners: Record<string, Array<(chunk?: unknown) => void>> = {};
+  return {
+    method,
+    on(event, listener): unknown {
+      (listeners[event] ??= []).push(listener);
+      return this;
+    },
+    emit(event, chunk): void {
+      for (const listener of listeners[event] ?? []) listener(chunk);
+    },
+    destroy: vi.fn<() => void>(),
+  };
+}
+
+function createResponse(): HttpResponseLike & { headers: Record<string, string>; body?: string } {
+  return {
+    statusCode: 0,
+    headers: {},
+    setHeader(name, value): void {
+      this.headers[name] = value;
+    },
+    end(body, callback): void {
+      this.body = body;
+      callback?.();
+    },
+  };
+}
+
+// ── createPong ────────────────────────────────────────────────────────────────
+
+describe('createPong', () => {
+  it('echoes t0 and id and stamps t2 from the clock', () => {
+    const pong = createPong({ t0: 100, id: 'ping-1' }, 5000, () => 5003);
+    expect(pong).toEqual({ t0: 100, t1: 5000, t2: 5003, id: 'ping-1' });
+  });
+});
+
+// ── createHttpHandler ─────────────────────────────────────────────────────────
+
+describe('createHttpHandler', () => {
+  it('stamps t1 on arrival and t2 after the body has been read', () => {
+    const handler = createHttpHandler({ now: sequenceClock(5000, 5007) });
+    const req = createRequest();
+    const res = createResponse();
+
+    handler(req, res);
+    req.emit('data', JSON.stringify({ t0: 100, id: 'ping-1' }));
+    req.emit('end');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(res.body!)).toEqual({ t0: 100, t1: 5000, t2: 5007, id: 'ping-1' });
+  });
+
+  it('produces a pong that yields the correct offset on the client', () => {
+    // Server is 1000ms ahead, 10ms each way, 2ms processing time.
+    const handler = createHttpHandler({ now: sequenceClock(1110, 1112) });
+    const req = createRequest();
+    const res = createResponse();
+
+    handler(req, res);
+    req.emit('data', JSON.stringify({ t0: 100, id: 'ping-1' }));
+    req.emit('end');
+
+    const { t0, t1, t2 } = JSON.parse(res.body!);
+    const t3 = 122;
+    expect(calculateRTT(t0, t1, t2, t3)).toBe(20);
+    expect(calculateOffset(t0, t1, t2, t3)).toBe(1000);
+  });
+
+  it('accepts a body split across several chunks', () => {
+    const handler = createHttpHandler({ now: () => 1 });
+    const req = createRequest();
+    const res = createResponse();
+
+    handler(req, res);
+    req.emit('data', '{"t0":1,');
+    req.emit('data', '"id":"ping-9"}');
+    req.emit('end');
+
+    expect(JSON.parse(res.body!).id).toBe('ping-9');
+  });
+
+  it('decodes a multibyte character split across byte chunks', () => {
+    const handler = createHttpHandler({ now: () => 1 });
+    const req = createRequest();
+    const res = createResponse();
+    handler(req, res);
+    const bytes = new TextEncoder().encode(JSON.stringify({ t0: 1, id: 'ping-€' }));
+    const split = bytes.indexOf(0xe2) + 1;
+    req.emit('data', bytes.subarray(0, split));
+    req.emit('data', bytes.subarray(split));
+    req.emit('end');
+    expect(res.statusCode).toBe(200);
+    expect(JSON.parse(res.body!).id).toBe('ping-€');
+  });
+
+  it('rejects bodies larger than maxBodyBytes with 413', () => {
+    const handler = createHttpHandler({ maxBodyBytes: 16 });
+    const req = createRequest();
+    const res = createResponse();
+    handler(req, res);
+    req.emit('data', '{"t0":1,');
+    req.emit('data', '"id":"ping-1234567890"}');
+    req.emit('end');
+    expect(res.statusCode).toBe(413);
+    expect(res.body).toBeUndefined();
+    expect(res.headers['Connection']).toBe('close');
+    expect(req.destroy).toHaveBeenCalledOnce();
+  });
+
+  it('answers a request that fails mid-body with 400', () => {
+    const handler = createHttpHandler();
+    const req = createRequest();
+    const res = createResponse();
+    const end = vi.spyOn(res, 'end');
+    handler(req, res);
+    req.emit('data', '{"t0":1,');
+    req.emit('error', new Error('aborted'));
+    req.emit('end');
+    expect(res.statusCode).toBe(400);
+    expect(end).toHaveBeenCalledOnce();
+  });
+
+  it('throws RangeError for a non-positive maxBodyBytes', () => {
+    expect(() => createHttpHandler({ maxBodyBytes: 0 })).toThrow(RangeError);
+  });
+
+  it('rejects non-POST requests with 405', () => {
+    const handler = createHttpHandler();
+    const res = createResponse();
+    handler(createRequest('GET'), res);
+    expect(res.statusCode).toBe(405);
+    expect(res.headers['Allow']).toBe('POST');
+  });
+
+  it('rejects malformed bodies with 400', () => {
+    const handler = createHttpHandler();
+    const req = createRequest();
+    const res = createResponse();
+    handler(req, res);
+    req.emit('data', '{"t0":"not-a-number"}');
+    req.emit('end');
+    expect(res.statusCode).toBe(400);
+  });
+});
+
+// ── createSocketHandler ───────────────────────────────────────────────────────
+
+describe('createSocketHandler', () => {
+  it('answers a tagged ping frame with a tagged pong frame', () => {
+    const socket = { send: vi.fn() };
+    const handle = createSocketHandler(socket, { now: sequenceClock(5000, 5001) });
+
+    const handled = handle(JSON.stringify({ type: 'uts:ping', t0: 100, id: 'ping-1' }));
+
+    expect(handled).toBe(true);
+    expect(JSON.parse(socket.send.mock.calls[0][0])).toEqual({
+      type: 'uts:pong',
+      t0: 100,
+      t1: 5000,
+      t2: 5001,
+      id: 'ping-1',
+    });
+  });
+
+  it('accepts UTF-8 encoded binary frames', () => {
+    const socket = { send: vi.fn() };
+    const handle = createSocketHandler(socket);
+    const bytes = new TextEncoder().encode(JSON.stringify({ type: 'uts:ping', t0: 1, id: 'x' }));
+    expect(handle(bytes)).toBe(true);
+  });
+
+  it.each([
+    ['an ArrayBuffer', (bytes: Uint8Array): unknown => bytes.slice().buffer],
+    [
+      'an array of Buffer fragments',
+      (bytes: Uint8Array): unknown => [
+        Buffer.from(bytes.subarray(0, 5)),
+        Buffer.from(bytes.subarray(5)),
+      ],
+    ],
+  ])('answers a ping delivered as %s', (_, wrap) => {
+    const socket = { send: vi.fn() };
+    const handle = createSocketHandler(socket);
+    const bytes = new TextEncoder().encode(JSON.stringify({ type: 'uts:ping', t0: 1, id: 'x' }));
+    expect(handle(wrap(bytes))).toBe(true);
+    expect(JSON.parse(socket.send.mock.calls[0][0])).toMatchObject({ type: 'uts:pong', id: 'x' });
+  });
+
+  it('ignores application traffic', () => {
+    const socket = { send: vi.fn() };
+    const handle = createSocketHandler(socket);
+
+    expect(handle(JSON.stringify({ type: 'chat', text: 'hi' }))).toBe(false);
+    expect(handle('not json')).toBe(false);
+    expect(socket.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SimulatedTransport } from '../simulatedTransport.js';
+import type { SimulatedTransportOptions } from '../simulatedTransport.js';
+import { ManualTimeSource } from '../timeSource.js';
+import { SyncedClock } from '../syncedClock.js';
+import { MeanEstimator, MinDelayEstimator } from '../estimators.js';
+import type { OffsetEstimator, PongPayload } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const START = 1_700_000_000_000;
+
+function createSimulation(options: SimulatedTransportOptions = {}): {
+  time: ManualTimeSource;
+  transport: SimulatedTransport;
+  pongs: PongPayload[];
+} {
+  const time = new ManualTimeSource({ wallTime: START });
+  const transport = new SimulatedTransport({ timeSource: time, ...options });
+  const pongs: PongPayload[] = [];
+  transport.onPong((pong) => pongs.push(pong));
+  return { time, transport, pongs };
+}
+
+/** Syncs a clock over the simulated network for a minute; returns its final error. */
+function syncError(options: SimulatedTransportOptions, offsetEstimator?: OffsetEstimator): number {
+  const time = new ManualTimeSource({ wallTime: START });
+  const transport = new SimulatedTransport({ timeSource: time, ...options });
+  const clock = new SyncedClock({
+    syncIntervalMs: 1000,
+    historySize: 16,
+    outlierThreshold: 2,
+    transportAdapter: transport,
+    timeSource: time,
+    offsetEstimator,
+  });
+  clock.start();
+  time.advance(60_000);
+  const error = transport.measureError(clock);
+  clock.destroy();
+  return error;
+}
+
+// ── SimulatedTransport ────────────────────────────────────────────────────────
+
+describe('SimulatedTransport', () => {
+  it('stamps the pong from the server clock after each leg', () => {
+    const { time, transport, pongs } = createSimulation({
+      serverOffsetMs: 500,
+      latency: { type: 'constant', ms: 20 },
+      processingMs: 2,
+    });
+    transport.sendPing({ t0: time.wallNow(), id: 'p1' });
+    time.advance(41);
+    expect(pongs).toEqual([]);
+
+    time.advance(1);
+    expect(pongs).toEqual([
+      { t0: START, id: 'p1', t1: START + 520, t2: START + 522, t3: START + 42 },
+    ]);
+  });
+
+  it('models an asymmetric path', () => {
+    const { time, transport, pongs } = createSimulation({
+      outboundLatency: { type: 'constant', ms: 10 },
+      returnLatency: { type: 'constant', ms: 50 },
+    });
+    transport.sendPing({ t0: time.wallNow(), id: 'p1' });
+    time.advance(60);
+    const [{ t0, t1, t2, t3 }] = pongs;
+    expect(t1 - t0).toBe(10);
+    expect(t3 - t2).toBe(50);
+  });
+
+  it('lets the true offset change with the server drift', () => {
+    const { time, transport } = createSimulation({ serverOffsetMs: 100, serverDriftPpm: 50 });
+    expect(transport.trueOffset()).toBe(100);
+    time.advance(1_000_000);
+    expect(transport.trueOffset()).toBeCloseTo(150);
+  });
+
+  it('keeps the server clock still when the client wall clock jumps', () => {
+    const { time, transport } = createSimulation();
+    const before = transport.serverNow();
+    time.jump(-5000);
+    expect(transport.serverNow()).toBe(before);
+    expect(transport.trueOffset()).toBe(5000);
+  });
+
+  it('loses every message at a loss rate of 1', () => {
+    const { time, transport, pongs } = createSimulation({ lossRate: 1 });
+    transport.sendPing({ t0: time.wallNow(), id: 'p1' });
+    time.advance(1000);
+    expect(pongs).toEqual([]);
+    expect(transport.stats).toEqual({ sent: 1, lost: 1, duplicated: 0, delivered: 0 });
+  });
+
+  it('delivers every pong twice at a duplicate rate of 1', () => {
+    const { time, transport, pongs } = createSimulation({ duplicateRate: 1 });
+    transport.sendPing({ t0: time.wallNow(), id: 'p1' });
+    time.advance(1000);
+    expect(pongs.map(({ id }) => id)).toEqual(['p1', 'p1']);
+    expect(transport.stats).toEqual({ sent: 1, lost: 0, duplicated: 1, delivered: 2 });
+  });
+
+  it('reorders messages when the jitter exceeds their spacing', () => {
+    const { time, transport, pongs } = createSimulation({
+      latency: { type: 'uniform', minMs: 0, maxMs: 100 },
+    });
+    const ids = Array.from({ length: 20 }, (_, i) => `p${i}`);
+    for (const id of ids) {
+      transport.sendPing({ t0: time.wallNow(), id });
+      time.advance(1);
+    }
+    time.advance(1000);
+    const received = pongs.map(({ id }) => id);
+    expect([...received].sort()).toEqual([...ids].sort());
+    expect(received).not.toEqual(ids);
+  });
+
+  it('swaps each pong with the next at a reorder rate of 1', () => {
+    const { time, transport, pongs } = createSimulation({ reorderRate: 1 });
+    for (const id of ['p1', 'p2', 'p3', 'p4', 'p5']) {
+      transport.sendPing({ t0: time.wallNow(), id });
+      time.advance(500);
+    }
+    time.advance(1000);
+    expect(pongs.map(({ id }) => id)).toEqual(['p2', 'p1', 'p4', 'p3']);
+    // A held pong is stamped when it is finally delivered.
+    expect(pongs[1].t3).toBe(pongs[0].t3);
+    expect(transport.stats.delivered).toBe(4);
+  });
+
+  it('delivers a held pong that nothing overtakes after reorderMaxHoldMs', () => {
+    const { time, transport, pongs } = createSimulation({ reorderRate: 1, reorderMaxHoldMs: 300 });
+    transport.sendPing({ t0: time.wallNow(), id: 'p1' });
+    time.advance(339);
+    expect(pongs).toHaveLength(0);
+    time.advance(1);
+    expect(pongs.map(({ id }) => id)).toEqual(['p1']);
+    expect(transport.stats).toMatchObject({ sent: 1, lost: 0, delivered: 1 });
+  });
+
+  it.each([
+    ['normal', { type: 'normal', meanMs: 30, stdDevMs: 10, minMs: 5 }],
+    ['exponential', { type: 'exponential', minMs: 5, meanExtraMs: 20 }],
+  ] as const)('draws %s latencies no shorter than their minimum', (_, latency) => {
+    const { time, transport, pongs } = createSimulation({ latency });
+    for (let i = 0; i < 50; i++) transport.sendPing({ t0: time.wallNow(), id: `p${i}` });
+    time.advance(10_000);
+    expect(pongs).toHaveLength(50);
+    for (const { t0, t1, t2, t3 } of pongs) {
+      expect(t1 - t0).toBeGreaterThanOrEqual(5);
+      expect(t3 - t2).toBeGreaterThanOrEqual(5);
+    }
+  });
+
+  it('reproduces the same run from the same seed', () => {
+    const run = (seed: number): PongPayload[] => {
+      const { time, transport, pongs } = createSimulation({
+        seed,
+        latency: { type: 'exponential', minMs: 10, meanExtraMs: 15 },
+        lossRate: 0.2,
+        duplicateRate: 0.2,
+      });
+      for (let i = 0; i < 20; i++) {
+        transport.sendPing({ t0: time.wallNow(), id: `p${i}` });
+        time.advance(10);
+      }
+      time.advance(1000);
+      return pongs;
+    };
+    expect(run(7)).toEqual(run(7));
+    expect(run(7)).not.toEqual(run(8));
+  });
+
+  it('defaults to the system time source', () => {
+    vi.useFakeTimers({ now: START });
+    try {
+      const transport = new SimulatedTransport({ serverOffsetMs: 100 });
+      const onPong = vi.fn();
+      transport.onPong(onPong);
+      transport.sendPing({ t0: Date.now(), id: 'p1' });
+      vi.advanceTimersByTime(50);
+      expect(onPong).toHaveBeenCalledWith(
+        expect.objectContaining({ t0: START, id: 'p1', t1: START + 120 }),
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it.each([
+    ['lossRate', { lossRate: 1.5 }],
+    ['duplicateRate', { duplicateRate: -0.1 }],
+    ['reorderRate', { reorderRate: 1.5 }],
+    ['reorderMaxHoldMs', { reorderMaxHoldMs: -1 }],
+    ['processingMs', { processingMs: -1 }],
+  ])('throws RangeError for an invalid %s', (_, options) => {
+    expect(() => new SimulatedTransport(options)).toThrow(RangeError);
+  });
+});
+
+// ── Accuracy ──────────────────────────────────────────────────────────────────
+
+describe('SimulatedTransport accuracy', () => {
+  it('reports the error of a synced clock against the true server time', () => {
+    const error = syncError({ serverOffsetMs: 250, latency: { type: 'constant', ms: 20 } });
+    expect(error).toBeCloseTo(0);
+  });
+
+  it('exposes the bias of a slower return path', () => {
+    const error = syncError({
+      serverOffsetMs: 250,
+      outboundLatency: { type: 'constant', ms: 10 },
+      returnLatency: { type: 'constant', ms: 50 },
+    });
+    expect(error).toBeCloseTo(-20); // half the 40 ms asymmetry, behind the server
+  });
+
+  it('stays accurate when pongs arrive out of order', () => {
+    const error = syncError({ serverOffsetMs: 250, reorderRate: 0.5 });
+    expect(error).toBeCloseTo(0);
+  });
+
+  it('does not read burst noise as drift between sparse polls', () => {
+    const time = new ManualTimeSource({ wallTime: START });
+    const transport = new SimulatedTransport({
+      timeSource: time,
+      latency: { type: 'uniform', minMs: 10, maxMs: 40 },
+      seed: 1,
+    });
+    const clock = new SyncedClock({
+      syncIntervalMs: 300_000,
+      historySize: 8,
+      outlierThreshold: 2,
+      transportAdapter: transport,
+      timeSource: time,
+      initialBurst: { count: 4, intervalMs: 250 },
+    });
+    clock.start();
+    let worstError = 0;
+    let misses = 0;
+    for (let second = 0; second < 3600; second += 10) {
+      time.advance(10_000);
+      const truth = transport.serverNow();
+      const { earliest, latest } = clock.nowInterval();
+      if (truth < earliest || truth > latest) misses++;
+      worstError = Math.max(worstError, Math.abs(transport.measureError(clock)));
+    }
+    clock.destroy();
+    expect(misses).toBe(0);
+    expect(worstError).toBeLessThan(20);
+  });
+
+  it('compares estimators on a congested, lossy link', () => {
+    const conditions: SimulatedTransportOptions = {
+      serverOffsetMs: 250,
+      latency: { type: 'exponential', minMs: 10, meanExtraMs: 40 },
+      lossRate: 0.1,
+      duplicateRate: 0.05,
+      seed: 42,
+    };
+    const mean = Math.abs(syncError(conditions, new MeanEstimator(2)));
+    const minDelay = Math.abs(syncError(conditions, new MinDelayEstimator()));
+    expect(minDelay).toBeLessThan(mean);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { SlewEngine } from '../slewEngine.js';
+import { ManualTimeSource } from '../timeSource.js';
 
 describe('SlewEngine', () => {
   let fakeNow: number;
@@ -18,6 +19,10 @@ describe('SlewEngine', () => {
     expect(typeof engine.now()).toBe('number');
   });
 
+  it('throws RangeError for a non-positive slew rate', () => {
+    expect(() => new SlewEngine(0)).toThrow(RangeError);
+  });
+
   it('scaleFactor is 1.0 when no offset is set', () => {
     const engine = new SlewEngine(0.05);
     expect(engine.scaleFactor).toBe(1.0);
@@ -98,4 +103,185 @@ describe('SlewEngine', () => {
     engine.setTargetOffset(50);
     expect(engine.scaleFactor).toBe(1.05);
   });
+
+  it('step() applies a forward offset immediately', () => {
+    const engine = new SlewEngine(0.05);
+    engine.step(100);
+
+    expect(engine.now()).toBe(fakeNow + 100);
+    expect(engine.scaleFactor).toBe(1.0);
+  });
+
+  it('step() holds now() after a backward step until real time catches up', () => {
+    const engine = new SlewEngine(0.05);
+    const before = engine.now();
+    engine.step(-100);
+
+    fakeNow += 60;
+    expect(engine.now()).toBe(before);
+
+    fakeNow += 60;
+    expect(engine.now()).toBe(fakeNow - 100);
+  });
+
+  it('offset() reaches the target after |gap| / rate of real time', () => {
+    const engine = new SlewEngine(0.05);
+    engine.setTargetOffset(100);
+
+    fakeNow += 1000;
+    expect(engine.offset()).toBeCloseTo(50);
+    fakeNow += 1000;
+    expect(engine.offset()).toBeCloseTo(100);
+    fakeNow += 1000;
+    expect(engine.offset()).toBeCloseTo(100);
+  });
+
+  it('slews at slewRatePpm parts per million when it is given', () => {
+    const engine = new SlewEngine(undefined, { slewRatePpm: 10_000 });
+    engine.setTargetOffset(100);
+    expect(engine.scaleFactor).toBe(1.01);
+
+    fakeNow += 1000;
+    expect(engine.offset()).toBeCloseTo(10);
+    expect(engine.estimatedConvergenceMs).toBeCloseTo(9000);
+  });
+
+  it('prefers slewRatePpm over the fractional slew rate', () => {
+    const engine = new SlewEngine(0.5, { slewRatePpm: 50_000 });
+    engine.setTargetOffset(-100);
+    expect(engine.scaleFactor).toBe(0.95);
+  });
+
+  it('throws RangeError for a non-positive slewRatePpm', () => {
+    expect(() => new SlewEngine(0.05, { slewRatePpm: 0 })).toThrow(RangeError);
+  });
+
+  it('applies every target at once with an infinite rate', () => {
+    const engine = new SlewEngine(Infinity);
+    engine.setTargetOffset(100);
+    expect(engine.offset()).toBe(100);
+  });
+
+  it('follows a drifting target once converged', () => {
+    const engine = new SlewEngine(0.05);
+    // The target falls behind real time by 1000 ppm, i.e. 1ms per second.
+    engine.setTargetOffset(100, 1000);
+
+    fakeNow += 10_000;
+    expect(engine.offset()).toBeCloseTo(90);
+    expect(engine.scaleFactor).toBeCloseTo(0.999);
+  });
+
+  it('projectedOffset() reads ahead on the curve without moving it', () => {
+    const engine = new SlewEngine(0.05);
+    engine.setTargetOffset(100, 1000);
+    expect(engine.projectedOffset(1000)).toBeCloseTo(49);
+    expect(engine.projectedOffset(10_000)).toBeCloseTo(90);
+    expect(engine.offset()).toBe(0);
+  });
+
+  it('throws RangeError for a non-positive timeConstantMs', () => {
+    expect(() => new SlewEngine(0.05, { timeConstantMs: 0 })).toThrow(RangeError);
+  });
+
+  it('estimatedConvergenceMs counts down to 0', () => {
+    const engine = new SlewEngine(0.05);
+    expect(engine.estimatedConvergenceMs).toBe(0);
+    engine.setTargetOffset(100);
+    expect(engine.estimatedConvergenceMs).toBeCloseTo(2000);
+
+    fakeNow += 500;
+    expect(engine.estimatedConvergenceMs).toBeCloseTo(1500);
+    fakeNow += 1500;
+    expect(engine.estimatedConvergenceMs).toBe(0);
+  });
+
+  describe.each(['linear', 'exponential', 'eased'] as const)('%s profile', (profile) => {
+    it('approaches the target without overshoot or exceeding the slew rate', () => {
+      const engine = new SlewEngine(0.05, { profile });
+      engine.setTargetOffset(200);
+      const eta = engine.estimatedConvergenceMs;
+
+      let previous = engine.offset();
+      for (let i = 0; i < 100; i++) {
+        fakeNow += eta / 100;
+        const offset = engine.offset();
+        expect(offset).toBeGreaterThanOrEqual(previous);
+        expect(offset - previous).toBeLessThanOrEqual((0.05 * eta) / 100 + 1e-9);
+        expect(offset).toBeLessThanOrEqual(200);
+        previous = offset;
+      }
+      expect(engine.offset()).toBe(200);
+      expect(engine.estimatedConvergenceMs).toBe(0);
+    });
+  });
+
+  describe.each(['exponential', 'eased'] as const)('%s profile', (profile) => {
+    it.each([
+      ['further on', 300],
+      ['back', -50],
+    ])('carries the current rate into a target moved %s mid-slew', (_, target) => {
+      const engine = new SlewEngine(0.05, { profile });
+      engine.setTargetOffset(100);
+      fakeNow += 1000;
+      const before = engine.scaleFactor;
+      engine.setTargetOffset(target);
+      expect(engine.scaleFactor).toBeCloseTo(before, 9);
+
+      const eta = engine.estimatedConvergenceMs;
+      let previous = engine.offset();
+      for (let i = 0; i < 200; i++) {
+        fakeNow += eta / 200;
+        const offset = engine.offset();
+        expect(Math.abs(offset - previous)).toBeLessThanOrEqual((0.05 * eta) / 200 + 1e-9);
+        previous = offset;
+      }
+      fakeNow += 1;
+      expect(engine.offset()).toBe(target);
+    });
+  });
+
+  it('eased profile starts and ends at real speed', () => {
+    const engine = new SlewEngine(0.05, { profile: 'eased' });
+    engine.setTargetOffset(100);
+    expect(engine.scaleFactor).toBe(1.0);
+    expect(engine.estimatedConvergenceMs).toBeCloseTo(3000);
+
+    fakeNow += 1500;
+    expect(engine.offset()).toBeCloseTo(50);
+    expect(engine.scaleFactor).toBeCloseTo(1.05);
+
+    fakeNow += 1499;
+    expect(engine.scaleFactor).toBeCloseTo(1.0, 3);
+  });
+
+  it('exponential profile decays by e every time constant', () => {
+    const engine = new SlewEngine(0.05, { profile: 'exponential', timeConstantMs: 1000 });
+    engine.setTargetOffset(10);
+    // 10ms / 1000ms = 1 % < 5 %, so the decay starts at once.
+    expect(engine.scaleFactor).toBeCloseTo(1.01);
+
+    fakeNow += 1000;
+    expect(engine.offset()).toBeCloseTo(10 * (1 - Math.exp(-1)));
+  });
+
+  it('exponential profile slews linearly until the decay fits the slew rate', () => {
+    const engine = new SlewEngine(0.05, { profile: 'exponential', timeConstantMs: 1000 });
+    engine.setTargetOffset(200);
+    expect(engine.estimatedConvergenceMs).toBeCloseTo(3000 + 1000 * Math.log(50 / 0.001));
+
+    fakeNow += 3000;
+    expect(engine.offset()).toBeCloseTo(150);
+    expect(engine.scaleFactor).toBeCloseTo(1.05);
+  });
+
+  it('measures elapsed time on an injected time source', () => {
+    const time = new ManualTimeSource({ monotonicTime: 5000 });
+    const engine = new SlewEngine(0.05, { timeSource: time });
+    engine.setTargetOffset(100);
+
+    time.advance(1000);
+    expect(engine.offset()).toBeCloseTo(50);
+    expect(engine.now()).toBeCloseTo(6050);
+  });
 });
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { MemoryClockStorage, LocalStorageClockStorage, FileClockStorage } from '../storage.js';
+import type { WebStorageLike } from '../storage.js';
+import type { PersistedClockState } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const STATE: PersistedClockState = {
+  version: 1,
+  savedAt: 2000,
+  offset: 95,
+  syncedAt: 1000,
+  driftPpm: 12,
+  errorMs: 5,
+  lastNow: 2095,
+  samples: [{ rtt: 10, offset: 95, timestamp: 1000 }],
+};
+
+function createWebStorage(): WebStorageLike & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value): void => {
+      items.set(key, value);
+    },
+  };
+}
+
+// ── MemoryClockStorage ────────────────────────────────────────────────────────
+
+describe('MemoryClockStorage', () => {
+  it('returns null before anything is saved', () => {
+    expect(new MemoryClockStorage().load()).toBeNull();
+  });
+
+  it('returns a copy of the saved state', () => {
+    const storage = new MemoryClockStorage();
+    storage.save(STATE);
+    const loaded = storage.load()!;
+    expect(loaded).toEqual(STATE);
+    loaded.samples.push({ rtt: 1, offset: 1, timestamp: 1 });
+    expect(storage.load()!.samples).toHaveLength(1);
+  });
+});
+
+// ── LocalStorageClockStorage ──────────────────────────────────────────────────
+
+describe('LocalStorageClockStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('round-trips the state as JSON under the default key', () => {
+    const webStorage = createWebStorage();
+    const storage = new LocalStorageClockStorage({ storage: webStorage });
+    storage.save(STATE);
+    expect(JSON.parse(webStorage.items.get('universal-time-sync')!)).toEqual(STATE);
+    expect(storage.load()).toEqual(STATE);
+  });
+
+  it('uses a custom key', () => {
+    const webStorage = createWebStorage();
+    new LocalStorageClockStorage({ storage: webStorage, key: 'eu' }).save(STATE);
+    expect(webStorage.items.has('eu')).toBe(true);
+  });
+
+  it('defaults to the global localStorage', () => {
+    const webStorage = createWebStorage();
+    vi.stubGlobal('localStorage', webStorage);
+    new LocalStorageClockStorage().save(STATE);
+    expect(webStorage.items.size).toBe(1);
+  });
+
+  it('throws TypeError without a global localStorage', () => {
+    vi.stubGlobal('localStorage', undefined);
+    expect(() => new LocalStorageClockStorage()).toThrow(TypeError);
+  });
+
+  it.each([
+    ['nothing is stored', null],
+    ['the JSON is corrupt', '{"version":'],
+    ['the version is unknown', JSON.stringify({ ...STATE, version: 2 })],
+    ['a field is missing', JSON.stringify({ ...STATE, offset: undefined })],
+    ['a sample is malformed', JSON.stringify({ ...STATE, samples: [{ rtt: 'x' }] })],
+    [
+      'a sample weight is not a number',
+      JSON.stringify({ ...STATE, samples: [{ ...STATE.samples[0], weight: 'heavy' }] }),
+    ],
+    [
+      'a sample weight is negative',
+      JSON.stringify({ ...STATE, samples: [{ ...STATE.samples[0], weight: -1 }] }),
+    ],
+  ])('returns null when %s', (_, stored) => {
+    const webStorage = createWebStorage();
+    if (stored !== null) webStorage.items.set('universal-time-sync', stored);
+    expect(new LocalStorageClockStorage({ storage: webStorage }).load()).toBeNull();
+  });
+});
+
+// ── FileClockStorage ──────────────────────────────────────────────────────────
+
+describe('FileClockStorage', () => {
+  it('round-trips the state through a file with node:fs', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'uts-'));
+    try {
+      const storage = new FileClockStorage({ path: path.join(dir, 'clock.json'), fs });
+      expect(storage.load()).toBeNull();
+      storage.save(STATE);
+      expect(storage.load()).toEqual(STATE);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it('returns null for a malformed file', () => {
+    const storage = new FileClockStorage({
+      path: 'clock.json',
+      fs: { readFileSync: (): string => 'not json', writeFileSync: vi.fn() },
+    });
+    expect(storage.load()).toBeNull();
+  });
+});
@@ -77,9 +77,10 @@ describe('SyncedClock', () => {
     const adapter = createMockAdapter();
     const config = createConfig({ transportAdapter: adapter, timeSlewRate: 1000 });
     const clock = new SyncedClock(config);
+    clock.start();
 
     // server is 100ms ahead: t0=1000, t1=1100, t2=1100, t3=1010 => offset=90
-    const pong: PongPayload = { t0: 1000, t1: 1100, t2: 1100, t3: 1010, id: 'test-1' };
+    const pong: PongPayload = { t0: 1000, t1: 1100, t2: 1100, t3: 1010, id: 'ping-1' };
     adapter.triggerPong(pong);
 
     // With high slew rate, now() should reflect a positive offset
@@ -91,10 +92,11 @@ describe('SyncedClock', () => {
     const adapter = createMockAdapter();
     const config = createConfig({ transportAdapter: adapter, timeSlewRate: 10000 });
     const clock = new SyncedClock(config);
+    clock.start();
 
     // Simulate symmetric pong with 100ms ahead server
     // t0=0, t1=100, t2=100, t3=10 => offset = ((100-0)+(100-10))/2 = 95
-    const pong: PongPayload = { t0: 0, t1: 100, t2: 100, t3: 10, id: 'p1' };
+    const pong: PongPayload = { t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-1' };
     adapter.triggerPong(pong);
 
     const nowValue = clock.now();
@@ -108,10 +110,11 @@ describe('SyncedClock', () => {
     const slewRate = 5;
     const config = createConfig({ transportAdapter: adapter, timeSlewRate: slewRate });
     const clock = new SyncedClock(config);
+    clock.start();
 
     // Inject a large offset via pong
     // t0=0, t1=1000, t2=1000, t3=10 => offset = ((1000-0)+(1000-10))/2 = 995
-    const pong: PongPayload = { t0: 0, t1: 1000, t2: 1000, t3: 10, id: 'p1' };
+    const pong: PongPayload = { t0: 0, t1: 1000, t2: 1000, t3: 10, id: 'ping-1' };
     adapter.triggerPong(pong);
 
     // Read now() twice - the offset should have changed by at most slewRate
@@ -120,6 +123,52 @@ describe('SyncedClock', () => {
     expect(t2 - t1).toBeLessThanOrEqual(slewRate + 100); // allow for real time passing
   });
 
+  it('slewing: the deprecated timeSlewRate is read as ms per second of real time', () => {
+    const adapter = createMockAdapter();
+    const clock = new SyncedClock(createConfig({ transportAdapter: adapter, timeSlewRate: 5 }));
+    clock.start();
+    adapter.triggerPong({ t0: 0, t1: 1000, t2: 1000, t3: 10, id: 'ping-1' });
+
+    expect(clock.now() - Date.now()).toBe(0);
+    vi.advanceTimersByTime(1000);
+    expect(clock.now() - Date.now()).toBeCloseTo(5);
+    clock.stop();
+  });
+
+  it('slewing: converges at the same speed however often now() is called', () => {
+    const busy = createMockAdapter();
+    const idle = createMockAdapter();
+    const busyClock = new SyncedClock(createConfig({ transportAdapter: busy }));
+    const idleClock = new SyncedClock(createConfig({ transportAdapter: idle }));
+    busyClock.start();
+    idleClock.start();
+    const pong: PongPayload = { t0: 0, t1: 1000, t2: 1000, t3: 10, id: 'ping-1' };
+    busy.triggerPong(pong);
+    idle.triggerPong(pong);
+
+    for (let i = 0; i < 1000; i++) {
+      busyClock.now();
+      vi.advanceTimersByTime(1);
+    }
+    expect(busyClock.now()).toBeCloseTo(idleClock.now());
+    expect(idleClock.now() - Date.now()).toBeCloseTo(10);
+    busyClock.stop();
+    idleClock.stop();
+  });
+
+  it('now() and performanceNow() carry the same correction', () => {
+    const adapter = createMockAdapter();
+    const clock = new SyncedClock(createConfig({ transportAdapter: adapter }));
+    clock.start();
+    adapter.triggerPong({ t0: 0, t1: 1000, t2: 1000, t3: 10, id: 'ping-1' });
+
+    for (const elapsed of [0, 500, 30_000]) {
+      vi.advanceTimersByTime(elapsed);
+      expect(clock.now() - Date.now()).toBeCloseTo(clock.performanceNow() - performance.now());
+    }
+    clock.stop();
+  });
+
   it('calling stop() multiple times does not throw', () => {
     const clock = new SyncedClock(createConfig());
     clock.start();
@@ -147,9 +196,10 @@ describe('SyncedClock', () => {
     const slewSetTargetSpy = vi.spyOn(SlewEngine.prototype, 'setTargetOffset');
 
     const adapter = createMockAdapter();
-    new SyncedClock(createConfig({ transportAdapter: adapter }));
+    const clock = new SyncedClock(createConfig({ transportAdapter: adapter }));
+    clock.start();
 
-    const pong: PongPayload = { t0: 0, t1: 100, t2: 100, t3: 10, id: 'p1' };
+    const pong: PongPayload = { t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-1' };
     adapter.triggerPong(pong);
 
     const expectedRtt = calculateRTT(pong.t0, pong.t1, pong.t2, pong.t3);
@@ -159,16 +209,46 @@ describe('SyncedClock', () => {
       expect.objectContaining({ rtt: expectedRtt, offset: expectedOffset }),
     );
     // For a single sample, FilterEngine.getOptimalOffset() returns the sample's offset directly,
-    // so the SlewEngine target must equal that computed offset.
-    expect(slewSetTargetSpy).toHaveBeenCalledWith(expectedOffset);
+    // so the SlewEngine target must equal that computed offset (with no drift yet).
+    expect(slewSetTargetSpy).toHaveBeenCalledWith(expectedOffset, 0);
+  });
+
+  it('uses the configured offsetEstimator', () => {
+    const adapter = createMockAdapter();
+    const clock = new SyncedClock(
+      createConfig({ transportAdapter: adapter, offsetEstimator: { estimate: () => 1234 } }),
+    );
+    const offsets: number[] = [];
+    clock.events.on('sync_success', ({ offset }) => offsets.push(offset));
+    clock.start();
+
+    adapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-1' });
+    expect(offsets).toEqual([1234]);
+  });
+
+  it('evicts samples older than maxSampleAgeMs', () => {
+    const adapter = createMockAdapter();
+    const clock = new SyncedClock(
+      createConfig({ transportAdapter: adapter, syncIntervalMs: 60_000, maxSampleAgeMs: 90_000 }),
+    );
+    clock.start();
+    adapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-1' });
+    vi.advanceTimersByTime(60_000);
+    adapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-2' });
+    expect(clock.getStats().sampleCount).toBe(2);
+    vi.advanceTimersByTime(60_000);
+    adapter.triggerPong({ t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-3' });
+    expect(clock.getStats().sampleCount).toBe(2);
+    clock.stop();
   });
 
   it('performanceNow() returns slewed time from SlewEngine', () => {
     const adapter = createMockAdapter();
     const clock = new SyncedClock(createConfig({ transportAdapter: adapter }));
+    clock.start();
 
     // Inject a positive offset: t0=0, t1=100, t2=100, t3=10 → offset = ((100-0)+(100-10))/2 = 95ms
-    const pong: PongPayload = { t0: 0, t1: 100, t2: 100, t3: 10, id: 'p1' };
+    const pong: PongPayload = { t0: 0, t1: 100, t2: 100, t3: 10, id: 'ping-1' };
     adapter.triggerPong(pong);
 
     // Advance time enough for SlewEngine to converge (gap=95ms, rate=5% → ~1900ms)
@@ -3,8 +3,14 @@ import {
   calculateRTT,
   calculateOffset,
   calculateMean,
+  calculateWeightedMean,
   calculateStdDev,
+  calculateMedian,
+  calculateSlope,
+  calculateSlopeStdError,
   filterOutliers,
+  marzullo,
+  estimateAsymmetry,
 } from '../timeMath.js';
 
 describe('calculateRTT', () => {
@@ -38,6 +44,54 @@ describe('calculateOffset', () => {
     // t0=200, t1=100, t2=100, t3=220 => offset = ((100-200)+(100-220))/2 = (-100-120)/2 = -110
     expect(calculateOffset(200, 100, 100, 220)).toBe(-110);
   });
+
+  it('centres the estimate within the quantization bucket of coarse server timestamps', () => {
+    // Server truth is 1_700_000_000_750 at t1/t2; the Date header truncates to the second.
+    // t0=1_700_000_000_000, t3=1_700_000_000_100, 50ms each way, offset = 700
+    const header = 1_700_000_000_000;
+    expect(calculateOffset(1_700_000_000_000, header, header, 1_700_000_000_100, 1000)).toBe(450);
+    expect(calculateOffset(100, 200, 200, 120, 0)).toBe(90);
+  });
+
+  it('removes the bias of a slower outbound leg given as a ratio', () => {
+    // True offset 0; 80ms out, 20ms back → the symmetric formula reads +30.
+    expect(calculateOffset(0, 80, 80, 100)).toBe(30);
+    expect(calculateOffset(0, 80, 80, 100, 0, { outboundRatio: 0.8 })).toBeCloseTo(0);
+  });
+
+  it('removes the bias of a fixed excess delay', () => {
+    expect(calculateOffset(0, 80, 80, 100, 0, { outboundExcessMs: 60 })).toBe(0);
+  });
+});
+
+describe('estimateAsymmetry', () => {
+  it('returns a symmetric path without observations', () => {
+    expect(estimateAsymmetry([])).toEqual({ outboundRatio: 0.5, outboundExcessMs: 0 });
+  });
+
+  it('fits a fixed excess delay from the mean bias', () => {
+    const observations = [
+      { rtt: 100, bias: 28 },
+      { rtt: 120, bias: 32 },
+    ];
+    expect(estimateAsymmetry(observations, 'fixed')).toEqual({
+      outboundRatio: 0.5,
+      outboundExcessMs: 60,
+    });
+  });
+
+  it('fits a ratio proportional to the RTT', () => {
+    const observations = [
+      { rtt: 100, bias: 30 },
+      { rtt: 200, bias: 60 },
+    ];
+    const { outboundRatio } = estimateAsymmetry(observations, 'ratio');
+    expect(outboundRatio).toBeCloseTo(0.8);
+  });
+
+  it('clamps the ratio to [0, 1]', () => {
+    expect(estimateAsymmetry([{ rtt: 10, bias: 100 }], 'ratio').outboundRatio).toBe(1);
+  });
 });
 
 describe('calculateMean', () => {
@@ -54,6 +108,16 @@ describe('calculateMean', () => {
   });
 });
 
+describe('calculateWeightedMean', () => {
+  it('weights each value', () => {
+    expect(calculateWeightedMean([10, 20], [3, 1])).toBe(12.5);
+  });
+
+  it('falls back to the plain mean when every weight is 0', () => {
+    expect(calculateWeightedMean([10, 20], [0, 0])).toBe(15);
+  });
+});
+
 describe('calculateStdDev', () => {
   it('calculates standard deviation of basic values', () => {
     // [2, 4, 4, 4, 5, 5, 7, 9] => mean=5, variance=4, stddev=2
@@ -69,6 +133,52 @@ describe('calculateStdDev', () => {
   });
 });
 
+describe('calculateMedian', () => {
+  it('returns the middle value of an odd-length array', () => {
+    expect(calculateMedian([9, 1, 5])).toBe(5);
+  });
+
+  it('averages the two middle values of an even-length array', () => {
+    expect(calculateMedian([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it('returns 0 for an empty array', () => {
+    expect(calculateMedian([])).toBe(0);
+  });
+});
+
+describe('calculateSlope', () => {
+  it('returns the least-squares slope', () => {
+    expect(calculateSlope([0, 1, 2, 3], [1, 3, 5, 7])).toBeCloseTo(2);
+    expect(calculateSlope([0, 1, 2], [0, 2, 1])).toBeCloseTo(0.5);
+  });
+
+  it('returns 0 with fewer than two points', () => {
+    expect(calculateSlope([5], [10])).toBe(0);
+    expect(calculateSlope([], [])).toBe(0);
+  });
+
+  it('returns 0 when every x is identical', () => {
+    expect(calculateSlope([4, 4, 4], [1, 2, 3])).toBe(0);
+  });
+});
+
+describe('calculateSlopeStdError', () => {
+  it('is 0 for collinear points', () => {
+    expect(calculateSlopeStdError([0, 1, 2, 3], [1, 3, 5, 7])).toBe(0);
+  });
+
+  it('measures the slope uncertainty from the residual scatter', () => {
+    // Residuals −0.5, 1, −0.5 around y = 0.5 + 0.5x: σ² = 1.5 / 1, Σ(x − x̄)² = 2.
+    expect(calculateSlopeStdError([0, 1, 2], [0, 2, 1])).toBeCloseTo(Math.sqrt(1.5 / 2));
+  });
+
+  it('returns Infinity with fewer than three points or identical xs', () => {
+    expect(calculateSlopeStdError([0, 1], [0, 1])).toBe(Infinity);
+    expect(calculateSlopeStdError([4, 4, 4], [1, 2, 3])).toBe(Infinity);
+  });
+});
+
 describe('filterOutliers', () => {
   it('removes spike values above threshold', () => {
     // Normal values around 10, one spike at 1000
@@ -93,3 +203,45 @@ describe('filterOutliers', () => {
     expect(filterOutliers(values, 2)).toEqual([5, 5, 5, 5]);
   });
 });
+
+describe('marzullo', () => {
+  it('returns count 0 for no intervals', () => {
+    expect(marzullo([]).count).toBe(0);
+  });
+
+  it('returns the single interval unchanged', () => {
+    expect(marzullo([{ lower: 8, upper: 12 }])).toEqual({ lower: 8, upper: 12, count: 1 });
+  });
+
+  it('finds the intersection agreed on by the most sources', () => {
+    // Classic example: [8,12], [11,13], [10,12] → all three agree on [11,12]
+    const result = marzullo([
+      { lower: 8, upper: 12 },
+      { lower: 11, upper: 13 },
+      { lower: 10, upper: 12 },
+    ]);
+    expect(result).toEqual({ lower: 11, upper: 12, count: 3 });
+  });
+
+  it('ignores a falseticker far from the majority', () => {
+    const result = marzullo([
+      { lower: 8, upper: 12 },
+      { lower: 11, upper: 13 },
+      { lower: 100, upper: 104 },
+    ]);
+    expect(result).toEqual({ lower: 11, upper: 12, count: 2 });
+  });
+
+  it('treats touching intervals as overlapping', () => {
+    expect(
+      marzullo([
+        { lower: 0, upper: 5 },
+        { lower: 5, upper: 10 },
+      ]),
+    ).toEqual({
+      lower: 5,
+      upper: 5,
+      count: 2,
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ManualTimeSource, SystemTimeSource } from '../timeSource.js';
+
+describe('SystemTimeSource', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the host clocks at call time', () => {
+    const time = new SystemTimeSource();
+    vi.useFakeTimers({ now: 5000 });
+    expect(time.wallNow()).toBe(5000);
+    const start = time.monotonicNow();
+    vi.advanceTimersByTime(100);
+    expect(time.monotonicNow() - start).toBe(100);
+  });
+
+  it('schedules and cancels through the global timers', () => {
+    vi.useFakeTimers();
+    const time = new SystemTimeSource();
+    const fired = vi.fn();
+    const cancelled = vi.fn();
+    time.setTimeout(fired, 50);
+    time.clearTimeout(time.setTimeout(cancelled, 50));
+    vi.advanceTimersByTime(50);
+    expect(fired).toHaveBeenCalledOnce();
+    expect(cancelled).not.toHaveBeenCalled();
+  });
+});
+
+describe('ManualTimeSource', () => {
+  it('starts at the given readings', () => {
+    const time = new ManualTimeSource({ wallTime: 1_700_000_000_000, monotonicTime: 42 });
+    expect(time.wallNow()).toBe(1_700_000_000_000);
+    expect(time.monotonicNow()).toBe(42);
+  });
+
+  it('advance() moves both clocks', () => {
+    const time = new ManualTimeSource({ wallTime: 1000 });
+    time.advance(250);
+    expect(time.wallNow()).toBe(1250);
+    expect(time.monotonicNow()).toBe(250);
+  });
+
+  it('throws RangeError when advancing by a negative amount', () => {
+    expect(() => new ManualTimeSource().advance(-1)).toThrow(RangeError);
+  });
+
+  it('fires timers in due order, each at its due time', () => {
+    const time = new ManualTimeSource();
+    const seen: Array<[string, number]> = [];
+    time.setTimeout(() => seen.push(['b', time.monotonicNow()]), 200);
+    time.setTimeout(() => seen.push(['a', time.monotonicNow()]), 100);
+    time.setTimeout(() => seen.push(['c', time.monotonicNow()]), 300);
+    time.advance(250);
+    expect(seen).toEqual([
+      ['a', 100],
+      ['b', 200],
+    ]);
+    expect(time.monotonicNow()).toBe(250);
+    expect(time.pendingTimers).toBe(1);
+  });
+
+  it('fires timers scheduled by callbacks within the same advance()', () => {
+    const time = new ManualTimeSource();
+    const ticks: number[] = [];
+    const tick = (): void => {
+      ticks.push(time.monotonicNow());
+      time.setTimeout(tick, 100);
+    };
+    time.setTimeout(tick, 100);
+    time.advance(350);
+    expect(ticks).toEqual([100, 200, 300]);
+  });
+
+  it('clearTimeout() cancels a timer', () => {
+    const time = new ManualTimeSource();
+    const callback = vi.fn();
+    time.clearTimeout(time.setTimeout(callback, 10));
+    time.advance(20);
+    expect(callback).not.toHaveBeenCalled();
+    expect(time.pendingTimers).toBe(0);
+  });
+
+  it('jump() steps the wall clock only', () => {
+    const time = new ManualTimeSource({ wallTime: 10_000 });
+    const callback = vi.fn();
+    time.setTimeout(callback, 10);
+    time.jump(-5000);
+    expect(time.wallNow()).toBe(5000);
+    expect(time.monotonicNow()).toBe(0);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('holds timers while frozen and fires them late on unfreeze()', () => {
+    const time = new ManualTimeSource();
+    const firedAt: number[] = [];
+    time.setTimeout(() => firedAt.push(time.monotonicNow()), 100);
+    time.setTimeout(() => firedAt.push(time.monotonicNow()), 200);
+    time.freeze();
+    expect(time.frozen).toBe(true);
+    time.advance(10_000);
+    expect(firedAt).toEqual([]);
+
+    time.unfreeze();
+    expect(firedAt).toEqual([10_000, 10_000]);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { AddressInfo } from 'node:net';
+import { WebSocketTransport } from '../webSocketTransport.js';
+import type { WebSocketLike, WebSocketTransportOptions } from '../webSocketTransport.js';
+import { createSocketHandler } from '../server.js';
+import { SyncedClock } from '../syncedClock.js';
+import { ManualTimeSource } from '../timeSource.js';
+import type { PongPayload } from '../types.js';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const SERVER_AHEAD_MS = 60_000;
+
+let server: WebSocketServer;
+let url: string;
+let appMessages: string[];
+
+function startServer(): Promise<void> {
+  appMessages = [];
+  server = new WebSocketServer({ port: 0 });
+  server.on('connection', (socket) => {
+    const handleTimeSync = createSocketHandler(socket, { now: () => Date.now() + SERVER_AHEAD_MS });
+    socket.on('message', (data, isBinary) => {
+      const message = isBinary ? data : data.toString();
+      if (handleTimeSync(message)) return;
+      appMessages.push(String(message));
+      socket.send(`echo:${String(message)}`);
+    });
+  });
+  return new Promise((resolve) => {
+    server.on('listening', () => {
+      url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+}
+
+function stopServer(): Promise<void> {
+  for (const client of server.clients) client.terminate();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+function createTransport(overrides: Partial<WebSocketTransportOptions> = {}): WebSocketTransport {
+  return new WebSocketTransport({
+    url,
+    createSocket: (target) => new WebSocket(target) as unknown as WebSocketLike,
+    reconnect: { initialDelayMs: 10, maxDelayMs: 50 },
+    ...overrides,
+  });
+}
+
+function waitForConnection(transport: WebSocketTransport, connected = true): Promise<void> {
+  if (transport.connected === connected) return Promise.resolve();
+  return new Promise((resolve) => {
+    transport.onConnectionChange((state) => {
+      if (state === connected) resolve();
+    });
+  });
+}
+
+function nextPong(transport: WebSocketTransport): Promise<PongPayload> {
+  return new Promise((resolve) => transport.onPong(resolve));
+}
+
+// ── WebSocketTransport ────────────────────────────────────────────────────────
+
+describe('WebSocketTransport', () => {
+  beforeEach(startServer);
+  afterEach(stopServer);
+
+  it('round-trips a ping and stamps t3 on arrival', async () => {
+    const transport = createTransport();
+    await waitForConnection(transport);
+
+    const pongPromise = nextPong(transport);
+    const t0 = Date.now();
+    transport.sendPing({ t0, id: 'ping-1' });
+    const pong = await pongPromise;
+
+    expect(pong.id).toBe('ping-1');
+    expect(pong.t0).toBe(t0);
+    expect(pong.t3).toBeGreaterThanOrEqual(t0);
+    expect(pong.t3).toBeLessThanOrEqual(Date.now());
+    expect(pong.t1 - t0).toBeGreaterThan(SERVER_AHEAD_MS - 1000);
+    transport.close();
+  });
+
+  it('multiplexes application traffic on the same socket', async () => {
+    const transport = createTransport();
+    const received: unknown[] = [];
+    transport.onMessage((data) => received.push(String(data)));
+    await waitForConnection(transport);
+
+    const pongPromise = nextPong(transport);
+    transport.send('hello');
+    transport.sendPing({ t0: Date.now(), id: 'ping-1' });
+    await pongPromise;
+    await vi.waitFor(() => expect(received).toEqual(['echo:hello']));
+
+    expect(appMessages).toEqual(['hello']);
+    transport.close();
+  });
+
+  it('stamps t3 with the injected time source', async () => {
+    const time = new ManualTimeSource({ wallTime: 1_700_000_000_000 });
+    const transport = createTransport({ timeSource: time });
+    await waitForConnection(transport);
+
+    const pongPromise = nextPong(transport);
+    transport.sendPing({ t0: time.wallNow(), id: 'ping-1' });
+    expect((await pongPromise).t3).toBe(1_700_000_000_000);
+    transport.close();
+  });
+
+  it('schedules reconnection on the injected time source', () => {
+    const time = new ManualTimeSource();
+    const sockets: WebSocketLike[] = [];
+    const transport = new WebSocketTransport({
+      url: 'ws://time.example',
+      createSocket: (): WebSocketLike => {
+        const socket: WebSocketLike = {
+          readyState: 0,
+          send: vi.fn(),
+          close: vi.fn(),
+          onopen: null,
+          onclose: null,
+          onerror: null,
+          onmessage: null,
+        };
+        sockets.push(socket);
+        return socket;
+      },
+      reconnect: { initialDelayMs: 100 },
+      timeSource: time,
+    });
+    sockets[0].onclose?.({});
+    time.advance(99);
+    expect(sockets).toHaveLength(1);
+    time.advance(1);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].onclose?.({});
+    transport.close();
+    expect(time.pendingTimers).toBe(0);
+  });
+
+  it('drops and reports pings sent while disconnected', async () => {
+    const transport = createTransport();
+    const onPong = vi.fn();
+    const onError = vi.fn();
+    transport.onPong(onPong);
+    transport.onError(onError);
+    transport.sendPing({ t0: Date.now(), id: 'dropped' });
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ id: 'dropped' }),
+    );
+    await waitForConnection(transport);
+
+    const pongPromise = nextPong(transport);
+    transport.sendPing({ t0: Date.now(), id: 'sent' });
+    await pongPromise;
+    expect(onPong.mock.calls.map(([pong]) => pong.id)).toEqual(['sent']);
+    transport.close();
+  });
+
+  it('reconnects after the server drops the connection', async () => {
+    const transport = createTransport();
+    const changes: boolean[] = [];
+    transport.onConnectionChange((connected) => changes.push(connected));
+    await waitForConnection(transport);
+
+    for (const client of server.clients) client.terminate();
+    await waitForConnection(transport, false);
+    await waitForConnection(transport, true);
+
+    // The first entry is the immediate replay of the initial (closed) state.
+    expect(changes).toEqual([false, true, false, true]);
+    transport.close();
+  });
+
+  it('does not reconnect after close()', async () => {
+    const factory = vi.fn((target: string) => new WebSocket(target) as unknown as WebSocketLike);
+    const transport = createTransport({ createSocket: factory });
+    await waitForConnection(transport);
+    transport.close();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(factory).toHaveBeenCalledOnce();
+    expect(transport.connected).toBe(false);
+  });
+});
+
+// ── SyncedClock integration ───────────────────────────────────────────────────
+
+describe('SyncedClock with WebSocketTransport', () => {
+  beforeEach(startServer);
+  afterEach(stopServer);
+
+  it('syncs against a local ws server', async () => {
+    const transport = createTransport();
+    const clock = new SyncedClock({
+      syncIntervalMs: 60_000,
+      historySize: 8,
+      outlierThreshold: 2,
+      timeSlewRate: Infinity,
+      transportAdapter: transport,
+    });
+    clock.start();
+    await clock.waitForInitialSync();
+
+    expect(Math.abs(clock.now() - (Date.now() + SERVER_AHEAD_MS))).toBeLessThan(1000);
+    clock.destroy();
+    transport.close();
+  });
+
+  it('surfaces disconnects through "connection_change" and re-syncs on reconnect', async () => {
+    const transport = createTransport();
+    const clock = new SyncedClock({
+      syncIntervalMs: 60_000,
+      historySize: 8,
+      outlierThreshold: 2,
+      timeSlewRate: 10,
+      transportAdapter: transport,
+    });
+    const changes: boolean[] = [];
+    clock.events.on('connection_change', ({ connected }) => changes.push(connected));
+    clock.start();
+    await clock.waitForInitialSync();
+
+    for (const client of server.clients) client.terminate();
+    await waitForConnection(transport, false);
+    expect(clock.connected).toBe(false);
+
+    const resynced = new Promise<void>((resolve) => {
+      clock.events.on('sync_success', () => resolve());
+    });
+    await resynced;
+    expect(clock.connected).toBe(true);
+    expect(changes).toEqual([true, false, true]);
+    clock.destroy();
+    transport.close();
+  });
+});
@@ -0,0 +1,577 @@
+import type { ScheduleInfo, ScheduledTask, SyncEventMap } from './types.js';
+
+/** Default {@link CronJobOptions.catchUp}. */
+const DEFAULT_CATCH_UP: CronCatchUpPolicy = 'latest';
+
+/** Default {@link CronJobOptions.lateToleranceMs}. */
+const DEFAULT_LATE_TOLERANCE_MS = 1000;
+
+/** Most occurrences run at once by the `"all"` policy, so a long sleep stays cheap. */
+const MAX_CATCH_UP_RUNS = 1000;
+
+const SECONDS_PER_DAY = 86_400;
+
+/** Bound on the search for the next occurrence; never reached by a valid expression. */
+const MAX_SEARCH_STEPS = 100_000;
+
+/** Days in each month, counting February as 29 so leap days are reachable. */
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/** Shorthand expressions and their five-field equivalents. */
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/**
+ * What a job does about occurrences it missed — because the host slept, or
+ * the event loop was blocked for longer than
+ * {@link CronJobOptions.lateToleranceMs}.
+ *
+ * - `"skip"` — run none of them; wait for the next occurrence.
+ * - `"latest"` — run once, for the most recent missed occurrence.
+ * - `"all"` — run every missed occurrence, oldest first.  At most 1000 run
+ *   at once; the rest are reported as missed by the next run.
+ */
+export type CronCatchUpPolicy = 'skip' | 'latest' | 'all';
+
+/** Per-job settings; the defaults can be set for a whole {@link CronScheduler}. */
+export interface CronJobOptions {
+  /**
+   * Catch-up policy for missed occurrences.
+   * @defaultValue `"latest"`
+   */
+  catchUp?: CronCatchUpPolicy;
+  /**
+   * How late (in ms) an occurrence may run before it counts as missed.
+   * @defaultValue `1000`
+   */
+  lateToleranceMs?: number;
+}
+
+/** Passed to the callback of a {@link CronJob} on every run. */
+export interface CronRun {
+  /** Synced time of the occurrence being run, in ms since the Unix epoch. */
+  scheduledTime: number;
+  /** Synced time at which the callback ran. */
+  firedAt: number;
+  /** `firedAt − scheduledTime`. */
+  latenessMs: number;
+  /** Occurrences the catch-up policy skipped since the previous run. */
+  missedRuns: number;
+}
+
+/**
+ * Minimal structural view of the clock a {@link CronScheduler} runs on.
+ * `SyncedClock` satisfies it.
+ */
+export interface CronClockLike {
+  now(): number;
+  scheduleAt(ts: number, callback: (info: ScheduleInfo) => void): ScheduledTask;
+  events: {
+    on(
+      event: 'sleep_detected',
+      listener: (data: SyncEventMap['sleep_detected']) => void,
+    ): () => void;
+  };
+}
+
+/** The allowed values of each field of a parsed expression. */
+interface CronFields {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /**
+   * Whether both day fields are restricted, in which case a day matches when
+   * either does — the classic cron rule.
+   */
+  eitherDay: boolean;
+}
+
+/** Bounds and names of one field of an expression. */
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 };
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY: FieldSpec = { name: 'day of month', min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: 'month',
+  min: 1,
+  max: 12,
+  names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+};
+// 7 is accepted as a second name for Sunday.
+const WEEKDAY: FieldSpec = {
+  name: 'day of week',
+  min: 0,
+  max: 7,
+  names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+};
+
+/**
+ * The first time strictly after `after` matched by a cron expression,
+ * evaluated in UTC.
+ *
+ * Expressions have five fields — minute, hour, day of month, month and day
+ * of week — or six with a leading seconds field.  Each field accepts `*`,
+ * numbers, ranges (`1-5`), lists (`1,15`) and steps (`*\/15`, `10-50/20`);
+ * months and weekdays also accept three-letter names.  When both day fields
+ * are restricted a day matches if either does.  The macros `@yearly`,
+ * `@annually`, `@monthly`, `@weekly`, `@daily`, `@midnight` and `@hourly`
+ * are recognised.
+ *
+ * @param expression - Cron expression, in UTC.
+ * @param after - Time in ms since the Unix epoch.
+ * @returns The next occurrence, in ms since the Unix epoch (whole seconds).
+ * @throws {TypeError} When the expression is malformed.
+ * @throws {RangeError} When a value lies outside its field's range, a step
+ *   is not positive, or the expression can never match.
+ *
+ * @example
+ * ```ts
+ * nextCronTime('*\/15 * * * *', Date.UTC(2024, 0, 1, 10, 7)); // 10:15:00 UTC
+ * ```
+ */
+export function nextCronTime(expression: string, after: number): number {
+  return nextOccurrence(parseCron(expression), after);
+}
+
+/**
+ * A recurring job created by {@link CronScheduler.schedule}.  It runs its
+ * callback at each occurrence of its expression in synced time.
+ */
+export class CronJob {
+  /** The expression the job was scheduled with. */
+  readonly expression: string;
+
+  private readonly _clock: CronClockLike;
+  private readonly _fields: CronFields;
+  private readonly _callback: (run: CronRun) => void;
+  private readonly _catchUp: CronCatchUpPolicy;
+  private readonly _lateToleranceMs: number;
+  private readonly _onStop: (job: CronJob) => void;
+  private readonly _unsubscribe: () => void;
+  /** Occurrences up to this time have been run or skipped. */
+  private _handledUntil: number;
+  private _missedRuns: number = 0;
+  private _next: number | null = null;
+  private _task: ScheduledTask | null = null;
+
+  /**
+   * Created by {@link CronScheduler.schedule}.
+   *
+   * @param clock - Clock to run on.
+   * @param expression - Cron expression; see {@link nextCronTime}.
+   * @param callback - Invoked at each run.
+   * @param options - Resolved job settings.
+   * @param onStop - Invoked once when the job is stopped.
+   */
+  constructor(
+    clock: CronClockLike,
+    expression: string,
+    callback: (run: CronRun) => void,
+    options: Required<CronJobOptions>,
+    onStop: (job: CronJob) => void,
+  ) {
+    this.expression = expression;
+    this._clock = clock;
+    this._fields = parseCron(expression);
+    this._callback = callback;
+    this._catchUp = options.catchUp;
+    this._lateToleranceMs = options.lateToleranceMs;
+    this._onStop = onStop;
+    this._handledUntil = clock.now();
+    this._arm();
+    // Host timers may have been suspended through a sleep, so re-evaluate
+    // at once rather than wait for the job's own timer.
+    this._unsubscribe = clock.events.on('sleep_detected', () => this._runDue());
+  }
+
+  /** Synced time of the next occurrence, or `null` once the job is stopped. */
+  get nextRun(): number | null {
+    return this._next;
+  }
+
+  /** Whether the job is still scheduled. */
+  get active(): boolean {
+    return this._task !== null;
+  }
+
+  /** Cancels the job; it never runs again. */
+  stop(): void {
+    if (this._task === null) return;
+    this._task.cancel();
+    this._task = null;
+    this._next = null;
+    this._unsubscribe();
+    this._onStop(this);
+  }
+
+  /**
+   * Runs whatever is due, as selected by the catch-up policy, and re-arms
+   * for the next occurrence.
+   */
+  private _runDue(): void {
+    if (this._task === null || this._next === null) return;
+    const now = this._clock.now();
+    const first = this._next;
+    if (first > now) return;
+    this._handledUntil = now;
+    this._task.cancel();
+    this._arm();
+
+    // Only the occurrences within the tolerance are enumerated; the missed
+    // ones are counted, so that a long sleep costs no more than a short one.
+    const due = countOccurrences(this._fields, first - 1, now);
+    const onTime = occurrencesBetween(
+      this._fields,
+      Math.max(first - 1, now - this._lateToleranceMs - 1),
+      now,
+      Infinity,
+    );
+    let runs: number[];
+    if (onTime.length === due) {
+      runs = onTime;
+    } else if (this._catchUp === 'all') {
+      runs = occurrencesBetween(this._fields, first - 1, now, MAX_CATCH_UP_RUNS);
+    } else if (this._catchUp === 'latest') {
+      runs = [previousOccurrence(this._fields, now)];
+    } else {
+      runs = onTime;
+    }
+    // Beyond the `"all"` cap the newest occurrences are dropped; they are
+    // reported by the next run.  Otherwise the skipped ones precede the runs.
+    const skipped = due - runs.length;
+    const dropped = this._catchUp === 'all' ? skipped : 0;
+    this._missedRuns += skipped - dropped;
+    for (const scheduledTime of runs) {
+      if (this._task === null) return;
+      const missedRuns = this._missedRuns;
+      this._missedRuns = 0;
+      this._callback({ scheduledTime, firedAt: now, latenessMs: now - scheduledTime, missedRuns });
+    }
+    this._missedRuns += dropped;
+  }
+
+  private _arm(): void {
+    const next = nextOccurrence(this._fields, this._handledUntil);
+    this._next = next;
+    this._task = this._clock.scheduleAt(next, () => this._runDue());
+  }
+}
+
+/**
+ * Runs cron jobs against synced time, so that a fleet whose local clocks
+ * disagree still fires "at 00:00:00 UTC" together.
+ *
+ * Each job waits for its next occurrence with `scheduleAt`, so it follows
+ * offset corrections.  On `"sleep_detected"` every job is re-evaluated at
+ * once, and the occurrences missed meanwhile are handled by its
+ * {@link CronCatchUpPolicy}.
+ *
+ * @example
+ * ```ts
+ * const cron = clock.createCronScheduler();
+ * cron.schedule('0 0 0 * * *', () => rotateKeys()); // 00:00:00 UTC daily
+ * const job = cron.schedule('*\/15 * * * *', publishLeaderboard, { catchUp: 'skip' });
+ * console.log(new Date(job.nextRun!).toISOString());
+ * ```
+ */
+export class CronScheduler {
+  private readonly _clock: CronClockLike;
+  private readonly _defaults: Required<CronJobOptions>;
+  private readonly _jobs: Set<CronJob> = new Set();
+
+  /**
+   * @param clock - Clock to run on, typically a `SyncedClock`.
+   * @param defaults - Settings for jobs that do not override them.
+   * @throws {RangeError} When `lateToleranceMs` is negative.
+   */
+  constructor(clock: CronClockLike, defaults: CronJobOptions = {}) {
+    this._clock = clock;
+    this._defaults = resolveJobOptions(defaults, {
+      catchUp: DEFAULT_CATCH_UP,
+      lateToleranceMs: DEFAULT_LATE_TOLERANCE_MS,
+    });
+  }
+
+  /** The jobs still scheduled. */
+  get jobs(): CronJob[] {
+    return [...this._jobs];
+  }
+
+  /**
+   * Schedules `callback` at every occurrence of `expression`, evaluated in
+   * UTC against synced time; see {@link nextCronTime} for the syntax.
+   *
+   * @param expression - Cron expression with five or six fields, or a macro.
+   * @param callback - Invoked at each run.
+   * @param options - Overrides of the scheduler's defaults.
+   * @returns The job, for reading its next run or stopping it.
+   * @throws {TypeError} When the expression is malformed.
+   * @throws {RangeError} When the expression is out of range or can never
+   *   match, or `lateToleranceMs` is negative.
+   */
+  schedule(
+    expression: string,
+    callback: (run: CronRun) => void,
+    options: CronJobOptions = {},
+  ): CronJob {
+    const job = new CronJob(
+      this._clock,
+      expression,
+      callback,
+      resolveJobOptions(options, this._defaults),
+      (stopped) => this._jobs.delete(stopped),
+    );
+    this._jobs.add(job);
+    return job;
+  }
+
+  /** Stops every job. */
+  destroy(): void {
+    for (const job of [...this._jobs]) {
+      job.stop();
+    }
+  }
+}
+
+/** Fills in `options` from `defaults`, validating the result. */
+function resolveJobOptions(
+  options: CronJobOptions,
+  defaults: Required<CronJobOptions>,
+): Required<CronJobOptions> {
+  const resolved = {
+    catchUp: options.catchUp ?? defaults.catchUp,
+    lateToleranceMs: options.lateToleranceMs ?? defaults.lateToleranceMs,
+  };
+  if (!(resolved.lateToleranceMs >= 0)) {
+    throw new RangeError('lateToleranceMs must be non-negative');
+  }
+  return resolved;
+}
+
+/** Parses a cron expression; see {@link nextCronTime} for the syntax. */
+function parseCron(expression: string): CronFields {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length === 5) fields.unshift('0');
+  if (fields.length !== 6) {
+    throw new TypeError(`Cron expression "${expression}" must have five or six fields`);
+  }
+  const [second, minute, hour, day, month, weekday] = fields;
+  const weekdays = parseField(weekday, WEEKDAY);
+  if (weekdays.delete(7)) weekdays.add(0);
+  const parsed: CronFields = {
+    seconds: parseField(second, SECOND),
+    minutes: parseField(minute, MINUTE),
+    hours: parseField(hour, HOUR),
+    days: parseField(day, DAY),
+    months: parseField(month, MONTH),
+    weekdays,
+    eitherDay: !day.startsWith('*') && !weekday.startsWith('*'),
+  };
+  // With the weekday unrestricted, the day of month alone decides.
+  const reachable = [...parsed.months].some((m) =>
+    [...parsed.days].some((d) => d <= MAX_DAYS_IN_MONTH[m - 1]),
+  );
+  if (weekday.startsWith('*') && !reachable) {
+    throw new RangeError(`Cron expression "${expression}" can never match`);
+  }
+  return parsed;
+}
+
+/** Expands one field into the set of values it allows. */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (rest.length > 0) {
+      throw new TypeError(`Malformed ${spec.name} field "${field}"`);
+    }
+    const step = stepText === undefined ? 1 : parseNumber(stepText, spec, field);
+    if (step < 1) {
+      throw new RangeError(`Step of the ${spec.name} field "${field}" must be positive`);
+    }
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = spec.min;
+      high = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      low = parseValue(from, spec, field);
+      high = parseValue(to, spec, field);
+      if (low > high) {
+        throw new RangeError(`Range of the ${spec.name} field "${field}" is reversed`);
+      }
+    } else {
+      low = parseValue(range, spec, field);
+      high = stepText === undefined ? low : spec.max;
+    }
+    for (let value = low; value <= high; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(token: string, spec: FieldSpec, field: string): number {
+  const named = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+  const value = named >= 0 ? named + (spec.min === 1 ? 1 : 0) : parseNumber(token, spec, field);
+  if (value < spec.min || value > spec.max) {
+    throw new RangeError(
+      `Value ${token} of the ${spec.name} field "${field}" is outside ${spec.min}-${spec.max}`,
+    );
+  }
+  return value;
+}
+
+function parseNumber(token: string, spec: FieldSpec, field: string): number {
+  if (!/^\d+$/.test(token)) {
+    throw new TypeError(`Malformed ${spec.name} field "${field}"`);
+  }
+  return Number(token);
+}
+
+/**
+ * The first whole second strictly after `after` matched by `fields`, found
+ * by skipping whole months, days, hours and minutes that cannot match.
+ */
+function nextOccurrence(fields: CronFields, after: number): number {
+  let t = Math.floor(after / 1000) * 1000 + 1000;
+  for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+    const date = new Date(t);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+    if (!fields.months.has(month + 1)) {
+      t = Date.UTC(year, month + 1, 1);
+    } else if (!dayMatches(fields, day, date.getUTCDay())) {
+      t = Date.UTC(year, month, day + 1);
+    } else if (!fields.hours.has(hour)) {
+      t = Date.UTC(year, month, day, hour + 1);
+    } else if (!fields.minutes.has(minute)) {
+      t = Date.UTC(year, month, day, hour, minute + 1);
+    } else if (!fields.seconds.has(date.getUTCSeconds())) {
+      t += 1000;
+    } else {
+      return t;
+    }
+  }
+  throw new RangeError('Cron expression has no occurrence in the foreseeable future');
+}
+
+/**
+ * The last whole second at or before `atOrBefore` matched by `fields`, found
+ * like {@link nextOccurrence} but walking backwards.
+ */
+function previousOccurrence(fields: CronFields, atOrBefore: number): number {
+  let t = Math.floor(atOrBefore / 1000) * 1000;
+  for (let i = 0; i < MAX_SEARCH_STEPS; i++) {
+    const date = new Date(t);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+    if (!fields.months.has(month + 1)) {
+      t = Date.UTC(year, month, 1) - 1000;
+    } else if (!dayMatches(fields, day, date.getUTCDay())) {
+      t = Date.UTC(year, month, day) - 1000;
+    } else if (!fields.hours.has(hour)) {
+      t = Date.UTC(year, month, day, hour) - 1000;
+    } else if (!fields.minutes.has(minute)) {
+      t = Date.UTC(year, month, day, hour, minute) - 1000;
+    } else if (!fields.seconds.has(date.getUTCSeconds())) {
+      t -= 1000;
+    } else {
+      return t;
+    }
+  }
+  throw new RangeError('Cron expression has no occurrence in the foreseeable past');
+}
+
+/** Up to `limit` occurrences in `(after, atOrBefore]`, oldest first. */
+function occurrencesBetween(
+  fields: CronFields,
+  after: number,
+  atOrBefore: number,
+  limit: number,
+): number[] {
+  const occurrences: number[] = [];
+  for (let t = nextOccurrence(fields, after); t <= atOrBefore && occurrences.length < limit; ) {
+    occurrences.push(t);
+    t = nextOccurrence(fields, t);
+  }
+  return occurrences;
+}
+
+/**
+ * The number of occurrences in `(after, atOrBefore]`, counted day by day
+ * rather than enumerated.
+ */
+function countOccurrences(fields: CronFields, after: number, atOrBefore: number): number {
+  const from = Math.floor(after / 1000) + 1;
+  const to = Math.floor(atOrBefore / 1000);
+  let count = 0;
+  for (
+    let dayStart = from - (from % SECONDS_PER_DAY);
+    dayStart <= to;
+    dayStart += SECONDS_PER_DAY
+  ) {
+    const date = new Date(dayStart * 1000);
+    if (!fields.months.has(date.getUTCMonth() + 1)) continue;
+    if (!dayMatches(fields, date.getUTCDate(), date.getUTCDay())) continue;
+    const low = Math.max(from, dayStart) - dayStart;
+    const high = Math.min(to, dayStart + SECONDS_PER_DAY - 1) - dayStart;
+    count += countTimesOfDay(fields, high) - countTimesOfDay(fields, low - 1);
+  }
+  return count;
+}
+
+/** The number of matching times of day at or before `secondOfDay`. */
+function countTimesOfDay(fields: CronFields, secondOfDay: number): number {
+  if (secondOfDay < 0) return 0;
+  const hour = Math.floor(secondOfDay / 3600);
+  const minute = Math.floor(secondOfDay / 60) % 60;
+  const second = secondOfDay % 60;
+  const perHour = fields.minutes.size * fields.seconds.size;
+  let count = countBelow(fields.hours, hour) * perHour;
+  if (fields.hours.has(hour)) {
+    count += countBelow(fields.minutes, minute) * fields.seconds.size;
+    if (fields.minutes.has(minute)) count += countBelow(fields.seconds, second + 1);
+  }
+  return count;
+}
+
+/** The number of values in `set` below `limit`. */
+function countBelow(set: Set<number>, limit: number): number {
+  let count = 0;
+  for (const value of set) {
+    if (value < limit) count++;
+  }
+  return count;
+}
+
+function dayMatches(fields: CronFields, day: number, weekday: number): boolean {
+  const dayOk = fields.days.has(day);
+  const weekdayOk = fields.weekdays.has(weekday);
+  return fields.eitherDay ? dayOk || weekdayOk : dayOk && weekdayOk;
+}
@@ -0,0 +1,315 @@
+import type { OffsetEstimator, SyncSample } from './types.js';
+import {
+  calculateMean,
+  calculateMedian,
+  calculateStdDev,
+  calculateWeightedMean,
+} from './timeMath.js';
+
+/** Scale factor that makes the MAD a consistent estimator of σ for normal data. */
+const MAD_TO_STDDEV = 1.4826;
+
+/**
+ * The classic strategy: discards samples whose RTT lies more than
+ * `outlierThreshold × σ` from the mean RTT and averages the offsets of the
+ * rest, weighted by {@link SyncSample.weight}.  This is what
+ * {@link FilterEngine} uses unless told otherwise.
+ */
+export class MeanEstimator implements OffsetEstimator {
+  private readonly _outlierThreshold: number;
+
+  /**
+   * @param outlierThreshold - Standard-deviation multiplier beyond which a
+   *   sample's RTT marks it as an outlier.
+   * @throws {RangeError} When `outlierThreshold` is not a positive number.
+   */
+  constructor(outlierThreshold: number) {
+    if (typeof outlierThreshold !== 'number' || outlierThreshold <= 0) {
+      throw new RangeError('outlierThreshold must be a positive number');
+    }
+    this._outlierThreshold = outlierThreshold;
+  }
+
+  estimate(samples: ReadonlyArray<SyncSample>): number {
+    const rtts = samples.map((s) => s.rtt);
+    const meanRtt = calculateMean(rtts);
+    const stddevRtt = calculateStdDev(rtts);
+    const inliers = samples.filter(
+      (s) => stddevRtt === 0 || Math.abs(s.rtt - meanRtt) <= this._outlierThreshold * stddevRtt,
+    );
+    return weightedMeanOffset(inliers.length > 0 ? inliers : samples);
+  }
+}
+
+/**
+ * The NTP clock filter: trusts the sample with the smallest RTT among the
+ * most recent `windowSize`.  The shortest round trip leaves the least room for
+ * asymmetric queueing delay, so on jittery links its offset is usually the
+ * most accurate.
+ */
+export class MinDelayEstimator implements OffsetEstimator {
+  private readonly _windowSize: number;
+
+  /**
+   * @param windowSize - Number of most recent samples to choose from.
+   *   Defaults to `8`, as in NTP.
+   * @throws {RangeError} When `windowSize` is not a positive integer.
+   */
+  constructor(windowSize: number = 8) {
+    if (!Number.isInteger(windowSize) || windowSize < 1) {
+      throw new RangeError('windowSize must be a positive integer');
+    }
+    this._windowSize = windowSize;
+  }
+
+  estimate(samples: ReadonlyArray<SyncSample>): number {
+    let best = samples[samples.length - 1];
+    for (const sample of samples.slice(-this._windowSize)) {
+      if (sample.rtt < best.rtt) best = sample;
+    }
+    return best.offset;
+  }
+}
+
+/** Options for {@link MedianMadEstimator}. */
+export interface MedianMadEstimatorOptions {
+  /**
+   * Only the `bestN` samples with the lowest RTT are considered.
+   * @defaultValue every sample
+   */
+  bestN?: number;
+  /**
+   * Offsets further than this many (σ-scaled) median absolute deviations from
+   * the median are discarded.
+   * @defaultValue `3`
+   */
+  madThreshold?: number;
+}
+
+/**
+ * A robust strategy: takes the offsets of the `bestN` lowest-RTT samples,
+ * discards those beyond `madThreshold` median absolute deviations from their
+ * median, and averages the rest by {@link SyncSample.weight}.  Unlike a
+ * σ-based filter, a few wild samples cannot drag the rejection bounds
+ * towards themselves.
+ */
+export class MedianMadEstimator implements OffsetEstimator {
+  private readonly _bestN: number;
+  private readonly _madThreshold: number;
+
+  /**
+   * @param options - Estimator settings.
+   * @throws {RangeError} When `bestN` is not a positive integer or
+   *   `madThreshold` is not a positive number.
+   */
+  constructor(options: MedianMadEstimatorOptions = {}) {
+    const { bestN = Infinity, madThreshold = 3 } = options;
+    if (bestN !== Infinity && (!Number.isInteger(bestN) || bestN < 1)) {
+      throw new RangeError('bestN must be a positive integer');
+    }
+    if (typeof madThreshold !== 'number' || madThreshold <= 0) {
+      throw new RangeError('madThreshold must be a positive number');
+    }
+    this._bestN = bestN;
+    this._madThreshold = madThreshold;
+  }
+
+  estimate(samples: ReadonlyArray<SyncSample>): number {
+    const best = [...samples].sort((a, b) => a.rtt - b.rtt).slice(0, this._bestN);
+    const offsets = best.map((s) => s.offset);
+    const median = calculateMedian(offsets);
+    const mad = calculateMedian(offsets.map((o) => Math.abs(o - median))) * MAD_TO_STDDEV;
+    const inliers = best.filter((s) => Math.abs(s.offset - median) <= this._madThreshold * mad);
+    return inliers.length > 0 ? weightedMeanOffset(inliers) : median;
+  }
+}
+
+/**
+ * An exponentially weighted moving average of the offsets, oldest first, so
+ * that recent samples dominate while older ones still damp the noise.  Tracks
+ * a drifting clock more closely than a flat mean.
+ */
+export class EwmaEstimator implements OffsetEstimator {
+  private readonly _alpha: number;
+
+  /**
+   * @param alpha - Weight of each new sample, in `(0, 1]`.  Defaults to
+   *   `0.25`; `1` simply returns the latest offset.
+   * @throws {RangeError} When `alpha` is outside `(0, 1]`.
+   */
+  constructor(alpha: number = 0.25) {
+    if (typeof alpha !== 'number' || !(alpha > 0 && alpha <= 1)) {
+      throw new RangeError('alpha must be in the range (0, 1]');
+    }
+    this._alpha = alpha;
+  }
+
+  estimate(samples: ReadonlyArray<SyncSample>): number {
+    let average = samples[0].offset;
+    for (let i = 1; i < samples.length; i++) {
+      average += this._alpha * (samples[i].offset - average);
+    }
+    return average;
+  }
+}
+
+/** Prior standard deviation (ppm) of the drift before any measurement. */
+const KALMAN_INITIAL_DRIFT_STDDEV_PPM = 500;
+
+/** Tuning parameters for {@link KalmanEstimator}. */
+export interface KalmanEstimatorOptions {
+  /**
+   * Variance (ms²) the offset gains per second through random-walk phase
+   * noise, independent of drift.
+   * @defaultValue `0.001`
+   */
+  processNoiseOffset?: number;
+  /**
+   * Variance (ppm²) the drift gains per second as the oscillator's frequency
+   * wanders, e.g. with temperature.
+   * @defaultValue `0.0001`
+   */
+  processNoiseDrift?: number;
+  /**
+   * Baseline measurement variance (ms²) of every sample, e.g. from timestamp
+   * quantization.  Each sample adds `(rtt / 2)²` on top of it.
+   * @defaultValue `0.25`
+   */
+  measurementNoise?: number;
+}
+
+/**
+ * A two-state Kalman filter tracking the clock offset (ms) and the local
+ * clock's frequency error (ppm).  Unlike the window-based strategies it
+ * remembers every sample it has seen, discounting old ones only as fast as
+ * the process noise dictates, and weights each sample by its RTT: a sample's
+ * offset can be wrong by up to half its round trip, so its measurement
+ * variance is `measurementNoise + (rtt / 2)²`.
+ *
+ * The filter is stateful: each call folds in only the samples it has not seen
+ * yet, so an instance must not be shared between engines.  {@link covariance}
+ * reports how confident the current estimate is.
+ *
+ * @example
+ * ```ts
+ * const kalman = new KalmanEstimator({ processNoiseDrift: 0.01 });
+ * const clock = new SyncedClock({ ...config, offsetEstimator: kalman });
+ * const [[offsetVariance]] = kalman.covariance;
+ * ```
+ */
+export class KalmanEstimator implements OffsetEstimator {
+  private readonly _processNoiseOffset: number;
+  private readonly _processNoiseDrift: number;
+  private readonly _measurementNoise: number;
+  private _offset: number = 0;
+  private _driftPpm: number = 0;
+  /** Covariance entries: offset variance, offset/drift covariance, drift variance. */
+  private _p00: number = 0;
+  private _p01: number = 0;
+  private _p11: number = 0;
+  private _lastSample: SyncSample | null = null;
+
+  /**
+   * @param options - Noise parameters.
+   * @throws {RangeError} When a noise parameter is negative.
+   */
+  constructor(options: KalmanEstimatorOptions = {}) {
+    const {
+      processNoiseOffset = 0.001,
+      processNoiseDrift = 0.0001,
+      measurementNoise = 0.25,
+    } = options;
+    for (const [name, value] of Object.entries({
+      processNoiseOffset,
+      processNoiseDrift,
+      measurementNoise,
+    })) {
+      if (typeof value !== 'number' || !(value >= 0)) {
+        throw new RangeError(`${name} must be a non-negative number`);
+      }
+    }
+    this._processNoiseOffset = processNoiseOffset;
+    this._processNoiseDrift = processNoiseDrift;
+    this._measurementNoise = measurementNoise;
+  }
+
+  /**
+   * The state covariance `[[σ²(offset), cov], [cov, σ²(drift)]]`, in ms²,
+   * ms·ppm and ppm².  All zero before the first sample.
+   */
+  get covariance(): [[number, number], [number, number]] {
+    return [
+      [this._p00, this._p01],
+      [this._p01, this._p11],
+    ];
+  }
+
+  estimate(samples: ReadonlyArray<SyncSample>): number {
+    this._catchUp(samples);
+    return this._offset;
+  }
+
+  estimateDriftPpm(samples: ReadonlyArray<SyncSample>): number {
+    this._catchUp(samples);
+    return this._driftPpm;
+  }
+
+  reset(): void {
+    this._offset = this._driftPpm = 0;
+    this._p00 = this._p01 = this._p11 = 0;
+    this._lastSample = null;
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  /** Folds in the samples that follow the last one already processed. */
+  private _catchUp(samples: ReadonlyArray<SyncSample>): void {
+    // When the last processed sample has been evicted, everything retained
+    // is newer than it.
+    const start = this._lastSample === null ? 0 : samples.lastIndexOf(this._lastSample) + 1;
+    for (let i = start; i < samples.length; i++) {
+      this._update(samples[i]);
+    }
+  }
+
+  private _update(sample: SyncSample): void {
+    const r = this._measurementNoise + (sample.rtt / 2) ** 2;
+    const previous = this._lastSample;
+    this._lastSample = sample;
+
+    if (previous === null) {
+      this._offset = sample.offset;
+      this._driftPpm = 0;
+      this._p00 = r;
+      this._p01 = 0;
+      this._p11 = KALMAN_INITIAL_DRIFT_STDDEV_PPM ** 2;
+      return;
+    }
+
+    // Predict: a positive drift (fast local clock) shrinks the offset.
+    const dt = Math.max(0, sample.timestamp - previous.timestamp);
+    const a = -dt * 1e-6;
+    this._offset += a * this._driftPpm;
+    this._p00 += 2 * a * this._p01 + a * a * this._p11 + (this._processNoiseOffset * dt) / 1000;
+    this._p01 += a * this._p11;
+    this._p11 += (this._processNoiseDrift * dt) / 1000;
+
+    // Update with the measured offset.
+    const innovation = sample.offset - this._offset;
+    const s = this._p00 + r;
+    const k0 = this._p00 / s;
+    const k1 = this._p01 / s;
+    this._offset += k0 * innovation;
+    this._driftPpm += k1 * innovation;
+    this._p11 -= k1 * this._p01;
+    this._p01 *= 1 - k0;
+    this._p00 *= 1 - k0;
+  }
+}
+
+function weightedMeanOffset(samples: ReadonlyArray<SyncSample>): number {
+  return calculateWeightedMean(
+    samples.map((s) => s.offset),
+    samples.map((s) => s.weight ?? 1),
+  );
+}
@@ -0,0 +1,161 @@
+import type { PingPayload, PongPayload, TimeSource, TransportAdapter } from './types.js';
+import { isServerPongPayload } from './protocol.js';
+import { SystemTimeSource } from './timeSource.js';
+
+/** Resolution (in ms) of the HTTP `Date` header, which carries whole seconds only. */
+const DATE_HEADER_RESOLUTION_MS = 1000;
+
+/** Configuration object passed to the {@link FetchTransport} constructor. */
+export interface FetchTransportOptions {
+  /** Endpoint that receives the `POST`ed {@link PingPayload}. */
+  url: string;
+  /**
+   * Per-request timeout after which the request is aborted.
+   * @defaultValue `5000`
+   */
+  timeoutMs?: number;
+  /** Extra request headers, e.g. for authentication. */
+  headers?: Record<string, string>;
+  /**
+   * `fetch` implementation to use.
+   * @defaultValue `globalThis.fetch`
+   */
+  fetch?: typeof fetch;
+  /**
+   * Wall clock that stamps `t3`.  Pass the `timeSource` of the
+   * `SyncedClock` using this transport, so that `t0` and `t3` are read from
+   * the same clock.
+   * @defaultValue a `SystemTimeSource`
+   */
+  timeSource?: TimeSource;
+}
+
+/**
+ * A {@link TransportAdapter} that performs one HTTP `POST` per ping, for
+ * environments that cannot hold a socket open.
+ *
+ * The endpoint is expected to answer with a JSON `ServerPongPayload` (see
+ * `createHttpHandler`).  When it does not — e.g. a plain web server or CDN —
+ * the transport falls back to the response's `Date` header and marks the
+ * pong with a one-second `resolution` so the offset math can compensate.
+ * Non-OK responses are failures, whatever their headers say.  Failures are
+ * reported through {@link FetchTransport.onError}, which `SyncedClock`
+ * subscribes to.
+ *
+ * @example
+ * ```ts
+ * const transport = new FetchTransport({ url: '/time', timeoutMs: 2000 });
+ * const clock = new SyncedClock({ ...config, transportAdapter: transport });
+ * ```
+ */
+export class FetchTransport implements TransportAdapter {
+  private readonly _url: string;
+  private readonly _timeoutMs: number;
+  private readonly _headers: Record<string, string>;
+  private readonly _fetch: typeof fetch;
+  private readonly _time: TimeSource;
+  private _pongCallbacks: Array<(payload: PongPayload) => void> = [];
+  private _errorCallbacks: Array<(error: unknown, ping: PingPayload) => void> = [];
+
+  /**
+   * @param options - Transport configuration.
+   * @throws {TypeError} When no `fetch` implementation is given and there is
+   *   no global `fetch`.
+   */
+  constructor(options: FetchTransportOptions) {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new TypeError('No global fetch available; pass a fetch implementation');
+    }
+    this._url = options.url;
+    this._timeoutMs = options.timeoutMs ?? 5000;
+    this._headers = options.headers ?? {};
+    this._fetch = fetchImpl;
+    this._time = options.timeSource ?? new SystemTimeSource();
+  }
+
+  /** `POST`s the ping; the pong is delivered asynchronously through {@link onPong}. */
+  sendPing(payload: PingPayload): void {
+    void this._request(payload);
+  }
+
+  /** Registers a callback invoked with every pong, already stamped with `t3`. */
+  onPong(callback: (payload: PongPayload) => void): void {
+    this._pongCallbacks.push(callback);
+  }
+
+  /**
+   * Registers a callback invoked when a request fails, times out, returns a
+   * non-OK status, or returns neither a pong nor a usable `Date` header.
+   *
+   * @param callback - Receives the failure and the ping that was lost.
+   */
+  onError(callback: (error: unknown, ping: PingPayload) => void): void {
+    this._errorCallbacks.push(callback);
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private async _request(ping: PingPayload): Promise<void> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this._timeoutMs);
+
+    let pong: PongPayload;
+    try {
+      const response = await this._fetch(this._url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this._headers },
+        body: JSON.stringify(ping),
+        cache: 'no-store',
+        signal: controller.signal,
+      });
+      // The response headers have arrived: this is the earliest point at which
+      // the server's reply is observable, so stamp t3 before reading the body.
+      const t3 = this._time.wallNow();
+      pong = await this._parseResponse(response, ping, t3);
+    } catch (error) {
+      for (const callback of this._errorCallbacks) callback(error, ping);
+      return;
+    } finally {
+      clearTimeout(timer);
+    }
+    for (const callback of this._pongCallbacks) callback(pong);
+  }
+
+  private async _parseResponse(
+    response: Response,
+    ping: PingPayload,
+    t3: number,
+  ): Promise<PongPayload> {
+    // An error page's Date header says nothing about whether the server
+    // handled the ping, so only successful responses are trusted.
+    if (!response.ok) {
+      throw new Error(`Request to ${this._url} failed with status ${response.status}`);
+    }
+    if (response.headers.get('Content-Type')?.includes('application/json')) {
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        body = undefined; // unparseable: fall back to the Date header below
+      }
+      if (isServerPongPayload(body) && body.id === ping.id) {
+        return { t0: body.t0, t1: body.t1, t2: body.t2, t3, id: body.id };
+      }
+    }
+
+    const date = response.headers.get('Date');
+    const serverTime = date === null ? NaN : Date.parse(date);
+    if (Number.isNaN(serverTime)) {
+      throw new Error(`Response from ${this._url} carried neither a pong nor a Date header`);
+    }
+    return {
+      t0: ping.t0,
+      t1: serverTime,
+      t2: serverTime,
+      t3,
+      id: ping.id,
+      resolution: DATE_HEADER_RESOLUTION_MS,
+    };
+  }
+}
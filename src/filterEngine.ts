@@ -1,13 +1,63 @@
-import type { SyncSample } from './types.js';
-import { calculateMean, calculateStdDev } from './timeMath.js';
+import type { OffsetEstimator, SyncSample } from './types.js';
+import {
+  calculateMean,
+  calculateStdDev,
+  calculateSlope,
+  calculateSlopeStdError,
+} from './timeMath.js';
+import { MeanEstimator } from './estimators.js';
+
+/**
+ * Largest frequency error (in ppm) a working crystal oscillator plausibly
+ * has; NTP uses the same bound.  Larger regression slopes are noise.
+ */
+const MAX_DRIFT_PPM = 500;
+
+/** Fewest accepted samples a drift regression is fitted to. */
+const MIN_DRIFT_SAMPLES = 3;
+
+/**
+ * Shortest span (in ms) of sample timestamps a drift regression is fitted
+ * over.  Offset noise of a few ms across a startup burst of a second or so
+ * would otherwise read as hundreds of ppm.
+ */
+const MIN_DRIFT_BASELINE_MS = 60_000;
+
+/** How many standard errors a regression slope must reach to count as drift. */
+const DRIFT_SIGNIFICANCE = 2;
+
+/** Optional settings for {@link FilterEngine}. */
+export interface FilterEngineOptions {
+  /**
+   * Strategy used by {@link FilterEngine.getOptimalOffset}.
+   * @defaultValue a {@link MeanEstimator} using the engine's `outlierThreshold`
+   */
+  estimator?: OffsetEstimator;
+  /**
+   * Samples older than this (in ms) relative to the newest one are evicted
+   * on every {@link FilterEngine.push}.
+   * @defaultValue `Infinity`
+   */
+  maxSampleAgeMs?: number;
+  /**
+   * Age (in ms) relative to the newest sample at which a sample's
+   * {@link SyncSample.weight} halves before it reaches the estimator.
+   * @defaultValue `Infinity` — no decay
+   */
+  halfLifeMs?: number;
+}
 
 /**
  * Maintains a rolling window of {@link SyncSample} objects and derives a
- * statistically robust clock-offset estimate by rejecting RTT outliers.
+ * statistically robust clock-offset estimate through a pluggable
+ * {@link OffsetEstimator}.
  */
 export class FilterEngine {
   private readonly _historySize: number;
   private readonly _outlierThreshold: number;
+  private readonly _estimator: OffsetEstimator;
+  private readonly _maxSampleAgeMs: number;
+  private readonly _halfLifeMs: number;
   private readonly _history: SyncSample[] = [];
 
   /**
@@ -16,23 +66,37 @@ export class FilterEngine {
    * @param outlierThreshold - Standard-deviation multiplier used to reject
    *   outliers (must be a positive number, e.g. `2` rejects samples whose RTT
    *   is more than 2σ from the mean).
+   * @param options - Optional settings, such as the offset estimator.
    * @throws {RangeError} When `historySize` is not a positive integer.
    * @throws {RangeError} When `outlierThreshold` is not a positive number.
+   * @throws {RangeError} When `maxSampleAgeMs` or `halfLifeMs` is not a
+   *   positive number.
    */
-  constructor(historySize: number, outlierThreshold: number) {
+  constructor(historySize: number, outlierThreshold: number, options: FilterEngineOptions = {}) {
     if (!Number.isInteger(historySize) || historySize < 1) {
       throw new RangeError('historySize must be a positive integer');
     }
     if (typeof outlierThreshold !== 'number' || outlierThreshold <= 0) {
       throw new RangeError('outlierThreshold must be a positive number');
     }
+    const { maxSampleAgeMs = Infinity, halfLifeMs = Infinity } = options;
+    if (typeof maxSampleAgeMs !== 'number' || !(maxSampleAgeMs > 0)) {
+      throw new RangeError('maxSampleAgeMs must be a positive number');
+    }
+    if (typeof halfLifeMs !== 'number' || !(halfLifeMs > 0)) {
+      throw new RangeError('halfLifeMs must be a positive number');
+    }
     this._historySize = historySize;
+    this._maxSampleAgeMs = maxSampleAgeMs;
+    this._halfLifeMs = halfLifeMs;
     this._outlierThreshold = outlierThreshold;
+    this._estimator = options.estimator ?? new MeanEstimator(outlierThreshold);
   }
 
   /**
    * Appends a new sample to the history, evicting the oldest entry when the
-   * buffer exceeds `historySize`.
+   * buffer exceeds `historySize`, and every entry more than `maxSampleAgeMs`
+   * older than the new one.
    *
    * @param sample - The sample to add.
    */
@@ -41,6 +105,10 @@ export class FilterEngine {
     if (this._history.length > this._historySize) {
       this._history.shift();
     }
+    const cutoff = sample.timestamp - this._maxSampleAgeMs;
+    while (this._history[0].timestamp < cutoff) {
+      this._history.shift();
+    }
   }
 
   /**
@@ -49,6 +117,7 @@ export class FilterEngine {
    */
   flush(): void {
     this._history.length = 0;
+    this._estimator.reset?.();
   }
 
   /**
@@ -61,30 +130,140 @@ export class FilterEngine {
   }
 
   /**
-   * Computes the optimal clock-offset estimate from the current history.
+   * Returns the samples that pass the RTT outlier check: those whose RTT lies
+   * within `outlierThreshold × σ` of the mean RTT.  When every RTT is
+   * identical all samples pass.
+   *
+   * @returns The surviving samples, in history order.
+   */
+  getAcceptedSamples(): SyncSample[] {
+    const rtts = this._history.map((s) => s.rtt);
+    const meanRtt = calculateMean(rtts);
+    const stddevRtt = calculateStdDev(rtts);
+
+    return this._history.filter(
+      (s) => stddevRtt === 0 || Math.abs(s.rtt - meanRtt) <= this._outlierThreshold * stddevRtt,
+    );
+  }
+
+  /**
+   * Estimates offset jitter as the root-mean-square of the differences
+   * between successive sample offsets, in the manner of NTP.  Unlike the
+   * standard deviation of the offsets, this is insensitive to a steady drift.
    *
-   * The algorithm:
-   * 1. Calculates the mean and standard deviation of all RTTs.
-   * 2. Discards samples whose RTT deviates more than
-   *    `outlierThreshold × σ` from the mean.
-   * 3. Returns the mean offset of the surviving samples.
+   * @returns The jitter in milliseconds, or `0` with fewer than two samples.
+   */
+  getJitter(): number {
+    if (this._history.length < 2) return 0;
+    let sumSquares = 0;
+    for (let i = 1; i < this._history.length; i++) {
+      sumSquares += (this._history[i].offset - this._history[i - 1].offset) ** 2;
+    }
+    return Math.sqrt(sumSquares / (this._history.length - 1));
+  }
+
+  /**
+   * Estimates the frequency error of the local clock by regressing the
+   * offsets of the samples that pass the RTT outlier check against their
+   * local `timestamp`s.  A local clock that runs fast falls steadily behind
+   * the server, so the offset shrinks and the result is positive.
+   *
+   * The regression is trusted only once at least three samples span a
+   * minute, and only when its slope exceeds twice its standard error;
+   * otherwise the skew is indistinguishable from offset noise and `0` is
+   * returned.
+   *
+   * Estimators that model drift themselves (see
+   * {@link OffsetEstimator.estimateDriftPpm}) are consulted instead.  Either
+   * way the estimate is clamped to ±500 ppm, beyond which no real oscillator
+   * drifts.
+   *
+   * @returns The skew in parts per million, or `0` while it cannot be told
+   *   apart from noise.
+   */
+  getDriftPpm(): number {
+    let ppm: number;
+    if (this._estimator.estimateDriftPpm !== undefined) {
+      if (this._history.length === 0) return 0;
+      ppm = this._estimator.estimateDriftPpm(this._history);
+    } else {
+      const regression = this._driftRegression();
+      if (regression === null) return 0;
+      const { slopePpm, stdErrorPpm } = regression;
+      ppm = Math.abs(slopePpm) > DRIFT_SIGNIFICANCE * stdErrorPpm ? slopePpm : 0;
+    }
+    return Math.min(Math.max(ppm, -MAX_DRIFT_PPM), MAX_DRIFT_PPM) || 0;
+  }
+
+  /**
+   * Standard error (in ppm) of the regression behind {@link getDriftPpm}:
+   * the rate at which a prediction along the drift estimate may gain error,
+   * on top of the oscillator's own wander.
+   *
+   * @returns The standard error; `Infinity` while the history is too short
+   *   or too brief for {@link getDriftPpm} to estimate anything; `0` for an
+   *   estimator that models drift itself, once it has two samples.
+   */
+  getDriftStdErrorPpm(): number {
+    if (this._estimator.estimateDriftPpm !== undefined) {
+      return this._history.length >= 2 ? 0 : Infinity;
+    }
+    return this._driftRegression()?.stdErrorPpm ?? Infinity;
+  }
+
+  /**
+   * Computes the optimal clock-offset estimate from the current history using
+   * the configured {@link OffsetEstimator}.  The default
+   * {@link MeanEstimator} discards samples whose RTT deviates more than
+   * `outlierThreshold × σ` from the mean and averages the remaining offsets.
+   *
+   * Unless the estimator models drift itself, each sample's offset is first
+   * projected along {@link getDriftPpm} to the time of the newest sample, so
+   * that the estimate describes the offset now rather than lagging a
+   * drifting clock, and its weight is decayed by its age when `halfLifeMs`
+   * is set.
    *
    * @returns The estimated offset in milliseconds, or `0` when history is
    *   empty.
    */
   getOptimalOffset(): number {
     if (this._history.length === 0) return 0;
+    if (this._estimator.estimateDriftPpm !== undefined) {
+      return this._estimator.estimate(this._history);
+    }
 
-    const rtts = this._history.map((s) => s.rtt);
-    const meanRtt = calculateMean(rtts);
-    const stddevRtt = calculateStdDev(rtts);
-
-    const filtered = this._history.filter(
-      (s) => stddevRtt === 0 || Math.abs(s.rtt - meanRtt) <= this._outlierThreshold * stddevRtt,
+    const drift = this.getDriftPpm() / 1e6;
+    if (drift === 0 && this._halfLifeMs === Infinity) {
+      return this._estimator.estimate(this._history);
+    }
+    const latest = this._history[this._history.length - 1].timestamp;
+    return this._estimator.estimate(
+      this._history.map((s) => {
+        const age = latest - s.timestamp;
+        return {
+          ...s,
+          offset: s.offset - drift * age,
+          weight: (s.weight ?? 1) * 0.5 ** (age / this._halfLifeMs),
+        };
+      }),
     );
+  }
 
-    const offsets = filtered.map((s) => s.offset);
-    const fallbackMean = calculateMean(this._history.map((s) => s.offset));
-    return offsets.length > 0 ? calculateMean(offsets) : fallbackMean;
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  /**
+   * Fits the accepted samples' offsets against their timestamps, or returns
+   * `null` when they are too few or span too short a baseline.
+   */
+  private _driftRegression(): { slopePpm: number; stdErrorPpm: number } | null {
+    const samples = this.getAcceptedSamples();
+    if (samples.length < MIN_DRIFT_SAMPLES) return null;
+    const timestamps = samples.map((s) => s.timestamp);
+    if (Math.max(...timestamps) - Math.min(...timestamps) < MIN_DRIFT_BASELINE_MS) return null;
+    const offsets = samples.map((s) => s.offset);
+    return {
+      slopePpm: -calculateSlope(timestamps, offsets) * 1e6,
+      stdErrorPpm: calculateSlopeStdError(timestamps, offsets) * 1e6,
+    };
   }
 }
@@ -2,15 +2,130 @@ export { SyncedClock } from './syncedClock.js';
 export { EventEmitter } from './eventEmitter.js';
 export type {
   TransportAdapter,
+  TimeSource,
+  TimerHandle,
+  ClockStorage,
+  PersistedClockState,
   PingPayload,
   PongPayload,
   SyncConfig,
   SyncSample,
+  ServerPongPayload,
   SyncPayload,
   SyncManager,
   SyncState,
+  SyncErrorReason,
+  SyncSource,
+  AdaptivePollConfig,
+  PathAsymmetry,
+  AsymmetryCalibrationConfig,
+  AsymmetryModel,
+  InitialBurstConfig,
+  StepPolicy,
+  StepDirection,
+  SlewProfile,
+  OffsetInterval,
+  OffsetEstimator,
+  TimeInterval,
+  ScheduleInfo,
+  ScheduledTask,
+  SyncStats,
+  HealthStatus,
+  SampleRejectionReason,
   SyncEventMap,
 } from './types.js';
-export { calculateRTT, calculateOffset, calculateMean, calculateStdDev, filterOutliers } from './timeMath.js';
+export {
+  calculateRTT,
+  calculateOffset,
+  calculateMean,
+  calculateWeightedMean,
+  calculateStdDev,
+  calculateMedian,
+  calculateSlope,
+  calculateSlopeStdError,
+  filterOutliers,
+  marzullo,
+  estimateAsymmetry,
+} from './timeMath.js';
 export { FilterEngine } from './filterEngine.js';
+export type { FilterEngineOptions } from './filterEngine.js';
+export {
+  MeanEstimator,
+  MinDelayEstimator,
+  MedianMadEstimator,
+  EwmaEstimator,
+  KalmanEstimator,
+} from './estimators.js';
+export type { MedianMadEstimatorOptions, KalmanEstimatorOptions } from './estimators.js';
+export {
+  MemoryClockStorage,
+  LocalStorageClockStorage,
+  FileClockStorage,
+} from './storage.js';
+export type {
+  WebStorageLike,
+  FileSystemLike,
+  LocalStorageClockStorageOptions,
+  FileClockStorageOptions,
+} from './storage.js';
+export { SystemTimeSource, ManualTimeSource } from './timeSource.js';
+export type { ManualTimeSourceOptions } from './timeSource.js';
+export { Metronome } from './metronome.js';
+export type {
+  MetronomeOptions,
+  MetronomeTempo,
+  MetronomeTick,
+  MetronomeEventMap,
+  MetronomeClockLike,
+} from './metronome.js';
+export { CronScheduler, CronJob, nextCronTime } from './cronScheduler.js';
+export type {
+  CronJobOptions,
+  CronCatchUpPolicy,
+  CronRun,
+  CronClockLike,
+} from './cronScheduler.js';
+export { MediaSyncController } from './mediaSyncController.js';
+export type {
+  MediaElementLike,
+  MediaSyncClockLike,
+  MediaTimeline,
+  MediaSyncOptions,
+  MediaCorrection,
+  MediaSyncEventMap,
+} from './mediaSyncController.js';
 export { SlewEngine } from './slewEngine.js';
+export type { SlewEngineOptions } from './slewEngine.js';
+export { createPong, createHttpHandler, createSocketHandler } from './server.js';
+export type {
+  TimeServerOptions,
+  HttpHandlerOptions,
+  HttpRequestLike,
+  HttpResponseLike,
+  MessageSocketLike,
+} from './server.js';
+export {
+  PING_FRAME_TYPE,
+  PONG_FRAME_TYPE,
+  isPingFrame,
+  isPongFrame,
+  isPingPayload,
+  isServerPongPayload,
+} from './protocol.js';
+export type { PingFrame, PongFrame } from './protocol.js';
+export { WebSocketTransport } from './webSocketTransport.js';
+export type {
+  WebSocketLike,
+  WebSocketTransportOptions,
+  ReconnectOptions,
+} from './webSocketTransport.js';
+export { FetchTransport } from './fetchTransport.js';
+export type { FetchTransportOptions } from './fetchTransport.js';
+export { SimulatedTransport } from './simulatedTransport.js';
+export type {
+  SimulatedTransportOptions,
+  SimulatedTransportStats,
+  LatencyDistribution,
+} from './simulatedTransport.js';
+export { validatePong, UNBOUNDED_LIMITS } from './sampleValidator.js';
+export type { ValidationLimits } from './sampleValidator.js';
@@ -0,0 +1,337 @@
+import type { ScheduleInfo, ScheduledTask, SyncEventMap } from './types.js';
+import { EventEmitter } from './eventEmitter.js';
+
+/** Default {@link MediaSyncOptions.toleranceMs}. */
+const DEFAULT_TOLERANCE_MS = 20;
+
+/** Default {@link MediaSyncOptions.seekThresholdMs}. */
+const DEFAULT_SEEK_THRESHOLD_MS = 500;
+
+/** Default {@link MediaSyncOptions.maxRateAdjustment}. */
+const DEFAULT_MAX_RATE_ADJUSTMENT = 0.05;
+
+/** Default {@link MediaSyncOptions.intervalMs}. */
+const DEFAULT_INTERVAL_MS = 250;
+
+/** Time (ms) over which a nudge aims to close the error, before clamping. */
+const CORRECTION_HORIZON_MS = 1000;
+
+/**
+ * Minimal structural view of an `HTMLMediaElement`, so that the controller
+ * runs — and can be tested with a fake — outside a browser.
+ */
+export interface MediaElementLike {
+  /** Playback position in seconds. */
+  currentTime: number;
+  playbackRate: number;
+  readonly paused: boolean;
+  play(): Promise<void> | void;
+  pause(): void;
+}
+
+/**
+ * Minimal structural view of the clock a {@link MediaSyncController} runs
+ * on.  `SyncedClock` satisfies it.
+ */
+export interface MediaSyncClockLike {
+  now(): number;
+  scheduleAt(ts: number, callback: (info: ScheduleInfo) => void): ScheduledTask;
+  events: {
+    on<K extends 'time_step' | 'sync_success'>(
+      event: K,
+      listener: (data: SyncEventMap[K]) => void,
+    ): () => void;
+  };
+}
+
+/**
+ * A shared timeline: the media position `(now − startEpochMs) × rate`,
+ * where `now` is synced time.
+ */
+export interface MediaTimeline {
+  /** Synced time (ms since the Unix epoch) at which position `0` plays. */
+  startEpochMs: number;
+  /**
+   * Playback speed of the timeline.
+   * @defaultValue `1`
+   */
+  rate?: number;
+}
+
+/** Configuration object passed to {@link SyncedClock.createMediaSyncController}. */
+export interface MediaSyncOptions {
+  /** The timeline to lock the media to. */
+  timeline: MediaTimeline;
+  /**
+   * Error (in ms) left uncorrected, so that playback is not disturbed by
+   * measurement noise.
+   * @defaultValue `20`
+   */
+  toleranceMs?: number;
+  /**
+   * Error (in ms) from which the controller seeks instead of nudging
+   * `playbackRate`.
+   * @defaultValue `500`
+   */
+  seekThresholdMs?: number;
+  /**
+   * Largest relative change of `playbackRate` used to nudge the media back
+   * in line; small enough to be imperceptible.
+   * @defaultValue `0.05`
+   */
+  maxRateAdjustment?: number;
+  /**
+   * How often (in ms) the error is measured and corrected.
+   * @defaultValue `250`
+   */
+  intervalMs?: number;
+}
+
+/** How the controller corrected an error; see {@link MediaSyncEventMap.correction}. */
+export type MediaCorrection = 'seek' | 'nudge';
+
+/**
+ * Map of events emitted by {@link MediaSyncController} through its `events`
+ * emitter.
+ */
+export interface MediaSyncEventMap {
+  /**
+   * Fired when the controller seeks the media or sets a nudged
+   * `playbackRate`.  `errorMs` is the error it measured: positive when the
+   * media was ahead of the timeline.
+   */
+  correction: {
+    action: MediaCorrection;
+    errorMs: number;
+    playbackRate: number;
+    timestamp: number;
+  };
+  /**
+   * Fired when `media.play()` rejects, e.g. because autoplay is blocked.
+   * The controller then leaves the media paused until it starts playing by
+   * other means, or until `start()` or `setTimeline()` tries again.
+   */
+  play_error: { error: unknown; timestamp: number };
+}
+
+/**
+ * Keeps a media element's `currentTime` locked to a timeline expressed in
+ * synced time, e.g. for synchronized video walls.
+ *
+ * Every `intervalMs`, and at once on `"time_step"` and `"sync_success"`, the
+ * controller compares the media position with the timeline's:
+ *
+ * - within `toleranceMs` it plays at the timeline's rate;
+ * - up to `seekThresholdMs` it nudges `playbackRate` by at most
+ *   `maxRateAdjustment`, closing the gap without a visible jump;
+ * - beyond that it seeks.
+ *
+ * Before the timeline starts the media is held paused at position `0`.
+ * When `play()` fails the controller does not retry on every tick; a play
+ * from the user, `start()` or `setTimeline()` ends the wait.
+ *
+ * @example
+ * ```ts
+ * const sync = clock.createMediaSyncController(video, {
+ *   timeline: { startEpochMs: showStart },
+ * });
+ * sync.start();
+ * ```
+ */
+export class MediaSyncController {
+  private readonly _clock: MediaSyncClockLike;
+  private readonly _media: MediaElementLike;
+  private readonly _toleranceMs: number;
+  private readonly _seekThresholdMs: number;
+  private readonly _maxRateAdjustment: number;
+  private readonly _intervalMs: number;
+  private _timeline: Required<MediaTimeline>;
+  private _task: ScheduledTask | null = null;
+  private _unsubscribers: Array<() => void> = [];
+  private _errorMs: number | null = null;
+  private _playBlocked = false;
+
+  /** Typed event emitter; see {@link MediaSyncEventMap}. */
+  readonly events: EventEmitter<MediaSyncEventMap> = new EventEmitter();
+
+  /**
+   * @param clock - Clock whose time the timeline is expressed in, typically
+   *   a `SyncedClock`.
+   * @param media - The element to control.
+   * @param options - Timeline and tolerances.
+   * @throws {RangeError} When the timeline start is not finite or its rate
+   *   not positive, `toleranceMs` is negative, `seekThresholdMs` does not
+   *   exceed `toleranceMs`, `maxRateAdjustment` is not between `0` and `1`,
+   *   or `intervalMs` is not positive.
+   */
+  constructor(clock: MediaSyncClockLike, media: MediaElementLike, options: MediaSyncOptions) {
+    const {
+      toleranceMs = DEFAULT_TOLERANCE_MS,
+      seekThresholdMs = DEFAULT_SEEK_THRESHOLD_MS,
+      maxRateAdjustment = DEFAULT_MAX_RATE_ADJUSTMENT,
+      intervalMs = DEFAULT_INTERVAL_MS,
+    } = options;
+    if (!(toleranceMs >= 0)) {
+      throw new RangeError('toleranceMs must be non-negative');
+    }
+    if (!(seekThresholdMs > toleranceMs)) {
+      throw new RangeError('seekThresholdMs must exceed toleranceMs');
+    }
+    if (!(maxRateAdjustment > 0 && maxRateAdjustment < 1)) {
+      throw new RangeError('maxRateAdjustment must lie strictly between 0 and 1');
+    }
+    if (!(intervalMs > 0 && intervalMs < Infinity)) {
+      throw new RangeError('intervalMs must be positive and finite');
+    }
+    this._clock = clock;
+    this._media = media;
+    this._toleranceMs = toleranceMs;
+    this._seekThresholdMs = seekThresholdMs;
+    this._maxRateAdjustment = maxRateAdjustment;
+    this._intervalMs = intervalMs;
+    this._timeline = resolveTimeline(options.timeline);
+  }
+
+  /** Whether the controller is correcting the media. */
+  get running(): boolean {
+    return this._task !== null;
+  }
+
+  /**
+   * Media position minus timeline position (ms) at the last correction:
+   * positive when the media was ahead.  `null` before the timeline starts
+   * or the first correction.
+   */
+  get errorMs(): number | null {
+    return this._errorMs;
+  }
+
+  /**
+   * The position (ms) the media should be at now.  Negative before the
+   * timeline starts.
+   */
+  targetPositionMs(): number {
+    return (this._clock.now() - this._timeline.startEpochMs) * this._timeline.rate;
+  }
+
+  /**
+   * Starts correcting the media, beginning at once.  Calling `start()` on a
+   * running controller is a no-op.
+   */
+  start(): void {
+    if (this._task !== null) return;
+    this._playBlocked = false;
+    this._unsubscribers = [
+      this._clock.events.on('time_step', () => this._correct()),
+      this._clock.events.on('sync_success', () => this._correct()),
+    ];
+    this._correct();
+  }
+
+  /**
+   * Stops correcting and restores the timeline's `playbackRate`.  The media
+   * keeps playing; pause it separately if required.
+   */
+  stop(): void {
+    if (this._task === null) return;
+    this._task.cancel();
+    this._task = null;
+    for (const unsubscribe of this._unsubscribers) {
+      unsubscribe();
+    }
+    this._unsubscribers = [];
+    this._media.playbackRate = this._timeline.rate;
+  }
+
+  /**
+   * Switches to a new timeline, correcting against it at once when running.
+   * A `play()` that failed earlier is tried again.
+   *
+   * @param timeline - The new timeline.
+   * @throws {RangeError} When its start is not finite or its rate not positive.
+   */
+  setTimeline(timeline: MediaTimeline): void {
+    this._timeline = resolveTimeline(timeline);
+    this._playBlocked = false;
+    if (this._task !== null) this._correct();
+  }
+
+  /** Measures the error, corrects it and schedules the next correction. */
+  private _correct(): void {
+    this._task?.cancel();
+    const now = this._clock.now();
+    const { startEpochMs, rate } = this._timeline;
+    const targetMs = (now - startEpochMs) * rate;
+    const media = this._media;
+
+    if (targetMs < 0) {
+      if (!media.paused) media.pause();
+      if (media.currentTime !== 0) media.currentTime = 0;
+      media.playbackRate = rate;
+      this._errorMs = null;
+      this._task = this._clock.scheduleAt(Math.min(now + this._intervalMs, startEpochMs), () =>
+        this._correct(),
+      );
+      return;
+    }
+
+    if (!media.paused) {
+      this._playBlocked = false;
+    } else if (!this._playBlocked) {
+      this._play();
+    }
+    const errorMs = media.currentTime * 1000 - targetMs;
+    this._errorMs = errorMs;
+    if (Math.abs(errorMs) >= this._seekThresholdMs) {
+      media.currentTime = targetMs / 1000;
+      media.playbackRate = rate;
+      this._emitCorrection('seek', errorMs, now);
+    } else if (Math.abs(errorMs) > this._toleranceMs) {
+      const limit = this._maxRateAdjustment;
+      const adjustment = Math.min(Math.max(-errorMs / CORRECTION_HORIZON_MS, -limit), limit);
+      media.playbackRate = rate * (1 + adjustment);
+      this._emitCorrection('nudge', errorMs, now);
+    } else {
+      media.playbackRate = rate;
+    }
+    this._task = this._clock.scheduleAt(now + this._intervalMs, () => this._correct());
+  }
+
+  /** Plays the media; a failure blocks further attempts until cleared. */
+  private _play(): void {
+    try {
+      const result = this._media.play();
+      if (result !== undefined) {
+        result.catch((error: unknown) => this._failPlay(error));
+      }
+    } catch (error) {
+      this._failPlay(error);
+    }
+  }
+
+  private _failPlay(error: unknown): void {
+    this._playBlocked = true;
+    this.events.emit('play_error', { error, timestamp: this._clock.now() });
+  }
+
+  private _emitCorrection(action: MediaCorrection, errorMs: number, timestamp: number): void {
+    const { playbackRate } = this._media;
+    this.events.emit('correction', { action, errorMs, playbackRate, timestamp });
+  }
+}
+
+/**
+ * Fills in the timeline's defaults.
+ *
+ * @throws {RangeError} When its start is not finite or its rate not positive.
+ */
+function resolveTimeline(timeline: MediaTimeline): Required<MediaTimeline> {
+  const { startEpochMs, rate = 1 } = timeline;
+  if (!Number.isFinite(startEpochMs)) {
+    throw new RangeError('timeline.startEpochMs must be finite');
+  }
+  if (!(rate > 0 && rate < Infinity)) {
+    throw new RangeError('timeline.rate must be positive and finite');
+  }
+  return { startEpochMs, rate };
+}
@@ -0,0 +1,264 @@
+import type { ScheduleInfo, ScheduledTask } from './types.js';
+import { EventEmitter } from './eventEmitter.js';
+
+/** Default {@link MetronomeOptions.beatsPerBar}. */
+const DEFAULT_BEATS_PER_BAR = 4;
+
+/**
+ * Slack (in beats) when locating a timestamp on the beat grid, so that a
+ * timestamp computed as exactly a beat's time is not floored to the beat
+ * before by floating-point error.
+ */
+const BEAT_EPSILON = 1e-9;
+
+/**
+ * Minimal structural view of the clock a {@link Metronome} runs on.
+ * `SyncedClock` satisfies it.
+ */
+export interface MetronomeClockLike {
+  now(): number;
+  scheduleAt(ts: number, callback: (info: ScheduleInfo) => void): ScheduledTask;
+}
+
+/** A tempo, given either as a beat period or in beats per minute. */
+export type MetronomeTempo = { periodMs: number; bpm?: never } | { bpm: number; periodMs?: never };
+
+/** Configuration object passed to {@link SyncedClock.createMetronome}. */
+export type MetronomeOptions = MetronomeTempo & {
+  /**
+   * Server time (in ms since the Unix epoch) of beat `0`.  Devices sharing
+   * the origin and tempo tick on the same grid.
+   * @defaultValue `0`
+   */
+  phaseOriginMs?: number;
+  /**
+   * Beats per bar, for the bar counters of each tick.
+   * @defaultValue `4`
+   */
+  beatsPerBar?: number;
+  /**
+   * How far ahead (in ms) of each beat its `"tick"` is emitted, so that
+   * audio code can queue the beat on its own, more precise clock.
+   * @defaultValue `0`
+   */
+  lookaheadMs?: number;
+};
+
+/** Payload of a {@link Metronome} `"tick"` event. */
+export interface MetronomeTick {
+  /** Beat index counted from the phase origin (beat `0`). */
+  beat: number;
+  /** Bar index: `floor(beat / beatsPerBar)`. */
+  bar: number;
+  /** Position of the beat within its bar, from `0` to `beatsPerBar − 1`. */
+  beatInBar: number;
+  /** Server time of the beat, in ms since the Unix epoch. */
+  time: number;
+  /** Beat period (ms) in effect from this beat on. */
+  periodMs: number;
+  /** How late the tick was emitted relative to `time − lookaheadMs`. */
+  latenessMs: number;
+}
+
+/**
+ * Map of events emitted by {@link Metronome} through its `events` emitter.
+ */
+export interface MetronomeEventMap {
+  /** Fired `lookaheadMs` before each beat. */
+  tick: MetronomeTick;
+}
+
+/** A stretch of the beat grid played at one tempo. */
+interface TempoSegment {
+  startBeat: number;
+  startTime: number;
+  periodMs: number;
+}
+
+/**
+ * A beat clock whose ticks fall on a grid shared by every device: beat `n`
+ * is due at `phaseOriginMs + n × periodMs` of server time, so devices that
+ * agree on origin and tempo tick together however late they joined.
+ *
+ * Ticks are scheduled with {@link MetronomeClockLike.scheduleAt}, so they
+ * follow the clock's offset corrections.  Beats whose tick would already be
+ * late when it is scheduled — after a host sleep, say — are skipped rather
+ * than delivered in a burst.  Tempo changes take effect at an agreed beat
+ * (see {@link setTempo}).
+ *
+ * @example
+ * ```ts
+ * const metronome = clock.createMetronome({ bpm: 120, phaseOriginMs: sessionStart, lookaheadMs: 100 });
+ * metronome.events.on('tick', ({ time, beatInBar }) => {
+ *   playClick(audioContext.currentTime + (time - clock.now()) / 1000, beatInBar === 0);
+ * });
+ * metronome.start();
+ * ```
+ */
+export class Metronome {
+  private readonly _clock: MetronomeClockLike;
+  private readonly _beatsPerBar: number;
+  private readonly _lookaheadMs: number;
+  private _segments: TempoSegment[];
+  private _nextBeat: number = -Infinity;
+  private _task: ScheduledTask | null = null;
+
+  /** Typed event emitter; see {@link MetronomeEventMap}. */
+  readonly events: EventEmitter<MetronomeEventMap> = new EventEmitter();
+
+  /**
+   * @param clock - Clock to tick on, typically a `SyncedClock`.
+   * @param options - Tempo, phase and lookahead.
+   * @throws {TypeError} When neither or both of `periodMs` and `bpm` are given.
+   * @throws {RangeError} When the tempo is not positive and finite,
+   *   `phaseOriginMs` is not finite, `beatsPerBar` is not a positive integer
+   *   or `lookaheadMs` is negative.
+   */
+  constructor(clock: MetronomeClockLike, options: MetronomeOptions) {
+    const { phaseOriginMs = 0, beatsPerBar = DEFAULT_BEATS_PER_BAR, lookaheadMs = 0 } = options;
+    const periodMs = resolvePeriod(options);
+    if (!Number.isFinite(phaseOriginMs)) {
+      throw new RangeError('phaseOriginMs must be finite');
+    }
+    if (!Number.isInteger(beatsPerBar) || beatsPerBar < 1) {
+      throw new RangeError('beatsPerBar must be a positive integer');
+    }
+    if (!(lookaheadMs >= 0 && lookaheadMs < Infinity)) {
+      throw new RangeError('lookaheadMs must be finite and non-negative');
+    }
+    this._clock = clock;
+    this._beatsPerBar = beatsPerBar;
+    this._lookaheadMs = lookaheadMs;
+    this._segments = [{ startBeat: 0, startTime: phaseOriginMs, periodMs }];
+  }
+
+  /** Whether the metronome is emitting ticks. */
+  get running(): boolean {
+    return this._task !== null;
+  }
+
+  /** Beat period (ms) in effect at the current time. */
+  get periodMs(): number {
+    return this._segmentForBeat(this.beatAt(this._clock.now())).periodMs;
+  }
+
+  /**
+   * Starts emitting ticks, from the first beat still far enough ahead to be
+   * ticked on time.  Calling `start()` on a running metronome is a no-op.
+   */
+  start(): void {
+    if (this._task !== null) return;
+    this._scheduleNext();
+  }
+
+  /** Stops emitting ticks; {@link start} resumes on the grid. */
+  stop(): void {
+    this._task?.cancel();
+    this._task = null;
+    this._nextBeat = -Infinity;
+  }
+
+  /**
+   * Changes the tempo from beat `atBeat` on; the beats before it keep their
+   * times, and later changes previously set are discarded.  Every device
+   * applying the same change lands on the same grid — including one that
+   * applies it after `atBeat` has passed, e.g. because it joined late.
+   *
+   * @param tempo - The new period or bpm.
+   * @param atBeat - Beat index at which the new tempo starts.
+   * @throws {TypeError} When neither or both of `periodMs` and `bpm` are given.
+   * @throws {RangeError} When the tempo is not positive and finite, or
+   *   `atBeat` is not an integer after the phase origin.
+   */
+  setTempo(tempo: MetronomeTempo, atBeat: number): void {
+    const periodMs = resolvePeriod(tempo);
+    if (!Number.isInteger(atBeat) || atBeat <= 0) {
+      throw new RangeError('atBeat must be a positive integer');
+    }
+    const startTime = this.timeOfBeat(atBeat);
+    this._segments = this._segments.filter(({ startBeat }) => startBeat < atBeat);
+    this._segments.push({ startBeat: atBeat, startTime, periodMs });
+    if (this._task !== null) {
+      this._task.cancel();
+      this._scheduleNext();
+    }
+  }
+
+  /**
+   * Server time of beat `beat` on the current grid.
+   *
+   * @param beat - Beat index; may be negative (before the origin).
+   * @returns Milliseconds since the Unix epoch.
+   */
+  timeOfBeat(beat: number): number {
+    const { startBeat, startTime, periodMs } = this._segmentForBeat(beat);
+    return startTime + (beat - startBeat) * periodMs;
+  }
+
+  /**
+   * Index of the last beat at or before server time `ts`.
+   *
+   * @param ts - Server time in ms since the Unix epoch.
+   */
+  beatAt(ts: number): number {
+    let segment = this._segments[0];
+    for (const candidate of this._segments) {
+      if (candidate.startTime <= ts) segment = candidate;
+    }
+    const beats = (ts - segment.startTime) / segment.periodMs;
+    return segment.startBeat + Math.floor(beats + BEAT_EPSILON);
+  }
+
+  /**
+   * Schedules the tick of the next beat: the one after the last tick, or
+   * the first whose tick is not yet due if that is later.
+   */
+  private _scheduleNext(): void {
+    const earliest = this._clock.now() + this._lookaheadMs;
+    let beat = this.beatAt(earliest);
+    if (this.timeOfBeat(beat) < earliest) beat++;
+    beat = Math.max(beat, this._nextBeat);
+    this._nextBeat = beat;
+    const time = this.timeOfBeat(beat);
+    this._task = this._clock.scheduleAt(time - this._lookaheadMs, ({ latenessMs }) => {
+      this._nextBeat = beat + 1;
+      this._scheduleNext();
+      const bar = Math.floor(beat / this._beatsPerBar);
+      this.events.emit('tick', {
+        beat,
+        bar,
+        beatInBar: beat - bar * this._beatsPerBar,
+        time,
+        periodMs: this._segmentForBeat(beat).periodMs,
+        latenessMs,
+      });
+    });
+  }
+
+  /** The tempo segment containing `beat`; the first one for beats before the origin. */
+  private _segmentForBeat(beat: number): TempoSegment {
+    let segment = this._segments[0];
+    for (const candidate of this._segments) {
+      if (candidate.startBeat <= beat) segment = candidate;
+    }
+    return segment;
+  }
+}
+
+/**
+ * Converts a {@link MetronomeTempo} to a beat period in ms.
+ *
+ * @throws {TypeError} When neither or both of `periodMs` and `bpm` are given.
+ * @throws {RangeError} When the tempo is not positive and finite.
+ */
+function resolvePeriod(tempo: { periodMs?: number; bpm?: number }): number {
+  const { periodMs, bpm } = tempo;
+  if ((periodMs === undefined) === (bpm === undefined)) {
+    throw new TypeError('Exactly one of periodMs and bpm must be given');
+  }
+  const period = periodMs ?? 60_000 / bpm!;
+  if (!(period > 0 && period < Infinity)) {
+    throw new RangeError('The tempo must be positive and finite');
+  }
+  return period;
+}
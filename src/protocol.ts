@@ -0,0 +1,91 @@
+import type { PingPayload, ServerPongPayload } from './types.js';
+
+/** Frame tag identifying a time-sync ping on a shared, message-based channel. */
+export const PING_FRAME_TYPE = 'uts:ping';
+
+/** Frame tag identifying a time-sync pong on a shared, message-based channel. */
+export const PONG_FRAME_TYPE = 'uts:pong';
+
+/**
+ * A {@link PingPayload} wrapped in a tagged frame so that it can share a
+ * socket with unrelated application traffic.
+ */
+export interface PingFrame extends PingPayload {
+  type: typeof PING_FRAME_TYPE;
+}
+
+/**
+ * A {@link ServerPongPayload} wrapped in a tagged frame so that it can share a
+ * socket with unrelated application traffic.
+ */
+export interface PongFrame extends ServerPongPayload {
+  type: typeof PONG_FRAME_TYPE;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Returns `true` when `value` structurally matches a {@link PingPayload}.
+ *
+ * @param value - An arbitrary, typically freshly parsed, value.
+ */
+export function isPingPayload(value: unknown): value is PingPayload {
+  return isRecord(value) && typeof value.t0 === 'number' && typeof value.id === 'string';
+}
+
+/**
+ * Returns `true` when `value` structurally matches a {@link ServerPongPayload}.
+ *
+ * @param value - An arbitrary, typically freshly parsed, value.
+ */
+export function isServerPongPayload(value: unknown): value is ServerPongPayload {
+  return (
+    isRecord(value) &&
+    isPingPayload(value) &&
+    typeof value.t1 === 'number' &&
+    typeof value.t2 === 'number'
+  );
+}
+
+/**
+ * Returns `true` when `value` is a tagged {@link PingFrame}.
+ *
+ * @param value - An arbitrary, typically freshly parsed, value.
+ */
+export function isPingFrame(value: unknown): value is PingFrame {
+  return isRecord(value) && value.type === PING_FRAME_TYPE && isPingPayload(value);
+}
+
+/**
+ * Returns `true` when `value` is a tagged {@link PongFrame}.
+ *
+ * @param value - An arbitrary, typically freshly parsed, value.
+ */
+export function isPongFrame(value: unknown): value is PongFrame {
+  return isRecord(value) && value.type === PONG_FRAME_TYPE && isServerPongPayload(value);
+}
+
+/**
+ * Parses a raw text message, returning `undefined` instead of throwing when it
+ * is not valid JSON.  Application traffic on a shared channel is not required
+ * to be JSON at all.
+ *
+ * @param data - Raw message data: a string or UTF-8 encoded bytes.
+ */
+export function tryParseJson(data: unknown): unknown {
+  let text: string;
+  if (typeof data === 'string') {
+    text = data;
+  } else if (data instanceof Uint8Array) {
+    text = new TextDecoder().decode(data);
+  } else {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
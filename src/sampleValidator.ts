@@ -0,0 +1,47 @@
+import type { PongPayload, SampleRejectionReason } from './types.js';
+import { calculateOffset, calculateRTT } from './timeMath.js';
+
+/** Bounds applied by {@link validatePong} on top of its physical checks. */
+export interface ValidationLimits {
+  /** Largest acceptable round-trip time in milliseconds. */
+  maxRttMs: number;
+  /** Largest acceptable clock-offset magnitude in milliseconds. */
+  maxOffsetMs: number;
+}
+
+/** Limits that accept every physically possible sample. */
+export const UNBOUNDED_LIMITS: ValidationLimits = { maxRttMs: Infinity, maxOffsetMs: Infinity };
+
+/**
+ * Checks that a pong describes a physically possible round-trip within the
+ * configured limits.  Checks run from cheapest to most specific, so the
+ * reason reported is the most fundamental problem with the sample.
+ *
+ * @param pong - The pong to validate.
+ * @param limits - RTT and offset bounds.
+ * @returns The reason the pong must be rejected, or `null` when it is usable.
+ */
+export function validatePong(
+  pong: PongPayload,
+  limits: ValidationLimits = UNBOUNDED_LIMITS,
+): SampleRejectionReason | null {
+  const { t0, t1, t2, t3, resolution = 0 } = pong;
+  if (![t0, t1, t2, t3, resolution].every(Number.isFinite)) {
+    return 'non_finite';
+  }
+  if (t3 < t0 || t2 < t1) {
+    return 'causality_violation';
+  }
+
+  const rtt = calculateRTT(t0, t1, t2, t3);
+  if (rtt < 0) {
+    return 'negative_rtt';
+  }
+  if (rtt > limits.maxRttMs) {
+    return 'rtt_exceeded';
+  }
+  if (Math.abs(calculateOffset(t0, t1, t2, t3, resolution)) > limits.maxOffsetMs) {
+    return 'offset_exceeded';
+  }
+  return null;
+}
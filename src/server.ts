@@ -0,0 +1,218 @@
+import type { PingPayload, ServerPongPayload } from './types.js';
+import { PONG_FRAME_TYPE, isPingFrame, isPingPayload, tryParseJson } from './protocol.js';
+
+/** Default {@link HttpHandlerOptions.maxBodyBytes}; a ping is a few dozen bytes. */
+const DEFAULT_MAX_BODY_BYTES = 4096;
+
+/** Options shared by every server-side pong responder. */
+export interface TimeServerOptions {
+  /**
+   * Authoritative server clock used to stamp `t1` and `t2`.
+   * @defaultValue `Date.now`
+   */
+  now?: () => number;
+}
+
+/** Options of {@link createHttpHandler}. */
+export interface HttpHandlerOptions extends TimeServerOptions {
+  /**
+   * Largest request body (in bytes) read before the request is rejected with
+   * `413 Payload Too Large`.
+   * @defaultValue `4096`
+   */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Minimal structural view of an incoming HTTP request.  Node's
+ * `http.IncomingMessage` satisfies it, so no runtime dependency on `node:http`
+ * is required.
+ */
+export interface HttpRequestLike {
+  method?: string;
+  on(event: string, listener: (chunk?: unknown) => void): unknown;
+  /** Stops reading the request, e.g. the rest of an oversized body. */
+  destroy?(): unknown;
+}
+
+/**
+ * Minimal structural view of an HTTP response.  Node's `http.ServerResponse`
+ * satisfies it.
+ */
+export interface HttpResponseLike {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  /** Sends the response; `callback` runs once it has been flushed. */
+  end(body?: string, callback?: () => void): unknown;
+}
+
+/** Minimal structural view of a message-based socket (WebSocket, WebRTC data channel, …). */
+export interface MessageSocketLike {
+  send(data: string): void;
+}
+
+/**
+ * Builds a correctly stamped server reply for an incoming ping.
+ *
+ * `t1` must be captured by the caller as early as possible — ideally the very
+ * first thing done when the request arrives, before any parsing.  `t2` is
+ * stamped here, so callers should serialize and send the result immediately.
+ *
+ * @param ping - The ping received from the client.
+ * @param t1 - Server timestamp at which the ping was received.
+ * @param now - Server clock used to stamp `t2`.
+ * @returns The server's half of the pong; the client stamps `t3` on arrival.
+ */
+export function createPong(
+  ping: PingPayload,
+  t1: number,
+  now: () => number = Date.now,
+): ServerPongPayload {
+  return { t0: ping.t0, t1, t2: now(), id: ping.id };
+}
+
+/**
+ * Creates a request handler for Node's `http` server (or any compatible
+ * framework) that answers `POST` requests whose JSON body is a
+ * {@link PingPayload} with a JSON {@link ServerPongPayload}.  Bodies larger
+ * than `maxBodyBytes` are rejected with `413` and the rest of the request is
+ * not read; chunks may be strings or UTF-8 bytes, and multibyte characters
+ * split across chunks are decoded intact.  A request that fails mid-body,
+ * e.g. because the client aborted it, is answered with `400`.
+ *
+ * @example
+ * ```ts
+ * import { createServer } from 'node:http';
+ * createServer(createHttpHandler()).listen(8080);
+ * ```
+ *
+ * @param options - Responder options.
+ * @returns A `(req, res) => void` request listener.
+ * @throws {RangeError} When `maxBodyBytes` is not a positive number.
+ */
+export function createHttpHandler(
+  options: HttpHandlerOptions = {},
+): (req: HttpRequestLike, res: HttpResponseLike) => void {
+  const now = options.now ?? Date.now;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  if (!(maxBodyBytes > 0)) {
+    throw new RangeError('maxBodyBytes must be positive');
+  }
+
+  return (req, res) => {
+    // Capture t1 before reading the body so that upload time is attributed to
+    // the network leg rather than to server processing.
+    const t1 = now();
+
+    if (req.method !== undefined && req.method !== 'POST') {
+      res.statusCode = 405;
+      res.setHeader('Allow', 'POST');
+      res.end();
+      return;
+    }
+
+    // A streaming decoder keeps multibyte characters split across chunks intact.
+    const decoder = new TextDecoder();
+    let body = '';
+    let bodyBytes = 0;
+    let rejected = false;
+    req.on('data', (chunk) => {
+      if (rejected) return;
+      const bytes =
+        chunk instanceof Uint8Array ? chunk : new TextEncoder().encode(String(chunk ?? ''));
+      bodyBytes += bytes.length;
+      if (bodyBytes > maxBodyBytes) {
+        rejected = true;
+        res.statusCode = 413;
+        res.setHeader('Connection', 'close');
+        // Stop the upload once the reply is out rather than read a body we discard.
+        res.end(undefined, () => req.destroy?.());
+        return;
+      }
+      body += decoder.decode(bytes, { stream: true });
+    });
+    req.on('error', () => {
+      if (rejected) return;
+      rejected = true;
+      res.statusCode = 400;
+      res.end();
+    });
+    req.on('end', () => {
+      if (rejected) return;
+      body += decoder.decode();
+      const ping = tryParseJson(body);
+      if (!isPingPayload(ping)) {
+        res.statusCode = 400;
+        res.end();
+        return;
+      }
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Cache-Control', 'no-store');
+      // Stamp t2 as the last step before the bytes leave the process.
+      res.end(JSON.stringify(createPong(ping, t1, now)));
+    });
+  };
+}
+
+/**
+ * Creates a message handler for a message-based socket that may also carry
+ * application traffic.  Time-sync pings are recognised by their
+ * {@link PingFrame} tag and answered on the same socket; every other message
+ * is left for the caller.  Messages may be strings or UTF-8 bytes in any of
+ * the forms the `ws` package delivers: a `Buffer`, an `ArrayBuffer` or an
+ * array of `Buffer` fragments.
+ *
+ * @example
+ * ```ts
+ * const handleTimeSync = createSocketHandler(socket);
+ * socket.on('message', (data) => {
+ *   if (handleTimeSync(data)) return;
+ *   handleAppMessage(data);
+ * });
+ * ```
+ *
+ * @param socket - The socket used to send replies.
+ * @param options - Responder options.
+ * @returns A function that returns `true` when the message was a time-sync
+ *   ping (and has been answered), `false` otherwise.
+ */
+export function createSocketHandler(
+  socket: MessageSocketLike,
+  options: TimeServerOptions = {},
+): (data: unknown) => boolean {
+  const now = options.now ?? Date.now;
+
+  return (data) => {
+    const t1 = now();
+    const frame = tryParseJson(toMessageBytes(data));
+    if (!isPingFrame(frame)) return false;
+
+    const pong = createPong(frame, t1, now);
+    socket.send(JSON.stringify({ type: PONG_FRAME_TYPE, ...pong }));
+    return true;
+  };
+}
+
+/**
+ * Normalizes a binary socket message to a single `Uint8Array`: `ArrayBuffer`s
+ * and their views are wrapped and fragment arrays joined.  Anything else is
+ * returned unchanged.
+ */
+function toMessageBytes(data: unknown): unknown {
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data) && !(data instanceof Uint8Array)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  }
+  if (Array.isArray(data) && data.every((part) => part instanceof Uint8Array)) {
+    const parts = data as Uint8Array[];
+    const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return bytes;
+  }
+  return data;
+}
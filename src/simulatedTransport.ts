@@ -0,0 +1,332 @@
+import type {
+  PingPayload,
+  PongPayload,
+  TimeSource,
+  TimerHandle,
+  TransportAdapter,
+} from './types.js';
+import { SystemTimeSource } from './timeSource.js';
+
+/** Default one-way latency of each leg. */
+const DEFAULT_LATENCY: LatencyDistribution = { type: 'constant', ms: 20 };
+
+/** Default {@link SimulatedTransportOptions.reorderMaxHoldMs}. */
+const DEFAULT_REORDER_MAX_HOLD_MS = 2000;
+
+/**
+ * Distribution from which each one-way network delay is drawn, in ms.
+ *
+ * - `"constant"` — always `ms`.
+ * - `"uniform"` — uniformly between `minMs` and `maxMs`.
+ * - `"normal"` — Gaussian, clamped below at `minMs` (default `0`).
+ * - `"exponential"` — `minMs` plus an exponentially distributed queueing
+ *   delay averaging `meanExtraMs`: the long-tailed shape of congested links.
+ */
+export type LatencyDistribution =
+  | { type: 'constant'; ms: number }
+  | { type: 'uniform'; minMs: number; maxMs: number }
+  | { type: 'normal'; meanMs: number; stdDevMs: number; minMs?: number }
+  | { type: 'exponential'; minMs: number; meanExtraMs: number };
+
+/** Configuration object passed to the {@link SimulatedTransport} constructor. */
+export interface SimulatedTransportOptions {
+  /**
+   * Virtual time base.  The client's wall clock is its `wallNow()`, and
+   * network delays are scheduled with its timers — typically a
+   * `ManualTimeSource` shared with the `SyncedClock` under test.
+   * @defaultValue a `SystemTimeSource`
+   */
+  timeSource?: TimeSource;
+  /**
+   * How far (in ms) the server clock is ahead of the client's wall clock at
+   * construction.
+   * @defaultValue `0`
+   */
+  serverOffsetMs?: number;
+  /**
+   * How much faster (in ppm) the server clock runs than the client's
+   * monotonic clock, so that the true offset changes over time.
+   * @defaultValue `0`
+   */
+  serverDriftPpm?: number;
+  /**
+   * Delay of both legs, unless overridden by `outboundLatency` or
+   * `returnLatency`.
+   * @defaultValue a constant 20 ms
+   */
+  latency?: LatencyDistribution;
+  /** Delay of the client → server leg; set it apart from `returnLatency` to model asymmetry. */
+  outboundLatency?: LatencyDistribution;
+  /** Delay of the server → client leg. */
+  returnLatency?: LatencyDistribution;
+  /**
+   * Server time (in ms) between receiving a ping (`t1`) and replying (`t2`).
+   * @defaultValue `0`
+   */
+  processingMs?: number;
+  /**
+   * Probability (`0`–`1`) that each leg loses its message.
+   * @defaultValue `0`
+   */
+  lossRate?: number;
+  /**
+   * Probability (`0`–`1`) that a pong is delivered twice, each copy with its
+   * own return delay.
+   * @defaultValue `0`
+   */
+  duplicateRate?: number;
+  /**
+   * Probability (`0`–`1`) that a pong is held back on arrival and delivered
+   * right after the next pong, so that the two swap order.  One pong is held
+   * at a time.
+   * @defaultValue `0`
+   */
+  reorderRate?: number;
+  /**
+   * Longest time (ms) a pong is held back by `reorderRate`: one that no
+   * later pong overtakes within it is delivered on its own.
+   * @defaultValue `2000`
+   */
+  reorderMaxHoldMs?: number;
+  /**
+   * Seed of the pseudo-random generator: the same seed, options and call
+   * sequence reproduce the same run.
+   * @defaultValue `1`
+   */
+  seed?: number;
+}
+
+/** Message counts of a {@link SimulatedTransport}; see {@link SimulatedTransport.stats}. */
+export interface SimulatedTransportStats {
+  /** Pings handed to {@link SimulatedTransport.sendPing}. */
+  sent: number;
+  /** Pings or pongs dropped on either leg. */
+  lost: number;
+  /** Extra pong copies scheduled. */
+  duplicated: number;
+  /** Pongs handed to the `onPong` callbacks, duplicates included. */
+  delivered: number;
+}
+
+/**
+ * A {@link TransportAdapter} that answers pings from a simulated server
+ * clock over a simulated network, for reproducing field conditions in tests
+ * and comparing estimator accuracy offline.
+ *
+ * The server clock has its own offset and drift.  Each leg's delay is drawn
+ * from a {@link LatencyDistribution}; messages can be lost, the pong
+ * duplicated or held back behind the next one, and messages also overtake
+ * each other whenever the delay jitter exceeds their spacing.  All
+ * randomness comes from a seeded generator and all timing from the injected
+ * {@link TimeSource}, so a run is deterministic.
+ *
+ * @example
+ * ```ts
+ * const time = new ManualTimeSource({ wallTime: Date.UTC(2024, 0, 1) });
+ * const transport = new SimulatedTransport({
+ *   timeSource: time,
+ *   serverOffsetMs: 250,
+ *   latency: { type: 'exponential', minMs: 15, meanExtraMs: 10 },
+ *   lossRate: 0.05,
+ * });
+ * const clock = new SyncedClock({ ...config, timeSource: time, transportAdapter: transport });
+ * clock.start();
+ * time.advance(60_000);
+ * console.log(transport.measureError(clock)); // estimated − true server time, in ms
+ * ```
+ */
+export class SimulatedTransport implements TransportAdapter {
+  private readonly _time: TimeSource;
+  private readonly _serverEpoch: number;
+  private readonly _monotonicEpoch: number;
+  private readonly _serverRate: number;
+  private readonly _outboundLatency: LatencyDistribution;
+  private readonly _returnLatency: LatencyDistribution;
+  private readonly _processingMs: number;
+  private readonly _lossRate: number;
+  private readonly _duplicateRate: number;
+  private readonly _reorderRate: number;
+  private readonly _reorderMaxHoldMs: number;
+  private readonly _random: () => number;
+  private readonly _stats: SimulatedTransportStats = {
+    sent: 0,
+    lost: 0,
+    duplicated: 0,
+    delivered: 0,
+  };
+  private _pongCallbacks: Array<(payload: PongPayload) => void> = [];
+  /** The pong held back by `reorderRate`, if any, and its release timer. */
+  private _heldBack: { deliver: () => void; timer: TimerHandle } | null = null;
+
+  /**
+   * @param options - Simulation parameters.
+   * @throws {RangeError} When `lossRate`, `duplicateRate` or `reorderRate`
+   *   lies outside `[0, 1]`, or `processingMs` or `reorderMaxHoldMs` is
+   *   negative.
+   */
+  constructor(options: SimulatedTransportOptions = {}) {
+    const {
+      lossRate = 0,
+      duplicateRate = 0,
+      reorderRate = 0,
+      reorderMaxHoldMs = DEFAULT_REORDER_MAX_HOLD_MS,
+      processingMs = 0,
+    } = options;
+    if (!(lossRate >= 0 && lossRate <= 1)) {
+      throw new RangeError('lossRate must lie in [0, 1]');
+    }
+    if (!(duplicateRate >= 0 && duplicateRate <= 1)) {
+      throw new RangeError('duplicateRate must lie in [0, 1]');
+    }
+    if (!(reorderRate >= 0 && reorderRate <= 1)) {
+      throw new RangeError('reorderRate must lie in [0, 1]');
+    }
+    if (!(reorderMaxHoldMs >= 0)) {
+      throw new RangeError('reorderMaxHoldMs must be non-negative');
+    }
+    if (!(processingMs >= 0)) {
+      throw new RangeError('processingMs must be non-negative');
+    }
+    this._time = options.timeSource ?? new SystemTimeSource();
+    this._serverEpoch = this._time.wallNow() + (options.serverOffsetMs ?? 0);
+    this._monotonicEpoch = this._time.monotonicNow();
+    this._serverRate = 1 + (options.serverDriftPpm ?? 0) / 1e6;
+    const latency = options.latency ?? DEFAULT_LATENCY;
+    this._outboundLatency = options.outboundLatency ?? latency;
+    this._returnLatency = options.returnLatency ?? latency;
+    this._processingMs = processingMs;
+    this._lossRate = lossRate;
+    this._duplicateRate = duplicateRate;
+    this._reorderRate = reorderRate;
+    this._reorderMaxHoldMs = reorderMaxHoldMs;
+    this._random = mulberry32(options.seed ?? 1);
+  }
+
+  /**
+   * Carries the ping to the simulated server and schedules its pong.  `t1`
+   * and `t2` are read from the server clock, `t3` from the client's wall
+   * clock on arrival.
+   */
+  sendPing(payload: PingPayload): void {
+    this._stats.sent++;
+    if (this._lose()) return;
+    this._time.setTimeout(
+      () => {
+        const t1 = this.serverNow();
+        this._time.setTimeout(() => {
+          const t2 = this.serverNow();
+          const copies = this._random() < this._duplicateRate ? 2 : 1;
+          this._stats.duplicated += copies - 1;
+          for (let i = 0; i < copies; i++) {
+            if (this._lose()) continue;
+            this._time.setTimeout(
+              () => this._arrive(payload, t1, t2),
+              sampleLatency(this._returnLatency, this._random),
+            );
+          }
+        }, this._processingMs);
+      },
+      sampleLatency(this._outboundLatency, this._random),
+    );
+  }
+
+  onPong(callback: (payload: PongPayload) => void): void {
+    this._pongCallbacks.push(callback);
+  }
+
+  /** Current reading of the simulated server clock, in ms since the Unix epoch. */
+  serverNow(): number {
+    return (
+      this._serverEpoch + (this._time.monotonicNow() - this._monotonicEpoch) * this._serverRate
+    );
+  }
+
+  /** The true current offset: server time minus the client's wall-clock time. */
+  trueOffset(): number {
+    return this.serverNow() - this._time.wallNow();
+  }
+
+  /**
+   * Error of a synced clock's estimate against the simulated server:
+   * positive when the clock runs ahead of the server.
+   *
+   * @param clock - Anything with a `now()` in server time, e.g. a `SyncedClock`.
+   * @returns `clock.now() − serverNow()`, in ms.
+   */
+  measureError(clock: { now(): number }): number {
+    return clock.now() - this.serverNow();
+  }
+
+  /** A snapshot of the message counts so far. */
+  get stats(): SimulatedTransportStats {
+    return { ...this._stats };
+  }
+
+  /**
+   * Delivers a pong that reached the client, unless `reorderRate` holds it
+   * back; a pong delivered while another is held releases that one after it.
+   * A held pong that nothing overtakes is delivered after `reorderMaxHoldMs`.
+   */
+  private _arrive(payload: PingPayload, t1: number, t2: number): void {
+    const deliver = (): void => {
+      this._stats.delivered++;
+      const pong: PongPayload = { ...payload, t1, t2, t3: this._time.wallNow() };
+      for (const callback of this._pongCallbacks) {
+        callback(pong);
+      }
+    };
+    const held = this._heldBack;
+    if (held === null && this._reorderRate > 0 && this._random() < this._reorderRate) {
+      const timer = this._time.setTimeout(() => {
+        this._heldBack = null;
+        deliver();
+      }, this._reorderMaxHoldMs);
+      this._heldBack = { deliver, timer };
+      return;
+    }
+    deliver();
+    if (held !== null) {
+      this._heldBack = null;
+      this._time.clearTimeout(held.timer);
+      held.deliver();
+    }
+  }
+
+  /** Draws whether a message is lost, counting it if so. */
+  private _lose(): boolean {
+    const lost = this._random() < this._lossRate;
+    if (lost) this._stats.lost++;
+    return lost;
+  }
+}
+
+/** Draws one delay (ms, never negative) from `distribution`. */
+function sampleLatency(distribution: LatencyDistribution, random: () => number): number {
+  switch (distribution.type) {
+    case 'constant':
+      return Math.max(0, distribution.ms);
+    case 'uniform':
+      return Math.max(0, distribution.minMs + random() * (distribution.maxMs - distribution.minMs));
+    case 'normal': {
+      // Box–Muller transform; 1 − u keeps the logarithm finite.
+      const u = 1 - random();
+      const v = random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      return Math.max(distribution.minMs ?? 0, distribution.meanMs + z * distribution.stdDevMs);
+    }
+    case 'exponential':
+      return Math.max(0, distribution.minMs - distribution.meanExtraMs * Math.log(1 - random()));
+  }
+}
+
+/** Mulberry32: a small, fast, seedable generator of uniform numbers in `[0, 1)`. */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
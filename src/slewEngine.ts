@@ -1,99 +1,367 @@
+import type { SlewProfile, TimeSource } from './types.js';
+import { SystemTimeSource } from './timeSource.js';
+
 const CONVERGENCE_THRESHOLD_MS = 0.001;
 
+/** Default slew rate: 5 %, i.e. 50 ms of correction per second. */
+const DEFAULT_SLEW_RATE = 0.05;
+
+/** Default {@link SlewEngineOptions.timeConstantMs}. */
+const DEFAULT_TIME_CONSTANT_MS = 1000;
+
+/** Optional settings for {@link SlewEngine}. */
+export interface SlewEngineOptions {
+  /**
+   * Largest rate of clock adjustment, in parts per million of real time.
+   * Takes precedence over the constructor's fractional `slewRate`.
+   * `Infinity` applies every new target at once.
+   */
+  slewRatePpm?: number;
+  /**
+   * Shape of each correction over time.
+   * @defaultValue `"linear"`
+   */
+  profile?: SlewProfile;
+  /**
+   * Time constant (in ms) of the `"exponential"` profile: once the remaining
+   * correction is small enough to be slewed at `gap / timeConstantMs`
+   * without exceeding the slew rate, it decays by a factor of e every
+   * `timeConstantMs`.
+   * @defaultValue `1000`
+   */
+  timeConstantMs?: number;
+  /**
+   * Source of the monotonic clock that slewing is measured against.
+   * @defaultValue a `SystemTimeSource`
+   */
+  timeSource?: TimeSource;
+}
+
 /**
- * Applies clock corrections incrementally ("slewing") using a scale-factor
- * approach so that the synced clock never jumps backward.
+ * Applies clock corrections incrementally ("slewing") at a fixed rate in real
+ * time, so that the synced clock never jumps backward and converges equally
+ * fast however often it is read.
  *
- * Instead of instantly jumping to a new offset, the engine stretches or
- * compresses the perceived passage of time until the target is reached:
- * - A positive target offset → scale > 1 (time runs slightly faster).
- * - A negative target offset → scale < 1 (time runs slightly slower).
+ * The engine tracks a correction offset that moves towards its target by
+ * the slew rate (a fraction, or `slewRatePpm` parts per million) of elapsed
+ * monotonic time
+ * (`performance.now()` unless another {@link TimeSource} is given):
+ * - A target above the offset → scale > 1 (time runs slightly faster).
+ * - A target below the offset → scale < 1 (time runs slightly slower).
+ *
+ * How the rate varies over one correction is the {@link SlewProfile}: a
+ * constant rate (`"linear"`), a rate proportional to the remaining gap
+ * (`"exponential"`, like a phase-locked loop) or a smooth ramp up and down
+ * (`"eased"`).  The slew rate is never exceeded.
+ *
+ * The offset can be added to any real-time reading — {@link now} adds it to
+ * the monotonic clock, {@link SyncedClock.now} to the wall clock — so every
+ * output derived from one engine agrees.  A target may itself drift; once
+ * converged the engine follows it.
  */
 export class SlewEngine {
+  /** Slew rate as a fraction: ms of correction per real ms. */
   private readonly _slewRate: number;
+  private readonly _profile: SlewProfile;
+  private readonly _timeConstantMs: number;
+  private readonly _time: TimeSource;
   private _epochRealTime: number;
-  private _epochSlewedTime: number;
+  private _epochOffset: number = 0;
+  /** Target offset at `_epochRealTime`. */
   private _targetOffset: number = 0;
-  private _scaleFactor: number = 1.0;
+  /** Change of the target offset per real ms. */
+  private _targetRate: number = 0;
+  /** Size of the correction being slewed in, measured relative to the target. */
+  private _gap: number = 0;
+  /** Real time (ms) from the epoch until the correction is complete. */
+  private _duration: number = 0;
+  /** Rate (towards the target, per real ms) at which the correction starts. */
+  private _startVelocity: number = 0;
+  /** Exponential profile: end of the ramp from `_startVelocity` to the slew rate. */
+  private _rampMs: number = 0;
+  /** Exponential profile: end of the slew at the full rate. */
+  private _kneeMs: number = 0;
+  /** Exponential profile: gap left at `_kneeMs`. */
+  private _tailGap: number = 0;
+  /** Exponential profile: `_tailGap / timeConstantMs` minus the rate at `_kneeMs`. */
+  private _tailSlope: number = 0;
   private _lastNow: number = -Infinity;
 
   /**
    * @param slewRate - Fractional rate of clock adjustment per real millisecond
    *   (default `0.05`, meaning the clock runs at most 5 % faster or slower
-   *   than real time).
+   *   than real time).  `Infinity` applies every new target at once.  Ignored
+   *   when `options.slewRatePpm` is set.
+   * @param options - Slew rate in ppm and slew profile settings.
+   * @throws {RangeError} When the slew rate or `options.timeConstantMs` is not
+   *   positive.
    */
-  constructor(slewRate: number = 0.05) {
-    this._slewRate = slewRate;
-    const t = performance.now();
-    this._epochRealTime = t;
-    this._epochSlewedTime = t;
+  constructor(slewRate: number = DEFAULT_SLEW_RATE, options: SlewEngineOptions = {}) {
+    const { profile = 'linear', timeConstantMs = DEFAULT_TIME_CONSTANT_MS } = options;
+    if (options.slewRatePpm !== undefined) {
+      if (!(options.slewRatePpm > 0)) {
+        throw new RangeError('slewRatePpm must be positive');
+      }
+    } else if (!(slewRate > 0)) {
+      throw new RangeError('slewRate must be positive');
+    }
+    if (!(timeConstantMs > 0)) {
+      throw new RangeError('timeConstantMs must be positive');
+    }
+    this._slewRate = options.slewRatePpm !== undefined ? options.slewRatePpm / 1e6 : slewRate;
+    this._profile = profile;
+    this._timeConstantMs = timeConstantMs;
+    this._time = options.timeSource ?? new SystemTimeSource();
+    this._epochRealTime = this._time.monotonicNow();
   }
 
   /**
-   * Updates the target offset and recalculates the internal scale factor.
-   * The current slewed position is re-anchored so that mid-slew direction
-   * changes are handled correctly.
+   * Updates the target offset and recalculates the slew direction.  The
+   * current offset is re-anchored so that mid-slew direction changes are
+   * handled correctly, and with the `"eased"` and `"exponential"` profiles a
+   * mid-slew change carries on from the current rate instead of jumping.
    *
    * @param newTargetOffset - The new desired offset in milliseconds
-   *   (positive = slewed clock should be ahead of `performance.now()`).
+   *   (positive = slewed clock should be ahead of real time).
+   * @param driftPpm - Rate at which the target falls behind real time, in
+   *   parts per million (default `0`, a constant target).
    */
-  setTargetOffset(newTargetOffset: number): void {
-    const realNow = performance.now();
-    this._epochSlewedTime = this._computeSlewed(realNow);
+  setTargetOffset(newTargetOffset: number, driftPpm: number = 0): void {
+    const realNow = this._time.monotonicNow();
+    const elapsed = realNow - this._epochRealTime;
+    const rate = elapsed < this._duration ? this._rate(elapsed) : undefined;
+    this._epochOffset = this._advance(realNow);
     this._epochRealTime = realNow;
     this._targetOffset = newTargetOffset;
-    this._recomputeScaleFactor(realNow);
+    this._targetRate = -driftPpm / 1e6;
+    this._recomputeCurve(rate);
+  }
+
+  /**
+   * Applies a new target offset at once instead of slewing towards it.  A
+   * forward step shows up in the next {@link now}; after a backward step
+   * {@link now} holds its last value until real time catches up.
+   *
+   * @param newTargetOffset - The new offset in milliseconds.
+   * @param driftPpm - As for {@link setTargetOffset}.
+   */
+  step(newTargetOffset: number, driftPpm: number = 0): void {
+    this._epochRealTime = this._time.monotonicNow();
+    this._epochOffset = newTargetOffset;
+    this._targetOffset = newTargetOffset;
+    this._targetRate = -driftPpm / 1e6;
+    this._gap = 0;
+    this._duration = 0;
+  }
+
+  /**
+   * Returns the correction currently applied, in milliseconds.  Unlike
+   * {@link now} it is not clamped for monotonicity.
+   */
+  offset(): number {
+    return this._advance(this._time.monotonicNow());
+  }
+
+  /**
+   * Returns the correction that will be applied `delayMs` of real time from
+   * now, unless the target changes in between.
+   *
+   * @param delayMs - Real time ahead, in milliseconds.
+   */
+  projectedOffset(delayMs: number): number {
+    return this._offsetAt(this._time.monotonicNow() + delayMs);
   }
 
   /**
    * Returns the current slewed time in milliseconds (relative to the
-   * `performance` origin), guaranteed to be monotonically non-decreasing.
+   * monotonic clock's origin), guaranteed to be monotonically non-decreasing.
    *
    * @returns A monotonically increasing timestamp in milliseconds.
    */
   now(): number {
-    const realNow = performance.now();
-    let slewed = this._computeSlewed(realNow);
-
-    const target = realNow + this._targetOffset;
-    if (
-      (this._scaleFactor > 1.0 && slewed >= target) ||
-      (this._scaleFactor < 1.0 && slewed <= target)
-    ) {
-      slewed = target;
-      this._epochSlewedTime = target;
-      this._epochRealTime = realNow;
-      this._scaleFactor = 1.0;
-    }
-
-    const result = Math.max(slewed, this._lastNow);
+    const realNow = this._time.monotonicNow();
+    const result = Math.max(realNow + this._advance(realNow), this._lastNow);
     this._lastNow = result;
     return result;
   }
 
   /**
    * The current time-dilation factor.
-   * - `1.0` = real time (converged or no offset set)
-   * - `> 1.0` = running fast (catching up to a positive target offset)
-   * - `< 1.0` = running slow (catching up to a negative target offset)
+   * - `1.0` = real time (converged on a constant target, or no offset set)
+   * - `> 1.0` = running fast (catching up to a higher target offset)
+   * - `< 1.0` = running slow (catching up to a lower target offset)
    */
   get scaleFactor(): number {
-    return this._scaleFactor;
+    return 1 + this._rate(this._time.monotonicNow() - this._epochRealTime);
+  }
+
+  /**
+   * Real time (in ms) until the current correction is complete; `0` once
+   * converged.
+   */
+  get estimatedConvergenceMs(): number {
+    return Math.max(0, this._duration - (this._time.monotonicNow() - this._epochRealTime));
+  }
+
+  /**
+   * Returns the offset at `realNow`, first re-anchoring on the target if it
+   * has been reached since the last anchor.
+   */
+  private _advance(realNow: number): number {
+    const elapsed = realNow - this._epochRealTime;
+    if (this._duration > 0 && elapsed >= this._duration) {
+      const target = this._targetOffset + this._targetRate * elapsed;
+      this._epochRealTime = realNow;
+      this._epochOffset = target;
+      this._targetOffset = target;
+      this._gap = 0;
+      this._duration = 0;
+      return target;
+    }
+    return this._offsetAt(realNow);
+  }
+
+  /** Returns the offset at `realNow` on the current curve, without re-anchoring. */
+  private _offsetAt(realNow: number): number {
+    const elapsed = realNow - this._epochRealTime;
+    const target = this._targetOffset + this._targetRate * elapsed;
+    if (elapsed >= this._duration) return target;
+    return target - this._gap + Math.sign(this._gap) * this._applied(elapsed);
+  }
+
+  /**
+   * Lays out the curve from `_epochOffset` to `_targetOffset`.
+   *
+   * @param rate - Rate of change of the offset per real ms at the epoch when
+   *   it interrupts a slew; the smooth profiles start from it.  Omitted, each
+   *   profile starts at its own initial rate.
+   */
+  private _recomputeCurve(rate?: number): void {
+    const gap = this._targetOffset - this._epochOffset;
+    if (Math.abs(gap) < CONVERGENCE_THRESHOLD_MS || this._slewRate === Infinity) {
+      this._epochOffset = this._targetOffset;
+      this._gap = 0;
+      this._duration = 0;
+      return;
+    }
+    this._gap = gap;
+    const size = Math.abs(gap);
+    const max = this._slewRate;
+    const tau = this._timeConstantMs;
+    switch (this._profile) {
+      case 'linear':
+        this._startVelocity = max;
+        this._duration = size / max;
+        break;
+      case 'eased': {
+        const v0 = this._carriedVelocity(rate, 0);
+        this._startVelocity = v0;
+        // Cubic from v0 to rest, as fast as keeps its peak rate within the
+        // slew rate; from rest it is smoothstep, 1.5× its average rate.
+        const peakTerm = 2 * max + 2 * Math.sqrt(max * (max - v0));
+        this._duration = (6 * size) / (peakTerm + 2 * v0);
+        break;
+      }
+      case 'exponential': {
+        const v0 = this._carriedVelocity(rate, Math.min(max, size / tau));
+        this._startVelocity = v0;
+        // Accelerate to the slew rate at the decay's own initial deceleration,
+        // slew at it until the rest decays from it, then decay.  When the gap
+        // is too small for that, decay at once, critically damped from v0.
+        const rampMs = (tau * (max - v0)) / max;
+        const rampGap = ((v0 + max) * rampMs) / 2;
+        if (size - rampGap >= max * tau) {
+          this._rampMs = rampMs;
+          this._kneeMs = rampMs + (size - rampGap - max * tau) / max;
+          this._tailGap = max * tau;
+        } else {
+          this._rampMs = 0;
+          this._kneeMs = 0;
+          this._tailGap = size;
+        }
+        this._tailSlope = this._tailGap / tau - (this._kneeMs > 0 ? max : v0);
+        this._duration = this._kneeMs + this._tailSettleMs();
+        break;
+      }
+    }
   }
 
-  private _computeSlewed(realNow: number): number {
-    return this._epochSlewedTime + (realNow - this._epochRealTime) * this._scaleFactor;
+  /**
+   * Rate towards the new target (per real ms, within the slew rate) that
+   * continues `rate`; `initial` when there is no slew to continue.
+   */
+  private _carriedVelocity(rate: number | undefined, initial: number): number {
+    if (rate === undefined) return initial;
+    const velocity = Math.sign(this._gap) * (rate - this._targetRate);
+    return Math.min(this._slewRate, Math.max(-this._slewRate, velocity));
   }
 
-  private _recomputeScaleFactor(realNow: number): void {
-    const target = realNow + this._targetOffset;
-    const gap = target - this._epochSlewedTime;
-    if (Math.abs(gap) < CONVERGENCE_THRESHOLD_MS) {
-      this._scaleFactor = 1.0;
-    } else if (gap > 0) {
-      this._scaleFactor = 1 + this._slewRate;
-    } else {
-      this._scaleFactor = 1 - this._slewRate;
+  /** Rate of change of the offset per real ms, `elapsed` ms after the epoch. */
+  private _rate(elapsed: number): number {
+    if (elapsed >= this._duration) return this._targetRate;
+    return this._targetRate + Math.sign(this._gap) * this._velocity(elapsed);
+  }
+
+  /**
+   * Correction (in ms, towards the target) applied `elapsed` ms into the
+   * current curve, for `elapsed` below its duration.
+   */
+  private _applied(elapsed: number): number {
+    const size = Math.abs(this._gap);
+    const v0 = this._startVelocity;
+    switch (this._profile) {
+      case 'linear':
+        return this._slewRate * elapsed;
+      case 'eased': {
+        const u = elapsed / this._duration;
+        return size * u * u * (3 - 2 * u) + v0 * this._duration * u * (1 - u) * (1 - u);
+      }
+      case 'exponential': {
+        const acceleration = this._slewRate / this._timeConstantMs;
+        if (elapsed < this._rampMs) return v0 * elapsed + (acceleration * elapsed * elapsed) / 2;
+        const rampGap = ((v0 + this._slewRate) * this._rampMs) / 2;
+        if (elapsed < this._kneeMs) return rampGap + this._slewRate * (elapsed - this._rampMs);
+        const t = elapsed - this._kneeMs;
+        return size - (this._tailGap + this._tailSlope * t) * Math.exp(-t / this._timeConstantMs);
+      }
+    }
+  }
+
+  /** Time derivative of {@link _applied}. */
+  private _velocity(elapsed: number): number {
+    const v0 = this._startVelocity;
+    switch (this._profile) {
+      case 'linear':
+        return this._slewRate;
+      case 'eased': {
+        const u = elapsed / this._duration;
+        return (
+          (6 * Math.abs(this._gap) * u * (1 - u)) / this._duration + v0 * (1 - u) * (1 - 3 * u)
+        );
+      }
+      case 'exponential': {
+        const tau = this._timeConstantMs;
+        if (elapsed < this._rampMs) return v0 + (this._slewRate / tau) * elapsed;
+        if (elapsed < this._kneeMs) return this._slewRate;
+        const t = elapsed - this._kneeMs;
+        return ((this._tailGap + this._tailSlope * t) / tau - this._tailSlope) * Math.exp(-t / tau);
+      }
+    }
+  }
+
+  /**
+   * Exponential profile: real time from `_kneeMs` until the gap left,
+   * `(tailGap + tailSlope·t)·e^(−t/τ)`, is within the convergence threshold
+   * for good.
+   */
+  private _tailSettleMs(): number {
+    const tau = this._timeConstantMs;
+    const slope = Math.abs(this._tailSlope);
+    let settle = 0;
+    for (let i = 0; i < 32; i++) {
+      settle =
+        tau * Math.max(0, Math.log((this._tailGap + slope * settle) / CONVERGENCE_THRESHOLD_MS));
     }
+    return settle;
   }
 }
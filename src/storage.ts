@@ -0,0 +1,168 @@
+import type { ClockStorage, PersistedClockState } from './types.js';
+
+/** Default {@link LocalStorageClockStorageOptions.key}. */
+const DEFAULT_STORAGE_KEY = 'universal-time-sync';
+
+/**
+ * Minimal structural view of the Web Storage API.  The browser's
+ * `localStorage` and `sessionStorage` both satisfy it.
+ */
+export interface WebStorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Minimal structural view of Node's synchronous file API, so that no runtime
+ * dependency on `node:fs` is required.  The `fs` module satisfies it.
+ */
+export interface FileSystemLike {
+  readFileSync(path: string, encoding: 'utf8'): string;
+  writeFileSync(path: string, data: string): void;
+}
+
+/** Configuration object passed to the {@link LocalStorageClockStorage} constructor. */
+export interface LocalStorageClockStorageOptions {
+  /**
+   * Key under which the state is stored.  Use distinct keys for clocks
+   * synced against different servers.
+   * @defaultValue `"universal-time-sync"`
+   */
+  key?: string;
+  /**
+   * Storage to use.
+   * @defaultValue `globalThis.localStorage`
+   */
+  storage?: WebStorageLike;
+}
+
+/** Configuration object passed to the {@link FileClockStorage} constructor. */
+export interface FileClockStorageOptions {
+  /** Path of the JSON file holding the state. */
+  path: string;
+  /** File system implementation, typically `import fs from 'node:fs'`. */
+  fs: FileSystemLike;
+}
+
+/**
+ * A {@link ClockStorage} that keeps the state in memory — enough to carry it
+ * from one `SyncedClock` to its replacement within the same process, and
+ * handy in tests.
+ */
+export class MemoryClockStorage implements ClockStorage {
+  private _state: PersistedClockState | null = null;
+
+  load(): PersistedClockState | null {
+    return this._state === null ? null : structuredClone(this._state);
+  }
+
+  save(state: PersistedClockState): void {
+    this._state = structuredClone(state);
+  }
+}
+
+/**
+ * A {@link ClockStorage} backed by the browser's `localStorage`, so that a
+ * reloaded page warm-starts.
+ *
+ * @example
+ * ```ts
+ * const clock = new SyncedClock({ ...config, storage: new LocalStorageClockStorage() });
+ * ```
+ */
+export class LocalStorageClockStorage implements ClockStorage {
+  private readonly _key: string;
+  private readonly _storage: WebStorageLike;
+
+  /**
+   * @param options - Storage configuration.
+   * @throws {TypeError} When no `storage` is given and there is no global
+   *   `localStorage`.
+   */
+  constructor(options: LocalStorageClockStorageOptions = {}) {
+    const storage =
+      options.storage ?? (globalThis as { localStorage?: WebStorageLike }).localStorage;
+    if (storage === undefined) {
+      throw new TypeError('No global localStorage available; pass a storage implementation');
+    }
+    this._key = options.key ?? DEFAULT_STORAGE_KEY;
+    this._storage = storage;
+  }
+
+  load(): PersistedClockState | null {
+    return parseClockState(this._storage.getItem(this._key));
+  }
+
+  save(state: PersistedClockState): void {
+    this._storage.setItem(this._key, JSON.stringify(state));
+  }
+}
+
+/**
+ * A {@link ClockStorage} that writes the state to a JSON file, so that a
+ * restarted Node process warm-starts.
+ *
+ * @example
+ * ```ts
+ * import fs from 'node:fs';
+ * const storage = new FileClockStorage({ path: '/var/lib/app/clock.json', fs });
+ * ```
+ */
+export class FileClockStorage implements ClockStorage {
+  private readonly _path: string;
+  private readonly _fs: FileSystemLike;
+
+  /** @param options - Storage configuration. */
+  constructor(options: FileClockStorageOptions) {
+    this._path = options.path;
+    this._fs = options.fs;
+  }
+
+  /** Returns `null` when the file is missing or unreadable as well as when it is malformed. */
+  load(): PersistedClockState | null {
+    let json: string;
+    try {
+      json = this._fs.readFileSync(this._path, 'utf8');
+    } catch {
+      return null;
+    }
+    return parseClockState(json);
+  }
+
+  save(state: PersistedClockState): void {
+    this._fs.writeFileSync(this._path, JSON.stringify(state));
+  }
+}
+
+/**
+ * Parses a JSON-serialized {@link PersistedClockState}, returning `null` for
+ * anything that is not a well-formed state of the current version.
+ */
+function parseClockState(json: string | null): PersistedClockState | null {
+  if (json === null) return null;
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof value !== 'object' || value === null) return null;
+  const state = value as Record<string, unknown>;
+  const numeric = ['savedAt', 'offset', 'syncedAt', 'driftPpm', 'errorMs', 'lastNow'];
+  if (state.version !== 1 || !numeric.every((key) => Number.isFinite(state[key]))) {
+    return null;
+  }
+  if (!Array.isArray(state.samples) || !state.samples.every(isSample)) return null;
+  return value as PersistedClockState;
+}
+
+function isSample(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const { rtt, offset, timestamp, weight } = value as Record<string, unknown>;
+  return (
+    Number.isFinite(rtt) &&
+    Number.isFinite(offset) &&
+    Number.isFinite(timestamp) &&
+    (weight === undefined || (Number.isFinite(weight) && (weight as number) >= 0))
+  );
+}
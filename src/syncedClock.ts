@@ -5,15 +5,119 @@ import type {
   PingPayload,
   SyncState,
   SyncEventMap,
+  SyncErrorReason,
+  SyncSource,
+  OffsetInterval,
+  TimeInterval,
+  SyncStats,
+  HealthStatus,
+  PathAsymmetry,
+  StepPolicy,
+  PersistedClockState,
+  TimeSource,
+  TimerHandle,
+  ScheduleInfo,
+  ScheduledTask,
 } from './types.js';
-import { calculateRTT, calculateOffset } from './timeMath.js';
+import {
+  calculateRTT,
+  calculateOffset,
+  calculateMean,
+  calculateStdDev,
+  calculateMedian,
+  marzullo,
+  estimateAsymmetry,
+} from './timeMath.js';
 import { FilterEngine } from './filterEngine.js';
 import { SlewEngine } from './slewEngine.js';
+import { SystemTimeSource } from './timeSource.js';
 import { EventEmitter } from './eventEmitter.js';
+import { validatePong } from './sampleValidator.js';
+import { Metronome } from './metronome.js';
+import type { MetronomeOptions } from './metronome.js';
+import { CronScheduler } from './cronScheduler.js';
+import type { CronJobOptions } from './cronScheduler.js';
+import { MediaSyncController } from './mediaSyncController.js';
+import type { MediaElementLike, MediaSyncOptions } from './mediaSyncController.js';
 
 /** Default offset magnitude (ms) above which a `"drift_warning"` event is emitted. */
 const DEFAULT_DRIFT_WARNING_THRESHOLD_MS = 500;
 
+/** Number of most recent ping outcomes over which {@link SyncedClock.lossRate} is computed. */
+const LOSS_WINDOW_SIZE = 32;
+
+/** Default {@link AdaptivePollConfig.stabilityThresholdMs}. */
+const DEFAULT_STABILITY_THRESHOLD_MS = 5;
+
+/** Default {@link InitialBurstConfig.intervalMs}. */
+const DEFAULT_BURST_INTERVAL_MS = 250;
+
+/** Default {@link InitialBurstConfig.deadlineMs}. */
+const DEFAULT_BURST_DEADLINE_MS = 10_000;
+
+/** Default {@link SyncConfig.dispersionRatePpm}: NTP's frequency tolerance, PHI. */
+const DEFAULT_DISPERSION_RATE_PPM = 15;
+
+/** Default {@link StepPolicy.panicRecoveryRounds}. */
+const DEFAULT_PANIC_RECOVERY_ROUNDS = 3;
+
+/** Health score below which a healthy clock is declared degraded. */
+const HEALTH_DEGRADED_BELOW = 0.5;
+
+/** Health score at or above which a degraded clock is declared healthy again. */
+const HEALTH_RECOVERED_AT = 0.7;
+
+/** Error bound (ms) at which the precision component of the health score halves. */
+const HEALTH_PRECISION_SCALE_MS = 100;
+
+/** Default {@link AsymmetryCalibrationConfig.samples}. */
+const DEFAULT_CALIBRATION_SAMPLES = 8;
+
+/** Default {@link SyncConfig.restoredStateMaxAgeMs}: one hour. */
+const DEFAULT_RESTORED_STATE_MAX_AGE_MS = 3_600_000;
+
+/** Source id used when the clock is configured with a single `transportAdapter`. */
+const DEFAULT_SOURCE_ID = 'default';
+
+/** Default {@link SyncConfig.scheduleTailMs}. */
+const DEFAULT_SCHEDULE_TAIL_MS = 20;
+
+/** Longest delay host timers accept; longer ones fire at once. */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+/** One poll of every configured source; completes once each ping has settled. */
+interface SyncRound {
+  outstanding: number;
+  results: Array<{
+    sourceId: string;
+    sample: SyncSample;
+    interval: OffsetInterval;
+    /** The offset as measured, before any path-asymmetry correction. */
+    rawOffset: number;
+  }>;
+}
+
+/** A ping that has been sent and is awaiting its pong. */
+interface PendingPing {
+  t0: number;
+  sourceId: string;
+  round: SyncRound;
+  timer: TimerHandle;
+}
+
+/** A pending {@link SyncedClock.commitWait} call. */
+interface CommitWaiter {
+  timer: TimerHandle | null;
+  reject: (error: Error) => void;
+}
+
+/** A callback pending from {@link SyncedClock.scheduleAt}. */
+interface PendingSchedule {
+  targetTime: number;
+  callback: (info: ScheduleInfo) => void;
+  timer: TimerHandle | null;
+}
+
 /**
  * A high-level clock that synchronises its `now()` value with a remote time
  * server using NTP-style mathematics.
@@ -31,12 +135,41 @@ const DEFAULT_DRIFT_WARNING_THRESHOLD_MS = 500;
  */
 export class SyncedClock {
   private readonly _config: SyncConfig;
+  private readonly _time: TimeSource;
   private readonly _filterEngine: FilterEngine;
   private readonly _slewEngine: SlewEngine;
-  private _offset: number = 0;
+  private readonly _sources: SyncSource[];
   private _targetOffset: number = 0;
+  /** Local time at which `_targetOffset` was estimated. */
+  private _targetOffsetAt: number = 0;
+  private _driftPpm: number = 0;
+  /** Skips the panic check for the next round, e.g. after a sleep. */
+  private _panicExempt: boolean = false;
+  /**
+   * Consecutive rounds rejected by the panic check, and the offset interval
+   * they all agree on.
+   */
+  private _panicStreak: { rounds: number; lower: number; upper: number } | null = null;
+  /** Standard error (ppm) of `_driftPpm`, added to the dispersion rate. */
+  private _driftStdErrorPpm: number = 0;
+  /** Error bound (ms) of `_targetOffset` at the time it was estimated. */
+  private _syncErrorMs: number = Infinity;
+  private readonly _commitWaiters: Set<CommitWaiter> = new Set();
+  private readonly _schedules: Set<PendingSchedule> = new Set();
+  /** Schedulers from {@link createCronScheduler}, whose jobs {@link destroy} stops. */
+  private readonly _cronSchedulers: Set<CronScheduler> = new Set();
+  /** Fires when the slew in progress should be complete. */
+  private _slewTimer: TimerHandle | null = null;
+  private _slewing: boolean = false;
+
+  // ── Quality statistics ─────────────────────────────────────────────────────
+  private _lastSyncAt: number | null = null;
+  private _rejectedCount: number = 0;
+  private _healthStatus: HealthStatus = 'degraded';
+  private _driftWarningActive: boolean = false;
   private _lastNow: number = 0;
-  private _intervalId: ReturnType<typeof setInterval> | null = null;
+  private _pollTimer: TimerHandle | null = null;
+  private _pollIntervalMs: number;
   private _msgCounter: number = 0;
 
   // ── State machine ──────────────────────────────────────────────────────────
@@ -49,6 +182,35 @@ export class SyncedClock {
   // ── Browser visibility ─────────────────────────────────────────────────────
   private _visibilityHandler: (() => void) | null = null;
 
+  // ── Path asymmetry ─────────────────────────────────────────────────────────
+  private readonly _asymmetry: Map<string, PathAsymmetry> = new Map();
+  /** Bias observations of the sources still being calibrated. */
+  private readonly _calibration: Map<string, Array<{ rtt: number; bias: number }>> = new Map();
+
+  // ── Warm start ─────────────────────────────────────────────────────────────
+  private _provisional: boolean = false;
+  private _provisionalTimer: TimerHandle | null = null;
+  /**
+   * What {@link ClockStorage.load} threw in the constructor, held until
+   * {@link start} so that listeners can hear about it.
+   */
+  private _loadError: { error: unknown } | null = null;
+
+  // ── Transport connection ───────────────────────────────────────────────────
+  private readonly _connectedSources: Map<string, boolean> = new Map();
+
+  // ── In-flight pings ────────────────────────────────────────────────────────
+  private readonly _pending: Map<string, PendingPing> = new Map();
+  /** Recently settled ping ids, used to classify stray pongs. */
+  private readonly _settled: Map<string, 'answered' | 'timed_out'> = new Map();
+  /** Rolling window of recent ping outcomes: `true` = lost. */
+  private _outcomes: boolean[] = [];
+
+  // ── Initial burst ──────────────────────────────────────────────────────────
+  private readonly _burstMinSamples: number;
+  private _bursting: boolean = false;
+  private _burstTimers: Array<TimerHandle> = [];
+
   /**
    * Observable event emitter.  Subscribe to lifecycle events using
    * `clock.events.on(eventName, callback)`.
@@ -63,12 +225,75 @@ export class SyncedClock {
 
   /**
    * @param config - Full configuration for the sync clock.
+   * @throws {TypeError} When neither or both of `transportAdapter` and
+   *   `sources` are given, when source ids are not unique, or when
+   *   `asymmetryCalibration.referenceSourceId` names no source.
+   * @throws {RangeError} When `initialBurst.count` is not a positive integer,
+   *   or `initialBurst.minSamples` is not an integer between `1` and `count`.
+   * @throws {RangeError} When `asymmetryCalibration.samples` is not a
+   *   positive integer.
+   * @throws {RangeError} When `slewRatePpm`, `slewTimeConstantMs` or a
+   *   `stepPolicy` threshold is not positive.
+   * @throws {RangeError} When `scheduleTailMs` is negative.
    */
   constructor(config: SyncConfig) {
     this._config = config;
-    this._filterEngine = new FilterEngine(config.historySize, config.outlierThreshold);
-    this._slewEngine = new SlewEngine();
-    config.transportAdapter.onPong((pong) => this._handlePong(pong));
+    this._time = config.timeSource ?? new SystemTimeSource();
+    this._filterEngine = new FilterEngine(config.historySize, config.outlierThreshold, {
+      estimator: config.offsetEstimator,
+      maxSampleAgeMs: config.maxSampleAgeMs,
+      halfLifeMs: config.sampleHalfLifeMs,
+    });
+    this._slewEngine = new SlewEngine(undefined, {
+      slewRatePpm: resolveSlewRatePpm(config),
+      profile: config.slewProfile,
+      timeConstantMs: config.slewTimeConstantMs,
+      timeSource: this._time,
+    });
+    this._sources = resolveSources(config);
+    this._pollIntervalMs = config.adaptivePoll
+      ? Math.min(
+          Math.max(config.syncIntervalMs, config.adaptivePoll.minIntervalMs),
+          config.adaptivePoll.maxIntervalMs,
+        )
+      : config.syncIntervalMs;
+
+    this._burstMinSamples = resolveBurstMinSamples(config);
+    if (config.stepPolicy) validateStepPolicy(config.stepPolicy);
+    if (!((config.scheduleTailMs ?? DEFAULT_SCHEDULE_TAIL_MS) >= 0)) {
+      throw new RangeError('scheduleTailMs must be non-negative');
+    }
+
+    const calibration = config.asymmetryCalibration;
+    if (calibration) {
+      if (!this._sources.some(({ id }) => id === calibration.referenceSourceId)) {
+        throw new TypeError(
+          `asymmetryCalibration.referenceSourceId "${calibration.referenceSourceId}" names no source`,
+        );
+      }
+      const samples = calibration.samples ?? DEFAULT_CALIBRATION_SAMPLES;
+      if (!Number.isInteger(samples) || samples < 1) {
+        throw new RangeError('asymmetryCalibration.samples must be a positive integer');
+      }
+    }
+
+    for (const source of this._sources) {
+      const { id, transportAdapter } = source;
+      this._asymmetry.set(id, source.pathAsymmetry ?? config.pathAsymmetry ?? {});
+      if (calibration && id !== calibration.referenceSourceId) {
+        this._calibration.set(id, []);
+      }
+      transportAdapter.onPong((pong) => this._handlePong(id, pong));
+      // Transports that report their link state start out disconnected until
+      // they say otherwise; all others are assumed to be always reachable.
+      this._connectedSources.set(id, transportAdapter.onConnectionChange === undefined);
+      transportAdapter.onConnectionChange?.((connected) =>
+        this._handleConnectionChange(id, connected),
+      );
+      transportAdapter.onError?.((error, ping) => this._handleTransportError(ping.id, error));
+    }
+
+    this._restoreState();
   }
 
   // ── Public API ─────────────────────────────────────────────────────────────
@@ -79,8 +304,15 @@ export class SyncedClock {
    *
    * Guarantees:
    * - **Monotonic** — the return value never decreases between calls.
-   * - **Slewed** — large offset corrections are applied gradually at most
-   *   `timeSlewRate` ms per call, preventing backwards jumps.
+   * - **Slewed** — offset corrections are applied gradually, at
+   *   `slewRatePpm` of elapsed real time, preventing backwards jumps.  The
+   *   slew progresses with time, not with calls, and is shared with
+   *   {@link performanceNow}.  Corrections
+   *   stepped under {@link SyncConfig.stepPolicy} apply at once, except that
+   *   after a backward step the value holds until real time catches up.
+   * - **Drift-compensated** — between syncs the offset is extrapolated using
+   *   the estimated {@link driftPpm}, so a fast or slow local crystal does not
+   *   accumulate error until the next poll.
    *
    * Before the first sync completes the method returns an un-corrected
    * `Date.now()`.  Use {@link waitForInitialSync} if you need a guaranteed
@@ -89,12 +321,7 @@ export class SyncedClock {
    * @returns Milliseconds since the Unix epoch.
    */
   now(): number {
-    const real = Date.now();
-    const slew =
-      Math.min(Math.abs(this._targetOffset - this._offset), this._config.timeSlewRate) *
-      Math.sign(this._targetOffset - this._offset);
-    this._offset += slew;
-    const candidate = real + this._offset;
+    const candidate = this._time.wallNow() + this._slewEngine.offset();
     if (candidate <= this._lastNow) {
       return this._lastNow;
     }
@@ -102,10 +329,208 @@ export class SyncedClock {
     return this._lastNow;
   }
 
+  /**
+   * Returns an interval guaranteed to contain the true server time, in the
+   * manner of Spanner's TrueTime.
+   *
+   * The interval is centred on the drift-compensated offset estimate — which
+   * may differ from {@link now} while a correction is still being slewed in.
+   * Its half-width is the error bound at the last sync (half the round trip
+   * of the best sample, plus that sample's distance from the filtered
+   * estimate), widened by `dispersionRatePpm` plus the standard error of
+   * the drift estimate for every millisecond since.
+   *
+   * Before the clock is `"SYNCED"` the interval is unbounded.
+   *
+   * @returns The `{ earliest, latest }` bounds in ms since the Unix epoch.
+   */
+  nowInterval(): TimeInterval {
+    if (this._state !== 'SYNCED') {
+      return { earliest: -Infinity, latest: Infinity };
+    }
+    const real = this._time.wallNow();
+    const centre = real + this._predictedOffset(real);
+    const dispersionRate =
+      ((this._config.dispersionRatePpm ?? DEFAULT_DISPERSION_RATE_PPM) + this._driftStdErrorPpm) /
+      1e6;
+    const error = this._syncErrorMs + dispersionRate * (real - this._targetOffsetAt);
+    return { earliest: centre - error, latest: centre + error };
+  }
+
+  /**
+   * Whether `ts` has definitely passed: even the earliest possible current
+   * time is later than it.  Always `false` before the first sync.
+   *
+   * @param ts - Server time in ms since the Unix epoch.
+   */
+  definitelyAfter(ts: number): boolean {
+    return this.nowInterval().earliest > ts;
+  }
+
+  /**
+   * Whether `ts` has definitely not arrived yet: even the latest possible
+   * current time is earlier than it.  Always `false` before the first sync.
+   *
+   * @param ts - Server time in ms since the Unix epoch.
+   */
+  definitelyBefore(ts: number): boolean {
+    return this.nowInterval().latest < ts;
+  }
+
+  /**
+   * Resolves once `ts` has definitely passed ({@link definitelyAfter}), first
+   * waiting for the initial sync if necessary.  Because every synced client's
+   * interval contains the true time, a timestamp `ts` assigned to a write
+   * before awaiting `commitWait(ts)` is then in the past for all of them,
+   * which orders the write before anything they subsequently timestamp.
+   *
+   * The wait is roughly the width of the current uncertainty interval.
+   *
+   * @param ts - Server time in ms since the Unix epoch.
+   * @returns A promise that rejects if the clock is destroyed first.
+   *
+   * @example
+   * ```ts
+   * const ts = clock.nowInterval().latest;
+   * await clock.commitWait(ts);
+   * await db.write({ ...record, ts }); // ts is now in the past on every synced client
+   * ```
+   */
+  commitWait(ts: number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const waiter: CommitWaiter = { timer: null, reject };
+      this._commitWaiters.add(waiter);
+      const check = (): void => {
+        if (!this._commitWaiters.has(waiter)) return;
+        const { earliest } = this.nowInterval();
+        if (earliest > ts) {
+          this._commitWaiters.delete(waiter);
+          resolve();
+        } else if (this._state === 'SYNCED') {
+          // `earliest` advances at almost exactly real-time speed, so this
+          // usually succeeds on the next check.
+          waiter.timer = this._time.setTimeout(check, Math.ceil(ts - earliest) + 1);
+        } else {
+          this._syncedResolvers.push(check);
+        }
+      };
+      check();
+    });
+  }
+
+  /**
+   * Runs `callback` once {@link now} reaches `ts`, on every device at the
+   * same server time.
+   *
+   * The wait is re-armed whenever a sync changes the offset, and ends with
+   * a tail of short waits (see {@link SyncConfig.scheduleTailMs}) re-checked
+   * against {@link now}, so neither slewing nor the host timer's own drift
+   * makes the callback early.  It can still run late — when the event loop
+   * is busy or the host sleeps — and reports by how much.  A `ts` already
+   * past runs on the next tick.  Before the first sync the target is
+   * measured against the uncorrected clock, and re-armed once it syncs.
+   *
+   * @param ts - Server time in ms since the Unix epoch.
+   * @param callback - Invoked once, with the timing details.
+   * @returns A handle for cancelling the callback.
+   * @throws {RangeError} When `ts` is not finite.
+   *
+   * @example
+   * ```ts
+   * clock.scheduleAt(startAt, ({ latenessMs }) => player.play(latenessMs / 1000));
+   * ```
+   */
+  scheduleAt(ts: number, callback: (info: ScheduleInfo) => void): ScheduledTask {
+    if (!Number.isFinite(ts)) {
+      throw new RangeError('scheduleAt() requires a finite timestamp');
+    }
+    const schedule: PendingSchedule = { targetTime: ts, callback, timer: null };
+    this._schedules.add(schedule);
+    this._armSchedule(schedule);
+    const schedules = this._schedules;
+    return {
+      targetTime: ts,
+      get pending(): boolean {
+        return schedules.has(schedule);
+      },
+      cancel: (): void => {
+        if (!schedules.delete(schedule)) return;
+        if (schedule.timer !== null) this._time.clearTimeout(schedule.timer);
+      },
+    };
+  }
+
+  /**
+   * Runs `callback` once `ms` have passed on this clock: a synced
+   * counterpart of the global `setTimeout`, equivalent to
+   * `scheduleAt(now() + ms, callback)`.
+   *
+   * @param callback - Invoked once, with the timing details.
+   * @param ms - Delay in milliseconds of synced time.
+   * @returns A handle for cancelling the callback.
+   * @throws {RangeError} When `ms` is not finite.
+   */
+  setTimeout(callback: (info: ScheduleInfo) => void, ms: number): ScheduledTask {
+    if (!Number.isFinite(ms)) {
+      throw new RangeError('setTimeout() requires a finite delay');
+    }
+    return this.scheduleAt(this.now() + ms, callback);
+  }
+
+  /**
+   * Creates a {@link Metronome} ticking on this clock: beat `n` falls at
+   * `phaseOriginMs + n × periodMs` of server time on every device.  It is
+   * created stopped; call its `start()`.  Destroying the clock silences it.
+   *
+   * @param options - Tempo (`periodMs` or `bpm`), phase origin, bar length
+   *   and lookahead.
+   * @returns The new metronome.
+   * @throws {TypeError} When neither or both of `periodMs` and `bpm` are given.
+   * @throws {RangeError} When an option is out of range; see {@link Metronome}.
+   */
+  createMetronome(options: MetronomeOptions): Metronome {
+    return new Metronome(this, options);
+  }
+
+  /**
+   * Creates a {@link CronScheduler} whose jobs fire at UTC cron occurrences
+   * of this clock's synced time, and catch up on the occurrences missed
+   * while the host slept.
+   *
+   * Its jobs are stopped when the clock is destroyed.
+   *
+   * @param defaults - Catch-up settings for jobs that do not override them.
+   * @returns The new scheduler.
+   * @throws {RangeError} When `lateToleranceMs` is negative.
+   */
+  createCronScheduler(defaults?: CronJobOptions): CronScheduler {
+    const scheduler = new CronScheduler(this, defaults);
+    this._cronSchedulers.add(scheduler);
+    return scheduler;
+  }
+
+  /**
+   * Creates a {@link MediaSyncController} that keeps `media` playing in
+   * line with a timeline expressed in this clock's synced time.  It is
+   * created stopped; call its `start()`.
+   *
+   * @param media - An `HTMLMediaElement`, or anything shaped like one.
+   * @param options - Timeline and correction tolerances.
+   * @returns The new controller.
+   * @throws {RangeError} When an option is out of range; see
+   *   {@link MediaSyncController}.
+   */
+  createMediaSyncController(
+    media: MediaElementLike,
+    options: MediaSyncOptions,
+  ): MediaSyncController {
+    return new MediaSyncController(this, media, options);
+  }
+
   /**
    * Returns the current slewed time sourced from `performance.now()` — useful
    * when sub-millisecond monotonic precision matters more than an absolute
-   * wall-clock timestamp.
+   * wall-clock timestamp.  It carries the same correction as {@link now}.
    *
    * @returns Milliseconds since the performance origin.
    */
@@ -117,17 +542,173 @@ export class SyncedClock {
    * The current synchronisation state.
    *
    * - `"UNSYNCED"` — no sync round-trip has completed.
-   * - `"SYNCING"` — a ping has been sent; waiting for the first pong.
+   * - `"SYNCING"` — a ping has been sent; waiting for the first pong (or, with
+   *   {@link SyncConfig.initialBurst}, for enough filtered samples).
    * - `"SYNCED"` — at least one pong has been received and the offset applied.
    */
   get state(): SyncState {
     return this._state;
   }
 
+  /**
+   * Estimated frequency error of the local clock relative to the server, in
+   * parts per million: positive when the local clock runs fast.  `0` until
+   * at least two samples have been collected.
+   *
+   * A 50 ppm error accumulates 180 ms per hour, which {@link now}
+   * compensates for continuously.
+   */
+  get driftPpm(): number {
+    return this._driftPpm;
+  }
+
+  /**
+   * Real time (in ms) until the correction currently being slewed in is
+   * complete, as determined by `slewRatePpm` and `slewProfile`; `0` once the
+   * clock has settled.  A `"slew_complete"` event follows when it reaches `0`.
+   *
+   * @example
+   * ```ts
+   * if (clock.estimatedConvergenceMs > 0) {
+   *   await new Promise<void>((resolve) => {
+   *     const off = clock.events.on('slew_complete', () => {
+   *       off();
+   *       resolve();
+   *     });
+   *   });
+   * }
+   * player.start(clock.now());
+   * ```
+   */
+  get estimatedConvergenceMs(): number {
+    return this._slewEngine.estimatedConvergenceMs;
+  }
+
+  /**
+   * Fraction (`0`–`1`) of the most recent pings that were lost — timed out or
+   * failed to send — as opposed to answered.  `0` before any ping settles.
+   *
+   * A high loss rate with normal RTTs indicates an unreachable server rather
+   * than a slow one.
+   */
+  get lossRate(): number {
+    if (this._outcomes.length === 0) return 0;
+    return this._outcomes.filter((lost) => lost).length / this._outcomes.length;
+  }
+
+  /**
+   * The current interval (in ms) between polls.  Constant at `syncIntervalMs`
+   * unless {@link SyncConfig.adaptivePoll} is enabled.
+   */
+  get pollIntervalMs(): number {
+    return this._pollIntervalMs;
+  }
+
+  /**
+   * Whether the clock is `"SYNCED"` only by virtue of a state restored from
+   * {@link SyncConfig.storage}, rather than a sync completed since
+   * construction.  Cleared by the first completed sync round; if none
+   * completes within `restoredStateMaxAgeMs` of the persisted sync, the clock
+   * reverts to `"UNSYNCED"`.  Its health score reflects the persisted sync's
+   * age.
+   */
+  get provisional(): boolean {
+    return this._provisional;
+  }
+
+  /**
+   * Returns the path asymmetry currently applied to a source's samples:
+   * the configured value, or the result of calibration once it completes.
+   *
+   * @param sourceId - Source id; omit for a single-`transportAdapter` clock.
+   * @returns A copy of the asymmetry, or `undefined` for an unknown source.
+   */
+  getPathAsymmetry(sourceId: string = DEFAULT_SOURCE_ID): PathAsymmetry | undefined {
+    const asymmetry = this._asymmetry.get(sourceId);
+    return asymmetry === undefined ? undefined : { ...asymmetry };
+  }
+
+  /**
+   * Whether at least one source's transport is currently connected.  Always
+   * `true` for transports that do not implement
+   * {@link TransportAdapter.onConnectionChange}.
+   */
+  get connected(): boolean {
+    for (const connected of this._connectedSources.values()) {
+      if (connected) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Returns a snapshot of sync quality: offsets, jitter, error bound, RTT
+   * statistics, rejection and loss counts, and the derived health score.
+   *
+   * @returns A fresh {@link SyncStats} object.
+   *
+   * @example
+   * ```ts
+   * const { health, dispersion, lastSyncAgeMs } = clock.getStats();
+   * ```
+   */
+  getStats(): SyncStats {
+    const now = this._time.wallNow();
+    const rtts = this._filterEngine.getHistory().map((sample) => sample.rtt);
+    const targetOffset = this._predictedOffset(now);
+    const offset = this._slewEngine.offset();
+    const { earliest, latest } = this.nowInterval();
+    return {
+      offset,
+      targetOffset,
+      slewRemaining: targetOffset - offset,
+      jitter: this._filterEngine.getJitter(),
+      dispersion: (latest - earliest) / 2,
+      minRtt: rtts.length > 0 ? Math.min(...rtts) : null,
+      medianRtt: rtts.length > 0 ? calculateMedian(rtts) : null,
+      sampleCount: rtts.length,
+      rejectedCount: this._rejectedCount,
+      lastSyncAgeMs: this._lastSyncAt === null ? null : now - this._lastSyncAt,
+      lossRate: this.lossRate,
+      health: this._computeHealth(now),
+      status: this._healthStatus,
+    };
+  }
+
+  /**
+   * Writes the offset, drift estimate, error bound, sample history and the
+   * last value returned by {@link now} to {@link SyncConfig.storage}.
+   * Called automatically after every sync round, when the page is hidden,
+   * and by {@link stop}; call it before a process exits so that the
+   * persisted value covers every timestamp handed out.
+   *
+   * A no-op without storage or before the first sync.  Errors thrown by the
+   * storage are reported as a `"sync_error"` with reason `"storage_error"`.
+   */
+  saveState(): void {
+    const storage = this._config.storage;
+    if (storage === undefined || this._lastSyncAt === null) return;
+    const state: PersistedClockState = {
+      version: 1,
+      savedAt: this._time.wallNow(),
+      offset: this._targetOffset,
+      syncedAt: this._targetOffsetAt,
+      driftPpm: this._driftPpm,
+      errorMs: this._syncErrorMs,
+      lastNow: this._lastNow,
+      samples: [...this._filterEngine.getHistory()],
+    };
+    try {
+      storage.save(state);
+    } catch (error) {
+      this._emitError('storage_error', undefined, undefined, error);
+    }
+  }
+
   /**
    * Returns a `Promise` that resolves as soon as the clock transitions to the
    * `"SYNCED"` state.  If the clock is already synced the promise resolves
-   * immediately on the next microtask.
+   * immediately on the next microtask — including when it is only
+   * {@link provisional}.
    *
    * @returns A promise that resolves (with no value) once the initial sync is
    *   complete.
@@ -149,28 +730,47 @@ export class SyncedClock {
   }
 
   /**
-   * Starts the periodic sync loop.  An initial ping is sent immediately, then
-   * subsequent pings fire every `syncIntervalMs` milliseconds.
+   * Starts the periodic sync loop.  An initial poll is sent immediately, then
+   * subsequent polls fire every {@link pollIntervalMs} milliseconds.  Each
+   * poll pings every configured source in parallel.
+   *
+   * With {@link SyncConfig.initialBurst}, an unsynced clock instead fires
+   * `count` polls `intervalMs` apart and stays `"SYNCING"` until `minSamples`
+   * samples survive the outlier filter or the burst deadline passes.
    *
    * Calling `start()` on an already-running clock is a no-op.
    */
   start(): void {
-    if (this._intervalId !== null) return;
-
-    this._lastIntervalFire = Date.now();
-    this._sendPing();
+    if (this._pollTimer !== null) return;
 
-    this._intervalId = setInterval(() => {
-      this._checkForSleep();
-      this._applySlew();
-      this._sendPing();
-    }, this._config.syncIntervalMs);
+    this._lastIntervalFire = this._time.wallNow();
+    this._scheduleNextPoll(this._pollIntervalMs);
+    if (this._config.initialBurst && this._state !== 'SYNCED') {
+      this._startBurst();
+    }
+    if (this._provisional) {
+      const expiresAt = this._targetOffsetAt + this._restoredStateMaxAgeMs();
+      this._provisionalTimer = this._time.setTimeout(
+        () => this._expireProvisional(),
+        Math.max(0, expiresAt - this._time.wallNow()),
+      );
+    }
+    this._watchSlew();
+    if (this._loadError !== null) {
+      const { error } = this._loadError;
+      this._loadError = null;
+      this._emitError('storage_error', undefined, undefined, error);
+    }
+    this._poll();
 
-    // Browser: re-sync immediately when the tab becomes visible again.
+    // Browser: re-sync immediately when the tab becomes visible again, and
+    // persist the state when it is hidden, which includes being unloaded.
     if (typeof document !== 'undefined') {
       this._visibilityHandler = () => {
         if (document.visibilityState === 'visible') {
-          this._sendPing();
+          this._poll();
+        } else {
+          this.saveState();
         }
       };
       document.addEventListener('visibilitychange', this._visibilityHandler);
@@ -179,26 +779,48 @@ export class SyncedClock {
 
   /**
    * Pauses the periodic sync loop without releasing resources.  The clock
-   * retains its current offset and sample history.  Call {@link start} to
-   * resume.
+   * retains its current offset and sample history, and persists them with
+   * {@link saveState}.  Call {@link start} to resume.
    *
    * To fully release all resources (intervals, listeners, history) use
    * {@link destroy} instead.
    */
   stop(): void {
-    if (this._intervalId !== null) {
-      clearInterval(this._intervalId);
-      this._intervalId = null;
+    if (this._pollTimer !== null) {
+      this._time.clearTimeout(this._pollTimer);
+      this._pollTimer = null;
+    }
+    this._endBurst();
+    if (this._provisionalTimer !== null) {
+      this._time.clearTimeout(this._provisionalTimer);
+      this._provisionalTimer = null;
+    }
+    if (this._slewTimer !== null) {
+      this._time.clearTimeout(this._slewTimer);
+      this._slewTimer = null;
     }
+    this._slewing = false;
+    // Outstanding pings are abandoned rather than counted as lost.
+    for (const { timer } of this._pending.values()) {
+      this._time.clearTimeout(timer);
+    }
+    this._pending.clear();
+    this.saveState();
   }
 
   /**
    * Fully tears down the clock, releasing every resource it holds:
-   * - Clears the sync interval (equivalent to calling {@link stop}).
+   * - Clears the sync interval and ping timeouts (equivalent to calling
+   *   {@link stop}).
    * - Removes the `visibilitychange` DOM event listener (browser only).
    * - Flushes the sample history array.
    * - Removes all event-emitter listeners registered on `clock.events`.
    * - Resolves any pending {@link waitForInitialSync} promises immediately.
+   * - Rejects any pending {@link commitWait} promises, whose guarantee can
+   *   no longer be established.
+   * - Cancels the pending `"slew_complete"` notification and every callback
+   *   still pending from {@link scheduleAt}.
+   * - Stops every job of the schedulers from {@link createCronScheduler}.
    *
    * After `destroy()` the instance should be discarded.  Calling any method on
    * a destroyed clock produces undefined behaviour.
@@ -213,6 +835,23 @@ export class SyncedClock {
 
     this._filterEngine.flush();
 
+    for (const { timer } of this._schedules) {
+      if (timer !== null) this._time.clearTimeout(timer);
+    }
+    this._schedules.clear();
+
+    for (const scheduler of this._cronSchedulers) {
+      scheduler.destroy();
+    }
+    this._cronSchedulers.clear();
+
+    const waiters = [...this._commitWaiters];
+    this._commitWaiters.clear();
+    for (const { timer, reject } of waiters) {
+      if (timer !== null) this._time.clearTimeout(timer);
+      reject(new Error('SyncedClock was destroyed before the commit wait completed'));
+    }
+
     // Resolve any pending waitForInitialSync promises so callers are not
     // left hanging after the clock is destroyed.
     for (const resolve of this._syncedResolvers) {
@@ -239,68 +878,732 @@ export class SyncedClock {
     }
   }
 
-  private _sendPing(): void {
-    const id = `ping-${++this._msgCounter}`;
-    const payload: PingPayload = { t0: Date.now(), id };
-    this.events.emit('sync_start', { timestamp: payload.t0 });
+  private _scheduleNextPoll(delayMs: number): void {
+    this._pollTimer = this._time.setTimeout(() => {
+      this._scheduleNextPoll(this._pollIntervalMs);
+      this._checkForSleep();
+      this._updateHealth();
+      this._poll();
+    }, delayMs);
+  }
+
+  /**
+   * Scores sync quality from `0` to `1` as the product of the delivery rate,
+   * freshness (full for two poll intervals since the last sync, falling to
+   * zero at ten), precision (`1 / (1 + dispersion / 100ms)`) and a `0.5`
+   * penalty while the offset exceeds `driftWarningThreshold`.
+   */
+  private _computeHealth(now: number): number {
+    if (this._state !== 'SYNCED' || this._lastSyncAt === null) return 0;
+    const interval = this._pollIntervalMs;
+    const age = now - this._lastSyncAt;
+    const freshness = Math.min(1, Math.max(0, 1 - (age - 2 * interval) / (8 * interval)));
+    const { earliest, latest } = this.nowInterval();
+    const precision = 1 / (1 + (latest - earliest) / 2 / HEALTH_PRECISION_SCALE_MS);
+    const driftThreshold =
+      this._config.driftWarningThreshold ?? DEFAULT_DRIFT_WARNING_THRESHOLD_MS;
+    const offsetFactor = Math.abs(this._predictedOffset(now)) > driftThreshold ? 0.5 : 1;
+    return (1 - this.lossRate) * freshness * precision * offsetFactor;
+  }
+
+  /** Re-scores health and emits `"health_change"` when the status flips. */
+  private _updateHealth(): void {
+    const now = this._time.wallNow();
+    const health = this._computeHealth(now);
+    const from = this._healthStatus;
+    const to: HealthStatus =
+      from === 'healthy'
+        ? health < HEALTH_DEGRADED_BELOW
+          ? 'degraded'
+          : 'healthy'
+        : health >= HEALTH_RECOVERED_AT
+          ? 'healthy'
+          : 'degraded';
+    if (to === from) return;
+    this._healthStatus = to;
+    this.events.emit('health_change', { from, to, health, timestamp: now });
+  }
+
+  /**
+   * Arms the remaining burst polls (the caller sends the first) and the
+   * deadline after which the clock locks on whatever samples it has.
+   */
+  private _startBurst(): void {
+    const burst = this._config.initialBurst!;
+    const intervalMs = burst.intervalMs ?? DEFAULT_BURST_INTERVAL_MS;
+    this._bursting = true;
+    for (let i = 1; i < burst.count; i++) {
+      this._burstTimers.push(this._time.setTimeout(() => this._poll(), i * intervalMs));
+    }
+    this._burstTimers.push(
+      this._time.setTimeout(() => {
+        this._endBurst();
+        if (this._filterEngine.getHistory().length > 0) {
+          this._transitionState('SYNCED');
+          this._updateHealth();
+        } else {
+          this._emitError('burst_deadline');
+        }
+      }, burst.deadlineMs ?? DEFAULT_BURST_DEADLINE_MS),
+    );
+  }
+
+  /** Cancels any burst polls still to be sent, along with the deadline. */
+  private _endBurst(): void {
+    for (const timer of this._burstTimers) {
+      this._time.clearTimeout(timer);
+    }
+    this._burstTimers = [];
+    this._bursting = false;
+  }
+
+  /**
+   * Adaptive polling: halves the interval when the latest round moved the
+   * offset or saw an RTT spike, doubles it while jitter stays low, and
+   * re-arms the pending poll so that the new interval applies from the last
+   * poll rather than from the next one.
+   */
+  private _adaptPollInterval(offsetStep: number, rtt: number, rtts: number[]): void {
+    const adaptive = this._config.adaptivePoll;
+    if (!adaptive) return;
+
+    const threshold = adaptive.stabilityThresholdMs ?? DEFAULT_STABILITY_THRESHOLD_MS;
+    const rttSpike =
+      rtts.length >= 2 &&
+      rtt - calculateMean(rtts) > this._config.outlierThreshold * calculateStdDev(rtts);
+
+    let next = this._pollIntervalMs;
+    if (Math.abs(offsetStep) > threshold || rttSpike) {
+      next = Math.max(adaptive.minIntervalMs, this._pollIntervalMs / 2);
+    } else if (this._filterEngine.getJitter() <= threshold) {
+      next = Math.min(adaptive.maxIntervalMs, this._pollIntervalMs * 2);
+    }
+    if (next === this._pollIntervalMs) return;
+
+    const from = this._pollIntervalMs;
+    this._pollIntervalMs = next;
+    const now = this._time.wallNow();
+    this.events.emit('poll_interval_change', { from, to: next, timestamp: now });
+
+    if (this._pollTimer !== null) {
+      this._time.clearTimeout(this._pollTimer);
+      this._scheduleNextPoll(Math.max(0, this._lastIntervalFire + next - now));
+    }
+  }
+
+  /**
+   * Starts a sync round by pinging the given sources — by default every
+   * source — in parallel.
+   */
+  private _poll(sources: readonly SyncSource[] = this._sources): void {
+    const round: SyncRound = { outstanding: sources.length, results: [] };
+    this.events.emit('sync_start', { timestamp: this._time.wallNow() });
     if (this._state === 'UNSYNCED') {
       this._transitionState('SYNCING');
     }
-    this._config.transportAdapter.sendPing(payload);
+    for (const source of sources) {
+      this._sendPing(source, round);
+    }
+  }
+
+  private _sendPing(source: SyncSource, round: SyncRound): void {
+    const id = `ping-${++this._msgCounter}`;
+    const payload: PingPayload = { t0: this._time.wallNow(), id };
+
+    const timeoutMs = this._config.pingTimeoutMs ?? this._pollIntervalMs;
+    const timer = this._time.setTimeout(() => this._handleTimeout(id, timeoutMs), timeoutMs);
+    const pending: PendingPing = { t0: payload.t0, sourceId: source.id, round, timer };
+    this._pending.set(id, pending);
+
+    try {
+      source.transportAdapter.sendPing(payload);
+    } catch (error) {
+      this._handleTransportError(id, error);
+    }
   }
 
-  private _applySlew(): void {
-    const diff = this._targetOffset - this._offset;
-    const slew = Math.min(Math.abs(diff), this._config.timeSlewRate) * Math.sign(diff);
-    this._offset += slew;
+  /** Counts a ping the transport failed to deliver as lost, without waiting for its timeout. */
+  private _handleTransportError(id: string, error: unknown): void {
+    const pending = this._pending.get(id);
+    if (pending === undefined) return;
+    this._settle(id, pending, 'timed_out');
+    this._emitError('transport_error', id, pending.sourceId, error);
+    this._completeRound(pending.round);
+    this._updateHealth();
+  }
+
+  private _handleTimeout(id: string, timeoutMs: number): void {
+    const pending = this._pending.get(id);
+    if (pending === undefined) return;
+    this._settle(id, pending, 'timed_out');
+    this.events.emit('sync_timeout', {
+      id,
+      sourceId: pending.sourceId,
+      t0: pending.t0,
+      timeoutMs,
+      lossRate: this.lossRate,
+      timestamp: this._time.wallNow(),
+    });
+    this._completeRound(pending.round);
+    this._updateHealth();
+  }
+
+  /**
+   * Removes a ping from the pending table, records its outcome in the
+   * loss-rate window and remembers its id so that a later stray pong can be
+   * classified.  Callers complete the ping's round afterwards, once any sample
+   * it produced has been attached.
+   */
+  private _settle(id: string, pending: PendingPing, outcome: 'answered' | 'timed_out'): void {
+    this._time.clearTimeout(pending.timer);
+    this._pending.delete(id);
+
+    this._outcomes.push(outcome === 'timed_out');
+    if (this._outcomes.length > LOSS_WINDOW_SIZE) {
+      this._outcomes.shift();
+    }
+    this._settled.set(id, outcome);
+    if (this._settled.size > LOSS_WINDOW_SIZE) {
+      this._settled.delete(this._settled.keys().next().value!);
+    }
+
+    pending.round.outstanding--;
+  }
+
+  private _emitError(
+    reason: SyncErrorReason,
+    id?: string,
+    sourceId?: string,
+    error?: unknown,
+  ): void {
+    this.events.emit('sync_error', { reason, id, sourceId, error, timestamp: this._time.wallNow() });
+  }
+
+  /**
+   * Matches an incoming pong against the pending-ping table.  Returns the
+   * pending entry, or `undefined` (after emitting `"sync_error"`) for
+   * duplicates, replays, late arrivals and pongs for pings this clock never
+   * sent to that source.
+   */
+  private _claimPending(sourceId: string, id: string): PendingPing | undefined {
+    const pending = this._pending.get(id);
+    if (pending === undefined || pending.sourceId !== sourceId) {
+      const settled = pending === undefined ? this._settled.get(id) : undefined;
+      const reason: SyncErrorReason =
+        settled === 'answered' ? 'duplicate' : settled === 'timed_out' ? 'late' : 'unknown_id';
+      this._emitError(reason, id, sourceId);
+      return undefined;
+    }
+    this._settle(id, pending, 'answered');
+    return pending;
+  }
+
+  /**
+   * The offset expected at local time `at`: the last estimate, extrapolated
+   * along the estimated drift.
+   */
+  private _predictedOffset(at: number): number {
+    return this._targetOffset - (this._driftPpm / 1e6) * (at - this._targetOffsetAt);
   }
 
   /**
    * Detects a system sleep/wake cycle by comparing the wall-clock gap between
-   * interval fires to the configured `syncIntervalMs`.  When the gap exceeds
+   * interval fires to the current poll interval.  When the gap exceeds
    * `sleepDetectionThresholdMs` the sample history is flushed and a
    * `"sleep_detected"` event is emitted.
    */
   private _checkForSleep(): void {
-    const now = Date.now();
+    const now = this._time.wallNow();
     const gapMs = now - this._lastIntervalFire;
     const threshold =
-      this._config.sleepDetectionThresholdMs ?? this._config.syncIntervalMs * 10;
+      this._config.sleepDetectionThresholdMs ?? this._pollIntervalMs * 10;
 
     if (gapMs > threshold) {
       this._filterEngine.flush();
+      // The clock may have been reset while the host was away.
+      this._panicExempt = true;
       this.events.emit('sleep_detected', { gapMs, timestamp: now });
     }
     this._lastIntervalFire = now;
   }
 
-  private _handlePong(pong: PongPayload): void {
-    const rtt = calculateRTT(pong.t0, pong.t1, pong.t2, pong.t3);
-    const offset = calculateOffset(pong.t0, pong.t1, pong.t2, pong.t3);
+  /**
+   * Records a source's link state, emits `"connection_change"` and, when the
+   * link comes back while the sync loop is running, re-polls that source
+   * immediately rather than waiting for the next interval.
+   */
+  private _handleConnectionChange(sourceId: string, connected: boolean): void {
+    if (this._connectedSources.get(sourceId) === connected) return;
+    this._connectedSources.set(sourceId, connected);
+    this.events.emit('connection_change', { connected, sourceId, timestamp: this._time.wallNow() });
+    // Only the source that came back has anything new to say.
+    const source = this._sources.find(({ id }) => id === sourceId);
+    if (connected && this._pollTimer !== null && source !== undefined) {
+      this._poll([source]);
+    }
+  }
 
-    const sample: SyncSample = {
-      rtt,
-      offset,
-      timestamp: Date.now(),
-    };
+  private _handlePong(sourceId: string, pong: PongPayload): void {
+    const pending = this._claimPending(sourceId, pong.id);
+    if (pending === undefined) return;
 
-    this._filterEngine.push(sample);
+    const rejection = validatePong(pong, {
+      maxRttMs: this._config.maxRttMs ?? Infinity,
+      maxOffsetMs: this._config.maxOffsetMs ?? Infinity,
+    });
+    if (rejection !== null) {
+      this._rejectedCount++;
+      this.events.emit('sample_rejected', {
+        reason: rejection,
+        pong,
+        sourceId,
+        timestamp: this._time.wallNow(),
+      });
+    } else {
+      const { t0, t1, t2, t3, resolution } = pong;
+      const rtt = calculateRTT(t0, t1, t2, t3);
+      const rawOffset = calculateOffset(t0, t1, t2, t3, resolution);
+      const offset = calculateOffset(t0, t1, t2, t3, resolution, this._asymmetry.get(sourceId));
+      const halfWidth = (rtt + (resolution ?? 0)) / 2;
+      pending.round.results.push({
+        sourceId,
+        sample: { rtt, offset, timestamp: this._time.wallNow() },
+        interval: { lower: offset - halfWidth, upper: offset + halfWidth },
+        rawOffset,
+      });
+    }
+    this._completeRound(pending.round);
+  }
+
+  /**
+   * Once every ping of a round has settled, votes out falsetickers and feeds
+   * the surviving samples into the filter.
+   */
+  private _completeRound(round: SyncRound): void {
+    if (round.outstanding > 0 || round.results.length === 0) return;
+
+    // Calibrate on every answer, before biased sources can be voted out.
+    this._calibrateAsymmetry(round.results);
+    const now = this._time.wallNow();
+    const previousPrediction = this._predictedOffset(now);
+    const accepted = this._withinPanicThreshold(
+      this._selectTruechimers(round.results),
+      previousPrediction,
+    );
+    if (accepted.length === 0) return;
+
+    const previousRtts = this._filterEngine.getHistory().map((sample) => sample.rtt);
+    for (const { sample } of accepted) {
+      this._filterEngine.push(sample);
+    }
+    const rtt = Math.min(...accepted.map(({ sample }) => sample.rtt));
     this._targetOffset = this._filterEngine.getOptimalOffset();
-    this._slewEngine.setTargetOffset(this._targetOffset);
+    this._targetOffsetAt = now;
+    this._lastSyncAt = now;
+    this._syncErrorMs = Math.min(
+      ...accepted.map(
+        ({ sample, interval }) =>
+          (interval.upper - interval.lower) / 2 + Math.abs(this._targetOffset - sample.offset),
+      ),
+    );
+    // Keep the previous skew across a history flush until there is enough
+    // fresh data to re-estimate it: the crystal's error does not change on wake.
+    this._updateDrift();
+    if (this._shouldStep(now)) {
+      this._step(now);
+    } else {
+      this._slewEngine.setTargetOffset(this._targetOffset, this._driftPpm);
+    }
+    this._watchSlew();
+    this._rearmSchedules();
 
-    const now = Date.now();
     this.events.emit('sync_success', { offset: this._targetOffset, rtt, timestamp: now });
 
     const driftThreshold =
       this._config.driftWarningThreshold ?? DEFAULT_DRIFT_WARNING_THRESHOLD_MS;
-    if (Math.abs(this._targetOffset) > driftThreshold) {
+    const drifted = Math.abs(this._targetOffset) > driftThreshold;
+    if (drifted && !this._driftWarningActive) {
       this.events.emit('drift_warning', {
         offset: this._targetOffset,
         threshold: driftThreshold,
         timestamp: now,
       });
     }
+    this._driftWarningActive = drifted;
+
+    // The first sync establishes the offset; only later rounds say anything
+    // about stability.
+    if (this._state === 'SYNCED') {
+      this._adaptPollInterval(this._targetOffset - previousPrediction, rtt, previousRtts);
+    }
+    if (this._bursting && this._filterEngine.getAcceptedSamples().length >= this._burstMinSamples) {
+      this._endBurst();
+    }
+    if (!this._bursting) {
+      this._transitionState('SYNCED');
+    }
+    if (this._provisional) {
+      this._provisional = false;
+      if (this._provisionalTimer !== null) {
+        this._time.clearTimeout(this._provisionalTimer);
+        this._provisionalTimer = null;
+      }
+    }
+    this._updateHealth();
+    this.saveState();
+  }
+
+  /**
+   * Adopts the filter's drift estimate and its standard error, unless the
+   * history is too short to estimate anything.
+   */
+  private _updateDrift(): void {
+    const stdError = this._filterEngine.getDriftStdErrorPpm();
+    if (!Number.isFinite(stdError)) return;
+    this._driftPpm = this._filterEngine.getDriftPpm();
+    this._driftStdErrorPpm = stdError;
+  }
+
+  private _restoredStateMaxAgeMs(): number {
+    return this._config.restoredStateMaxAgeMs ?? DEFAULT_RESTORED_STATE_MAX_AGE_MS;
+  }
+
+  /**
+   * Warm start: adopts a persisted state whose last sync is younger than
+   * `restoredStateMaxAgeMs` as a provisional sync, stepping straight to its
+   * extrapolated offset.  The persisted `lastNow` is honoured even when the
+   * rest is too old, so that {@link now} never falls behind a value returned
+   * before the reload, unless it lies beyond the latest time the state
+   * allows: a corrupt or far-future value would otherwise freeze
+   * {@link now}.  A storage that throws leaves the clock cold; the error is
+   * reported by {@link start}.
+   */
+  private _restoreState(): void {
+    let state: PersistedClockState | null | undefined;
+    try {
+      state = this._config.storage?.load();
+    } catch (error) {
+      this._loadError = { error };
+      return;
+    }
+    if (!state) return;
+    const now = this._time.wallNow();
+    const age = now - state.syncedAt;
+    if (age >= 0) {
+      // The state's own estimate of the time now, plus its error bound.
+      const dispersionRate = (this._config.dispersionRatePpm ?? DEFAULT_DISPERSION_RATE_PPM) / 1e6;
+      const latest =
+        now + state.offset - (state.driftPpm / 1e6) * age + state.errorMs + dispersionRate * age;
+      if (state.lastNow <= latest) this._lastNow = Math.max(this._lastNow, state.lastNow);
+    }
+
+    if (age < 0 || age >= this._restoredStateMaxAgeMs()) return;
+    for (const sample of state.samples) {
+      this._filterEngine.push(sample);
+    }
+    this._targetOffset = state.offset;
+    this._targetOffsetAt = state.syncedAt;
+    this._lastSyncAt = state.syncedAt;
+    this._driftPpm = state.driftPpm;
+    const driftStdError = this._filterEngine.getDriftStdErrorPpm();
+    if (Number.isFinite(driftStdError)) this._driftStdErrorPpm = driftStdError;
+    this._syncErrorMs = state.errorMs;
+    this._slewEngine.step(this._predictedOffset(now), state.driftPpm);
+    this._state = 'SYNCED';
+    this._provisional = true;
+  }
+
+  /**
+   * Reverts a provisional clock that failed to sync in time to `"UNSYNCED"`,
+   * discarding the restored samples.  The applied offset is kept, so `now()`
+   * does not jump.
+   */
+  private _expireProvisional(): void {
+    this._provisionalTimer = null;
+    if (!this._provisional) return;
+    this._provisional = false;
+    this._filterEngine.flush();
+    this._syncErrorMs = Infinity;
+    this._lastSyncAt = null;
+    this._transitionState('UNSYNCED');
+    this._updateHealth();
+  }
+
+  /**
+   * Drops the samples that would move a synced clock by more than
+   * {@link StepPolicy.panicThresholdMs}, emitting `"sync_error"` for each.
+   * The round after a sleep is exempt, and so is the
+   * {@link StepPolicy.panicRecoveryRounds}-th consecutive rejected round that
+   * agrees with the ones before it; the history is then flushed, since it
+   * describes the offset the clock has left.
+   */
+  private _withinPanicThreshold(
+    results: SyncRound['results'],
+    previousPrediction: number,
+  ): SyncRound['results'] {
+    const policy = this._config.stepPolicy;
+    const panicThreshold = policy?.panicThresholdMs ?? Infinity;
+    if (this._state !== 'SYNCED' || panicThreshold === Infinity) return results;
+    if (this._panicExempt) {
+      this._panicExempt = false;
+      this._panicStreak = null;
+      return results;
+    }
+
+    const insane = results.filter(
+      ({ sample }) => Math.abs(sample.offset - previousPrediction) > panicThreshold,
+    );
+    if (insane.length < results.length) {
+      this._panicStreak = null;
+    } else {
+      // Every sample was out of bounds: see whether they keep agreeing.
+      let lower = Math.max(...insane.map(({ interval }) => interval.lower));
+      let upper = Math.min(...insane.map(({ interval }) => interval.upper));
+      const streak = this._panicStreak;
+      if (streak !== null && lower <= streak.upper && streak.lower <= upper) {
+        lower = Math.max(lower, streak.lower);
+        upper = Math.min(upper, streak.upper);
+        const rounds = streak.rounds + 1;
+        if (rounds >= (policy?.panicRecoveryRounds ?? DEFAULT_PANIC_RECOVERY_ROUNDS)) {
+          this._panicStreak = null;
+          this._filterEngine.flush();
+          return results;
+        }
+        this._panicStreak = { rounds, lower, upper };
+      } else {
+        this._panicStreak = lower <= upper ? { rounds: 1, lower, upper } : null;
+      }
+    }
+
+    for (const { sourceId } of insane) {
+      this._rejectedCount++;
+      this._emitError('panic', undefined, sourceId);
+    }
+    return results.filter((result) => !insane.includes(result));
+  }
+
+  /** Whether the policy calls for stepping the correction just estimated. */
+  private _shouldStep(now: number): boolean {
+    const policy = this._config.stepPolicy;
+    if (!policy) return false;
+    if (policy.stepOnlyWhenUnsynced && this._state === 'SYNCED') return false;
+    const correction = Math.abs(this._predictedOffset(now) - this._slewEngine.offset());
+    return correction >= (policy.stepThresholdMs ?? Infinity);
+  }
+
+  /**
+   * Applies the current estimate at once to both {@link now} and
+   * {@link performanceNow}, and emits `"time_step"`.  A backward step needs
+   * no freezing of its own: the monotonic guard in {@link now} holds the
+   * value until real time catches up.
+   */
+  private _step(now: number): void {
+    const from = Math.max(this._lastNow, now + this._slewEngine.offset());
+    this._slewEngine.step(this._targetOffset, this._driftPpm);
+    const to = now + this._targetOffset;
+    this.events.emit('time_step', {
+      from,
+      to,
+      direction: to >= from ? 'forward' : 'backward',
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Re-arms the timer for the end of the current slew, and emits
+   * `"slew_complete"` once a slew is over — including when a step cuts it
+   * short.
+   */
+  private _watchSlew(): void {
+    if (this._slewTimer !== null) {
+      this._time.clearTimeout(this._slewTimer);
+      this._slewTimer = null;
+    }
+    const remaining = this._slewEngine.estimatedConvergenceMs;
+    const wasSlewing = this._slewing;
+    this._slewing = remaining > 0;
+    if (this._slewing) {
+      this._slewTimer = this._time.setTimeout(() => this._watchSlew(), Math.ceil(remaining));
+    } else if (wasSlewing) {
+      // The coarse waits were sized on the slew's curve; re-measure them.
+      this._rearmSchedules();
+      this.events.emit('slew_complete', {
+        offset: this._slewEngine.offset(),
+        timestamp: this._time.wallNow(),
+      });
+    }
+  }
 
-    this._transitionState('SYNCED');
+  /**
+   * Arms the timer of a pending {@link scheduleAt} callback: one coarse wait
+   * up to the tail, then waits for the exact remainder, each re-checked
+   * against {@link now} when it fires.
+   *
+   * The coarse wait subtracts what the slew will add to {@link now} over
+   * it.  Projecting over the uncorrected wait overstates a gaining slew and
+   * understates a losing one, so the timer errs early and is re-armed.
+   */
+  private _armSchedule(schedule: PendingSchedule): void {
+    if (schedule.timer !== null) this._time.clearTimeout(schedule.timer);
+    const remaining = schedule.targetTime - this.now();
+    const tail = this._config.scheduleTailMs ?? DEFAULT_SCHEDULE_TAIL_MS;
+    let delay: number;
+    if (remaining <= 0) {
+      delay = 0;
+    } else if (remaining > tail) {
+      const wait = Math.min(remaining - tail, MAX_TIMER_DELAY_MS);
+      const slewed = this._slewEngine.projectedOffset(wait) - this._slewEngine.offset();
+      delay = Math.max(0, wait - slewed);
+    } else {
+      delay = Math.ceil(remaining);
+    }
+    schedule.timer = this._time.setTimeout(() => {
+      schedule.timer = null;
+      const firedAt = this.now();
+      if (firedAt < schedule.targetTime) {
+        this._armSchedule(schedule);
+        return;
+      }
+      this._schedules.delete(schedule);
+      const { targetTime } = schedule;
+      schedule.callback({ targetTime, firedAt, latenessMs: firedAt - targetTime });
+    }, delay);
+  }
+
+  /** Re-arms every pending {@link scheduleAt} callback after the offset changed. */
+  private _rearmSchedules(): void {
+    for (const schedule of this._schedules) {
+      this._armSchedule(schedule);
+    }
+  }
+
+  /**
+   * Calibration mode: records, for each source still being calibrated, how
+   * far its uncorrected offset lies from the reference source's in the same
+   * round.  Once enough rounds are collected the source's asymmetry is
+   * estimated, applied and reported.
+   */
+  private _calibrateAsymmetry(results: SyncRound['results']): void {
+    const calibration = this._config.asymmetryCalibration;
+    if (!calibration || this._calibration.size === 0) return;
+    const reference = results.find(({ sourceId }) => sourceId === calibration.referenceSourceId);
+    if (reference === undefined) return;
+
+    const required = calibration.samples ?? DEFAULT_CALIBRATION_SAMPLES;
+    for (const { sourceId, sample, rawOffset } of results) {
+      const observations = this._calibration.get(sourceId);
+      if (observations === undefined) continue;
+      observations.push({ rtt: sample.rtt, bias: rawOffset - reference.sample.offset });
+      if (observations.length < required) continue;
+
+      this._calibration.delete(sourceId);
+      const asymmetry = estimateAsymmetry(observations, calibration.model);
+      this._asymmetry.set(sourceId, asymmetry);
+      this.events.emit('asymmetry_calibrated', {
+        sourceId,
+        asymmetry: { ...asymmetry },
+        samples: observations.length,
+        timestamp: this._time.wallNow(),
+      });
+    }
+  }
+
+  /**
+   * Marzullo-style source selection: keeps the sources whose offset interval
+   * contains the intersection agreed on by a strict majority of the sources
+   * that answered, and emits `"source_rejected"` for the rest.  Returns an
+   * empty array (after emitting `"sync_error"`) when there is no majority.
+   */
+  private _selectTruechimers(results: SyncRound['results']): SyncRound['results'] {
+    if (results.length === 1) return results;
+
+    const agreed = marzullo(results.map(({ interval }) => interval));
+    if (agreed.count <= results.length / 2) {
+      this._rejectedCount += results.length;
+      this._emitError('no_majority');
+      return [];
+    }
+
+    const midpoint = (agreed.lower + agreed.upper) / 2;
+    const interval = { lower: agreed.lower, upper: agreed.upper };
+    return results.filter((result) => {
+      const agrees = result.interval.lower <= midpoint && midpoint <= result.interval.upper;
+      if (!agrees) {
+        this._rejectedCount++;
+        this.events.emit('source_rejected', {
+          sourceId: result.sourceId,
+          offset: result.sample.offset,
+          rtt: result.sample.rtt,
+          interval: result.interval,
+          agreed: interval,
+          timestamp: this._time.wallNow(),
+        });
+      }
+      return agrees;
+    });
+  }
+}
+
+/**
+ * Validates {@link SyncConfig.initialBurst} and returns the number of
+ * filtered samples required to lock (`1` when there is no burst).
+ */
+function resolveBurstMinSamples(config: SyncConfig): number {
+  const burst = config.initialBurst;
+  if (!burst) return 1;
+  if (!Number.isInteger(burst.count) || burst.count < 1) {
+    throw new RangeError('initialBurst.count must be a positive integer');
+  }
+  const minSamples = burst.minSamples ?? Math.ceil(burst.count / 2);
+  if (!Number.isInteger(minSamples) || minSamples < 1 || minSamples > burst.count) {
+    throw new RangeError('initialBurst.minSamples must be an integer between 1 and count');
+  }
+  return minSamples;
+}
+
+/** Validates the thresholds of {@link SyncConfig.stepPolicy}. */
+function validateStepPolicy(policy: StepPolicy): void {
+  const {
+    stepThresholdMs = Infinity,
+    panicThresholdMs = Infinity,
+    panicRecoveryRounds = DEFAULT_PANIC_RECOVERY_ROUNDS,
+  } = policy;
+  if (!(stepThresholdMs > 0)) {
+    throw new RangeError('stepPolicy.stepThresholdMs must be positive');
+  }
+  if (!(panicThresholdMs > 0)) {
+    throw new RangeError('stepPolicy.panicThresholdMs must be positive');
+  }
+  if (!Number.isInteger(panicRecoveryRounds) || panicRecoveryRounds < 1) {
+    throw new RangeError('stepPolicy.panicRecoveryRounds must be a positive integer');
+  }
+}
+
+/**
+ * Reads {@link SyncConfig.slewRatePpm}, falling back to the deprecated
+ * `timeSlewRate` (ms per second of real time).
+ */
+function resolveSlewRatePpm(config: SyncConfig): number | undefined {
+  const { slewRatePpm, timeSlewRate } = config;
+  if (slewRatePpm !== undefined || timeSlewRate === undefined) return slewRatePpm;
+  return timeSlewRate * 1000;
+}
+
+/**
+ * Normalizes the single-transport and multi-source configuration forms into
+ * one list of sources.
+ */
+function resolveSources(config: SyncConfig): SyncSource[] {
+  const { transportAdapter, sources = [] } = config;
+  if ((transportAdapter === undefined) === (sources.length === 0)) {
+    throw new TypeError('SyncConfig requires exactly one of transportAdapter or sources');
+  }
+  if (transportAdapter !== undefined) {
+    return [{ id: DEFAULT_SOURCE_ID, transportAdapter }];
+  }
+  const ids = new Set(sources.map(({ id }) => id));
+  if (ids.size !== sources.length) {
+    throw new TypeError('SyncConfig.sources ids must be unique');
   }
+  return [...sources];
 }
@@ -1,9 +1,65 @@
+import type { AsymmetryModel, OffsetInterval, PathAsymmetry } from './types.js';
+
 export function calculateRTT(t0: number, t1: number, t2: number, t3: number): number {
   return (t3 - t0) - (t2 - t1);
 }
 
-export function calculateOffset(t0: number, t1: number, t2: number, t3: number): number {
-  return ((t1 - t0) + (t2 - t3)) / 2;
+/**
+ * NTP clock offset (positive = server ahead).
+ *
+ * `resolutionMs` is the granularity of the server timestamps `t1`/`t2`.  A
+ * server clock that truncates to its resolution (such as the one-second HTTP
+ * `Date` header) under-reports the true time by `resolutionMs / 2` on average,
+ * so that bias is added back to centre the estimate in the quantization bucket.
+ *
+ * The textbook formula assumes both legs of the round trip take equally long;
+ * otherwise it is off by half their difference.  `asymmetry` describes a known
+ * imbalance so that this bias can be subtracted.
+ */
+export function calculateOffset(
+  t0: number,
+  t1: number,
+  t2: number,
+  t3: number,
+  resolutionMs: number = 0,
+  asymmetry: PathAsymmetry = {},
+): number {
+  const { outboundRatio = 0.5, outboundExcessMs = 0 } = asymmetry;
+  const bias = (outboundRatio - 0.5) * calculateRTT(t0, t1, t2, t3) + outboundExcessMs / 2;
+  return ((t1 - t0) + (t2 - t3)) / 2 + resolutionMs / 2 - bias;
+}
+
+/**
+ * Estimates the path asymmetry that explains the difference between offsets
+ * measured over a path (assuming symmetry) and the true offsets, as given by a
+ * reference.  Each observation's `bias` is `measured − reference`.
+ *
+ * - `"fixed"` attributes the mean bias to a constant excess delay:
+ *   `outboundExcessMs = 2 × mean(bias)`.
+ * - `"ratio"` attributes it to a share of the RTT, fitting
+ *   `bias = (outboundRatio − 0.5) × rtt` by least squares through the origin.
+ *   The ratio is clamped to `[0, 1]`.
+ *
+ * Returns a symmetric path when there are no observations.
+ */
+export function estimateAsymmetry(
+  observations: Array<{ rtt: number; bias: number }>,
+  model: AsymmetryModel = 'fixed',
+): PathAsymmetry {
+  if (observations.length === 0) return { outboundRatio: 0.5, outboundExcessMs: 0 };
+  if (model === 'fixed') {
+    return {
+      outboundRatio: 0.5,
+      outboundExcessMs: 2 * calculateMean(observations.map((o) => o.bias)),
+    };
+  }
+  const sumBiasRtt = observations.reduce((sum, o) => sum + o.bias * o.rtt, 0);
+  const sumRttSquared = observations.reduce((sum, o) => sum + o.rtt ** 2, 0);
+  const excessShare = sumRttSquared === 0 ? 0 : sumBiasRtt / sumRttSquared;
+  return {
+    outboundRatio: Math.min(1, Math.max(0, 0.5 + excessShare)),
+    outboundExcessMs: 0,
+  };
 }
 
 export function calculateMean(values: number[]): number {
@@ -11,6 +67,16 @@ export function calculateMean(values: number[]): number {
   return values.reduce((sum, v) => sum + v, 0) / values.length;
 }
 
+export function calculateWeightedMean(values: number[], weights: number[]): number {
+  let sum = 0;
+  let totalWeight = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i] * weights[i];
+    totalWeight += weights[i];
+  }
+  return totalWeight === 0 ? calculateMean(values) : sum / totalWeight;
+}
+
 export function calculateStdDev(values: number[]): number {
   if (values.length === 0) return 0;
   const mean = calculateMean(values);
@@ -18,6 +84,48 @@ export function calculateStdDev(values: number[]): number {
   return Math.sqrt(variance);
 }
 
+export function calculateMedian(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Least-squares slope of `ys` against `xs`.  Returns `0` with fewer than two
+ * points or when every `x` is identical.
+ */
+export function calculateSlope(xs: number[], ys: number[]): number {
+  const meanX = calculateMean(xs);
+  const meanY = calculateMean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+  }
+  return varianceX === 0 ? 0 : covariance / varianceX;
+}
+
+/**
+ * Standard error of the least-squares slope of `ys` against `xs`: how far
+ * the true slope may plausibly lie from {@link calculateSlope}'s.  Returns
+ * `Infinity` with fewer than three points or when every `x` is identical,
+ * since the residual scatter cannot then be measured.
+ */
+export function calculateSlopeStdError(xs: number[], ys: number[]): number {
+  const meanX = calculateMean(xs);
+  const varianceX = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  if (xs.length < 3 || varianceX === 0) return Infinity;
+  const slope = calculateSlope(xs, ys);
+  const intercept = calculateMean(ys) - slope * meanX;
+  let residuals = 0;
+  for (let i = 0; i < xs.length; i++) {
+    residuals += (ys[i] - intercept - slope * xs[i]) ** 2;
+  }
+  return Math.sqrt(residuals / (xs.length - 2) / varianceX);
+}
+
 export function filterOutliers(values: number[], threshold: number): number[] {
   if (values.length === 0) return [];
   const mean = calculateMean(values);
@@ -25,3 +133,31 @@ export function filterOutliers(values: number[], threshold: number): number[] {
   if (stddev === 0) return [...values];
   return values.filter((v) => Math.abs(v - mean) <= threshold * stddev);
 }
+
+/**
+ * Marzullo's algorithm: finds the smallest interval consistent with the
+ * largest number of sources.
+ *
+ * Returns the intersection `[lower, upper]` and how many source intervals
+ * contain it, or `count: 0` when `intervals` is empty.  Intervals that merely
+ * touch are treated as overlapping.
+ */
+export function marzullo(intervals: OffsetInterval[]): OffsetInterval & { count: number } {
+  // Starts (+1) sort before ends (-1) at equal positions so touching intervals overlap.
+  const edges = intervals
+    .flatMap((i): Array<[number, number]> => [
+      [i.lower, 1],
+      [i.upper, -1],
+    ])
+    .sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+
+  let best = { lower: 0, upper: 0, count: 0 };
+  let count = 0;
+  for (let i = 0; i < edges.length; i++) {
+    count += edges[i][1];
+    if (count > best.count) {
+      best = { lower: edges[i][0], upper: edges[i + 1][0], count };
+    }
+  }
+  return best;
+}
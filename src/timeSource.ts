@@ -0,0 +1,175 @@
+import type { TimeSource, TimerHandle } from './types.js';
+
+/**
+ * The {@link TimeSource} of the host: `Date.now()`, `performance.now()` and
+ * the global timer functions.  Each is looked up on every call, so fake
+ * timers installed after construction still take effect.
+ */
+export class SystemTimeSource implements TimeSource {
+  wallNow(): number {
+    return Date.now();
+  }
+
+  monotonicNow(): number {
+    return performance.now();
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    return setTimeout(callback, delayMs);
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  }
+}
+
+/** A timer scheduled on a {@link ManualTimeSource}. */
+interface ManualTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+/** Initial readings of a {@link ManualTimeSource}. */
+export interface ManualTimeSourceOptions {
+  /**
+   * Initial wall-clock time in ms since the Unix epoch.
+   * @defaultValue `0`
+   */
+  wallTime?: number;
+  /**
+   * Initial monotonic time in ms.
+   * @defaultValue `0`
+   */
+  monotonicTime?: number;
+}
+
+/**
+ * A {@link TimeSource} that only moves when told to, for deterministic tests
+ * of slewing, sleep detection and monotonicity without patching globals.
+ *
+ * - {@link advance} lets time pass: both clocks move forward and timers fire
+ *   in due order, each seeing the time it was due at.
+ * - {@link jump} steps the wall clock alone, as when the system clock is
+ *   adjusted.
+ * - {@link freeze} suspends timer delivery, as when the host sleeps: time
+ *   still advances, and overdue timers fire late on {@link unfreeze}.
+ *
+ * @example
+ * ```ts
+ * const time = new ManualTimeSource({ wallTime: Date.UTC(2024, 0, 1) });
+ * const clock = new SyncedClock({ ...config, timeSource: time });
+ * clock.start();
+ * time.advance(30_000); // fires the polls due in the next 30 s
+ * ```
+ */
+export class ManualTimeSource implements TimeSource {
+  private _wallTime: number;
+  private _monotonicTime: number;
+  private _frozen: boolean = false;
+  private _timers: ManualTimer[] = [];
+  private _nextId: number = 1;
+
+  /** @param options - Initial clock readings. */
+  constructor(options: ManualTimeSourceOptions = {}) {
+    this._wallTime = options.wallTime ?? 0;
+    this._monotonicTime = options.monotonicTime ?? 0;
+  }
+
+  wallNow(): number {
+    return this._wallTime;
+  }
+
+  monotonicNow(): number {
+    return this._monotonicTime;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): TimerHandle {
+    const id = this._nextId++;
+    this._timers.push({ id, dueAt: this._monotonicTime + Math.max(0, delayMs), callback });
+    return id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this._timers = this._timers.filter(({ id }) => id !== handle);
+  }
+
+  /** Number of timers scheduled and not yet fired or cleared. */
+  get pendingTimers(): number {
+    return this._timers.length;
+  }
+
+  /** Whether timer delivery is suspended; see {@link freeze}. */
+  get frozen(): boolean {
+    return this._frozen;
+  }
+
+  /**
+   * Lets `ms` of time pass on both clocks, firing every timer that falls due
+   * on the way — including timers scheduled by those callbacks — unless the
+   * source is frozen.
+   *
+   * @param ms - Milliseconds to advance by.
+   * @throws {RangeError} When `ms` is negative or not finite.
+   */
+  advance(ms: number): void {
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new RangeError('advance() requires a finite, non-negative duration');
+    }
+    const end = this._monotonicTime + ms;
+    for (let timer = this._nextDue(end); timer !== undefined; timer = this._nextDue(end)) {
+      this._moveTo(timer.dueAt);
+      this._fire(timer);
+    }
+    this._moveTo(end);
+  }
+
+  /**
+   * Steps the wall clock by `ms`, forwards or backwards, leaving monotonic
+   * time and timers untouched.
+   *
+   * @param ms - Milliseconds to add to the wall clock; negative to go back.
+   */
+  jump(ms: number): void {
+    this._wallTime += ms;
+  }
+
+  /**
+   * Suspends timer delivery: {@link advance} still moves both clocks, but
+   * fires nothing until {@link unfreeze}.
+   */
+  freeze(): void {
+    this._frozen = true;
+  }
+
+  /** Resumes timer delivery, first firing every overdue timer in due order. */
+  unfreeze(): void {
+    this._frozen = false;
+    this.advance(0);
+  }
+
+  /** The earliest timer due by `end`, or `undefined` (always while frozen). */
+  private _nextDue(end: number): ManualTimer | undefined {
+    if (this._frozen) return undefined;
+    let next: ManualTimer | undefined;
+    for (const timer of this._timers) {
+      if (timer.dueAt <= end && (next === undefined || timer.dueAt < next.dueAt)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  /** Moves both clocks forward to monotonic time `target`, never backward. */
+  private _moveTo(target: number): void {
+    const delta = target - this._monotonicTime;
+    if (delta <= 0) return;
+    this._monotonicTime = target;
+    this._wallTime += delta;
+  }
+
+  private _fire(timer: ManualTimer): void {
+    this._timers = this._timers.filter(({ id }) => id !== timer.id);
+    timer.callback();
+  }
+}
@@ -7,6 +7,109 @@ export interface TransportAdapter {
   sendPing(payload: PingPayload): void;
   /** Register a callback that is invoked whenever a pong is received. */
   onPong(callback: (payload: PongPayload) => void): void;
+  /**
+   * Optionally register a callback that is invoked immediately with the
+   * current connection state, then whenever the underlying connection opens
+   * or drops.  Connection-oriented transports implement this so that
+   * {@link SyncedClock} can surface the link state to consumers and re-sync as
+   * soon as the connection is restored.
+   */
+  onConnectionChange?(callback: (connected: boolean) => void): void;
+  /**
+   * Optionally register a callback that is invoked when a ping is known to
+   * be lost — the request failed, or the reply was unusable.  Transports
+   * that can tell implement this so that {@link SyncedClock} reports the
+   * failure as a `"sync_error"` at once rather than waiting for the ping to
+   * time out.
+   */
+  onError?(callback: (error: unknown, ping: PingPayload) => void): void;
+}
+
+/** Opaque handle returned by {@link TimeSource.setTimeout}. */
+export type TimerHandle = unknown;
+
+/**
+ * Clocks and timers used by {@link SyncedClock} and `SlewEngine`.  The
+ * default is the host's `Date.now()`, `performance.now()` and global timers;
+ * inject a `ManualTimeSource` to test time-dependent behaviour without
+ * patching globals.
+ *
+ * Transports stamp `t3`, so a custom source must be passed to the transport
+ * too: the built-in transports accept it as their `timeSource` option.
+ */
+export interface TimeSource {
+  /** Wall-clock time in ms since the Unix epoch, like `Date.now()`.  May jump. */
+  wallNow(): number;
+  /** Monotonic time in ms from an arbitrary origin, like `performance.now()`. */
+  monotonicNow(): number;
+  /** Schedules `callback` after `delayMs` of monotonic time, like `setTimeout`. */
+  setTimeout(callback: () => void, delayMs: number): TimerHandle;
+  /** Cancels a timer scheduled with {@link TimeSource.setTimeout}. */
+  clearTimeout(handle: TimerHandle): void;
+}
+
+/**
+ * Strategy used by {@link FilterEngine} to turn the sample history into a
+ * single clock-offset estimate.  See `estimators.ts` for the built-in
+ * strategies.
+ */
+export interface OffsetEstimator {
+  /**
+   * Estimates the clock offset from the retained samples.
+   *
+   * @param samples - The sample history, oldest first.  Never empty.
+   * @returns The estimated offset in milliseconds.
+   */
+  estimate(samples: ReadonlyArray<SyncSample>): number;
+  /**
+   * Implemented by estimators that model frequency drift themselves.  When
+   * present, {@link FilterEngine} reports this value instead of its own
+   * regression, and passes samples to {@link estimate} as recorded rather
+   * than projected along the drift.
+   *
+   * @param samples - The sample history, oldest first.  Never empty.
+   * @returns The local clock's frequency error in ppm (positive = fast).
+   */
+  estimateDriftPpm?(samples: ReadonlyArray<SyncSample>): number;
+  /** Discards any internal state.  Called when the sample history is flushed. */
+  reset?(): void;
+}
+
+/**
+ * Pluggable persistence for {@link SyncedClock} state, so that a reloaded
+ * page or restarted process can warm-start.  See `storage.ts` for the
+ * built-in adapters.  Both methods are synchronous because the state is
+ * restored inside the clock's constructor.
+ */
+export interface ClockStorage {
+  /**
+   * Returns the last saved state, or `null` when there is none or it is
+   * unreadable.  May throw; the clock then starts cold and reports it as a
+   * `"sync_error"` from {@link SyncedClock.start}.
+   */
+  load(): PersistedClockState | null;
+  /** Replaces the saved state.  May throw; the clock reports it as a `"sync_error"`. */
+  save(state: PersistedClockState): void;
+}
+
+/** Snapshot of a {@link SyncedClock} written to a {@link ClockStorage}. */
+export interface PersistedClockState {
+  /** Format version, bumped on incompatible changes. */
+  version: 1;
+  /** Local wall-clock time at which the snapshot was taken. */
+  savedAt: number;
+  /** Offset estimate (ms) as of `syncedAt`. */
+  offset: number;
+  /** Local wall-clock time of the last completed sync. */
+  syncedAt: number;
+  /** Estimated frequency error (ppm) of the local clock. */
+  driftPpm: number;
+  /** Error bound (ms) of `offset` as of `syncedAt`. */
+  errorMs: number;
+  /** Largest value {@link SyncedClock.now} had returned. */
+  lastNow: number;
+  /** The sample history, oldest first. */
+  samples: SyncSample[];
 }
 
 /** Payload sent by the client at the start of a sync round-trip. */
@@ -32,23 +135,267 @@ export interface PongPayload {
   t3: number;
   /** Unique identifier matching the originating {@link PingPayload.id}. */
   id: string;
+  /**
+   * Granularity (in ms) of the server timestamps `t1` and `t2`, when they are
+   * coarser than a millisecond — e.g. `1000` when they were taken from an
+   * HTTP `Date` header.  Omitted for full-precision timestamps.
+   */
+  resolution?: number;
+}
+
+/**
+ * The server's half of a {@link PongPayload}: everything except `t3`, which
+ * only the client can stamp when the reply arrives.
+ */
+export type ServerPongPayload = Omit<PongPayload, 't3' | 'resolution'>;
+
+/**
+ * NTP-style adaptive polling bounds.  See {@link SyncConfig.adaptivePoll}.
+ */
+export interface AdaptivePollConfig {
+  /** Shortest interval (in ms) between polls. */
+  minIntervalMs: number;
+  /** Longest interval (in ms) between polls. */
+  maxIntervalMs: number;
+  /**
+   * Jitter and offset-step size (in ms) separating a stable clock from an
+   * unstable one.  The interval doubles after a round whose jitter stays at or
+   * below this value and halves after a round whose offset moves by more than
+   * it, or whose RTT spikes beyond `outlierThreshold` standard deviations.
+   * @defaultValue `5`
+   */
+  stabilityThresholdMs?: number;
+}
+
+/**
+ * Startup burst settings.  See {@link SyncConfig.initialBurst}.
+ */
+export interface InitialBurstConfig {
+  /** Number of pings (per source) fired at startup. */
+  count: number;
+  /**
+   * Spacing (in ms) between consecutive burst pings.
+   * @defaultValue `250`
+   */
+  intervalMs?: number;
+  /**
+   * Number of samples that must pass the {@link FilterEngine} RTT outlier
+   * check before the clock declares itself `"SYNCED"`.
+   * @defaultValue `Math.ceil(count / 2)`
+   */
+  minSamples?: number;
+  /**
+   * Time (in ms) after `start()` at which the burst gives up waiting for
+   * `minSamples`.  The clock then locks on whatever samples it has, or emits
+   * a `"sync_error"` with reason `"burst_deadline"` if it has none.
+   * @defaultValue `10000`
+   */
+  deadlineMs?: number;
+}
+
+/**
+ * Decides when a correction is stepped — applied at once — rather than
+ * slewed in gradually.  See {@link SyncConfig.stepPolicy}.
+ */
+export interface StepPolicy {
+  /**
+   * Corrections of at least this magnitude (in ms) are stepped.
+   * @defaultValue `Infinity` — always slew
+   */
+  stepThresholdMs?: number;
+  /**
+   * Once the clock is `"SYNCED"`, rounds implying a correction larger than
+   * this (in ms) are distrusted: their samples are discarded with a
+   * `"sync_error"` of reason `"panic"`.  The first sync is exempt, and so
+   * is the first round after a sleep is detected.  When the offset really
+   * has moved — e.g. the host was offline while its clock was reset — see
+   * {@link panicRecoveryRounds}.
+   * @defaultValue `Infinity`
+   */
+  panicThresholdMs?: number;
+  /**
+   * After this many consecutive rounds beyond `panicThresholdMs` that agree
+   * with one another, the new offset is trusted: the sample history is
+   * flushed and the latest round is used, stepping or slewing as usual.
+   * @defaultValue `3`
+   */
+  panicRecoveryRounds?: number;
+  /**
+   * Only step on the way to the first sync, while the clock is not yet
+   * `"SYNCED"`; afterwards every correction is slewed.
+   * @defaultValue `false`
+   */
+  stepOnlyWhenUnsynced?: boolean;
+}
+
+/**
+ * How a correction is slewed in over time; see {@link SyncConfig.slewProfile}.
+ *
+ * - `"linear"` — at the full slew rate throughout, then abruptly at real
+ *   speed again.
+ * - `"exponential"` — like a phase-locked loop: at a rate proportional to the
+ *   remaining gap (capped at the slew rate), so the correction tapers off.
+ * - `"eased"` — accelerates smoothly from and decelerates smoothly to real
+ *   speed, peaking at the slew rate half-way through.
+ *
+ * A new target mid-slew continues the `"exponential"` and `"eased"` curves
+ * from the current rate rather than restarting them.
+ */
+export type SlewProfile = 'linear' | 'exponential' | 'eased';
+
+/** Direction of a `"time_step"`. */
+export type StepDirection = 'forward' | 'backward';
+
+/** A closed interval `[lower, upper]` of plausible clock offsets, in milliseconds. */
+export interface OffsetInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Known asymmetry between the outbound (client → server) and return legs of a
+ * round trip.  With `outboundRatio = r` and `outboundExcessMs = e`, a round
+ * trip of network delay `d` spends `r·d + e/2` outbound and
+ * `(1 − r)·d − e/2` on the way back.  The default describes a symmetric path.
+ */
+export interface PathAsymmetry {
+  /**
+   * Fraction of the network delay spent on the outbound leg.
+   * @defaultValue `0.5`
+   */
+  outboundRatio?: number;
+  /**
+   * Constant amount (ms) by which the outbound leg exceeds the return leg,
+   * beyond what `outboundRatio` accounts for.  Negative when the return leg
+   * is the slower one.
+   * @defaultValue `0`
+   */
+  outboundExcessMs?: number;
+}
+
+/**
+ * Settings for measuring each source's {@link PathAsymmetry} against a
+ * trusted reference.  See {@link SyncConfig.asymmetryCalibration}.
+ */
+export interface AsymmetryCalibrationConfig {
+  /**
+   * Id of the source whose offset is taken as the truth, e.g. a server on a
+   * symmetric LAN path or one known to be in sync with the others.
+   */
+  referenceSourceId: string;
+  /**
+   * Number of rounds, answered by both a source and the reference, after
+   * which the source's asymmetry is estimated.
+   * @defaultValue `8`
+   */
+  samples?: number;
+  /**
+   * Whether to explain the bias as a constant `outboundExcessMs` (`"fixed"`)
+   * or as a share of the RTT, `outboundRatio` (`"ratio"`).
+   * @defaultValue `"fixed"`
+   */
+  model?: AsymmetryModel;
+}
+
+/** Which {@link PathAsymmetry} parameter a calibration estimates. */
+export type AsymmetryModel = 'fixed' | 'ratio';
+
+/** A named time server, for multi-source synchronization. */
+export interface SyncSource {
+  /** Identifier reported in events concerning this source. */
+  id: string;
+  /** Transport used to reach this source. */
+  transportAdapter: TransportAdapter;
+  /** Path asymmetry of this source, overriding {@link SyncConfig.pathAsymmetry}. */
+  pathAsymmetry?: PathAsymmetry;
 }
 
 /** Configuration object passed to the {@link SyncedClock} constructor. */
 export interface SyncConfig {
-  /** How often (in ms) to send a ping to the time server. */
+  /**
+   * How often (in ms) to send a ping to the time server.  With
+   * {@link SyncConfig.adaptivePoll} this is the initial interval, clamped to
+   * the adaptive bounds.
+   */
   syncIntervalMs: number;
+  /**
+   * Enables adaptive polling: the interval lengthens while the clock is
+   * stable and shortens when offsets move or the RTT spikes.  The current
+   * value is available as {@link SyncedClock.pollIntervalMs}.
+   */
+  adaptivePoll?: AdaptivePollConfig;
+  /**
+   * Fires a quick burst of pings when the clock starts, so that the first
+   * lock rests on several filtered samples rather than a single one.  Without
+   * it the clock is `"SYNCED"` as soon as the first pong arrives.
+   */
+  initialBurst?: InitialBurstConfig;
   /** Number of recent samples to retain in the rolling history buffer. */
   historySize: number;
+  /**
+   * Known outbound/return delay asymmetry, applied to every sample's offset.
+   * Individual sources may override it.
+   * @defaultValue a symmetric path
+   */
+  pathAsymmetry?: PathAsymmetry;
+  /**
+   * Calibration mode: estimates each non-reference source's path asymmetry
+   * from rounds that the reference source also answered, then applies it.
+   * Results are reported through `"asymmetry_calibrated"` so they can be
+   * stored per network type and passed back as `pathAsymmetry` later.
+   * Requires {@link SyncConfig.sources}.
+   */
+  asymmetryCalibration?: AsymmetryCalibrationConfig;
   /**
    * Multiplier of the standard deviation beyond which a sample is rejected as
    * an outlier (e.g. `2` means reject samples more than 2σ from the mean RTT).
    */
   outlierThreshold: number;
-  /** Maximum clock-offset correction (in ms) applied per {@link SyncedClock.now} call. */
-  timeSlewRate: number;
-  /** Pluggable transport layer used to send pings and receive pongs. */
-  transportAdapter: TransportAdapter;
+  /**
+   * Maximum clock-offset correction (in ms) applied per second of real time,
+   * i.e. `slewRatePpm / 1000`.  Ignored when `slewRatePpm` is set.
+   * @deprecated Use {@link slewRatePpm}.  Corrections are now slewed at a
+   * rate of elapsed time rather than per {@link SyncedClock.now} call.
+   */
+  timeSlewRate?: number;
+  /**
+   * Largest rate (in ppm of elapsed real time) at which corrections are
+   * slewed into both {@link SyncedClock.now} and
+   * {@link SyncedClock.performanceNow}.  `Infinity` applies each correction
+   * at once.
+   * @defaultValue `50000` — 50 ms of correction per second
+   */
+  slewRatePpm?: number;
+  /**
+   * Shape of each correction over time.  `"linear"` converges soonest;
+   * `"exponential"` and `"eased"` avoid the audible or visible kink where
+   * the rate changes abruptly.
+   * @defaultValue `"linear"`
+   */
+  slewProfile?: SlewProfile;
+  /**
+   * Time constant (in ms) of the `"exponential"` slew profile.
+   * @defaultValue `1000`
+   */
+  slewTimeConstantMs?: number;
+  /**
+   * Steps large corrections instead of slewing them, which at `slewRatePpm`
+   * could take minutes after a long offline period.  Each step is reported
+   * through `"time_step"`.
+   * @defaultValue always slew
+   */
+  stepPolicy?: StepPolicy;
+  /**
+   * Pluggable transport layer used to send pings and receive pongs.  Exactly
+   * one of `transportAdapter` and {@link SyncConfig.sources} must be given.
+   */
+  transportAdapter?: TransportAdapter;
+  /**
+   * Several independent time servers to query in parallel on every poll.  The
+   * sources whose offset intervals agree (see {@link SyncEventMap.source_rejected})
+   * contribute samples; the outvoted ones are discarded for that round.
+   */
+  sources?: SyncSource[];
   /**
    * Offset magnitude (in ms) above which a `"drift_warning"` event is emitted.
    * @defaultValue `500`
@@ -57,9 +404,78 @@ export interface SyncConfig {
   /**
    * If the sync interval fires more than this many milliseconds late, a system
    * sleep/wake cycle is assumed and the sample history is reset.
-   * @defaultValue `10 * syncIntervalMs`
+   * @defaultValue `10 *` the current poll interval
    */
   sleepDetectionThresholdMs?: number;
+  /**
+   * How long (in ms) to wait for the pong matching a ping before the ping is
+   * considered lost and a `"sync_timeout"` event is emitted.
+   * @defaultValue the current poll interval
+   */
+  pingTimeoutMs?: number;
+  /**
+   * Largest acceptable round-trip time (in ms).  Pongs with a larger RTT are
+   * rejected with reason `"rtt_exceeded"`.
+   * @defaultValue `Infinity`
+   */
+  maxRttMs?: number;
+  /**
+   * Largest acceptable clock-offset magnitude (in ms).  Pongs implying a
+   * larger offset — typically from a misconfigured server — are rejected with
+   * reason `"offset_exceeded"`.
+   * @defaultValue `Infinity`
+   */
+  maxOffsetMs?: number;
+  /**
+   * Strategy that derives the offset from the sample history.
+   * @defaultValue a `MeanEstimator` using `outlierThreshold`
+   */
+  offsetEstimator?: OffsetEstimator;
+  /**
+   * Samples older than this (in ms, relative to the newest sample) are
+   * evicted from the history even while it holds fewer than `historySize`.
+   * @defaultValue `Infinity`
+   */
+  maxSampleAgeMs?: number;
+  /**
+   * Age (in ms, relative to the newest sample) at which a sample's weight
+   * halves, so that recent samples dominate the offset estimate.
+   * @defaultValue `Infinity` — no decay
+   */
+  sampleHalfLifeMs?: number;
+  /**
+   * Clocks and timers to use instead of the host's.
+   * @defaultValue a `SystemTimeSource`
+   */
+  timeSource?: TimeSource;
+  /**
+   * Where to persist the offset, drift estimate and recent samples.  A
+   * saved state younger than `restoredStateMaxAgeMs` is restored on
+   * construction, so the clock starts provisionally `"SYNCED"`.
+   */
+  storage?: ClockStorage;
+  /**
+   * Age (in ms, since its last sync) beyond which a persisted state is no
+   * longer trusted.  A restored clock that has not synced by then reverts to
+   * `"UNSYNCED"`.
+   * @defaultValue `3600000` (one hour)
+   */
+  restoredStateMaxAgeMs?: number;
+  /**
+   * Rate (in ppm) at which the uncertainty reported by
+   * {@link SyncedClock.nowInterval} grows after a sync, covering residual
+   * frequency error that drift compensation has not removed.
+   * @defaultValue `15`, as in NTP
+   */
+  dispersionRatePpm?: number;
+  /**
+   * Length (in ms) of the final stretch before a callback scheduled with
+   * {@link SyncedClock.scheduleAt} is due.  The wait up to it uses one
+   * coarse timer; within it the timer is re-armed against {@link SyncedClock.now}
+   * until the target is reached, absorbing timer drift and slewing.
+   * @defaultValue `20`
+   */
+  scheduleTailMs?: number;
 }
 
 /** A single timestamped sync sample produced by one ping/pong round-trip. */
@@ -70,6 +486,89 @@ export interface SyncSample {
   offset: number;
   /** Client wall-clock time when this sample was recorded. */
   timestamp: number;
+  /**
+   * Relative importance of the sample when offsets are averaged; `1` when
+   * omitted.  {@link FilterEngine} multiplies it by an age decay when
+   * `sampleHalfLifeMs` is set.  Honoured by `MeanEstimator` and
+   * `MedianMadEstimator`.
+   */
+  weight?: number;
+}
+
+/**
+ * A range of server times guaranteed to contain the true current time.  See
+ * {@link SyncedClock.nowInterval}.
+ */
+export interface TimeInterval {
+  /** Earliest possible current time, in ms since the Unix epoch. */
+  earliest: number;
+  /** Latest possible current time, in ms since the Unix epoch. */
+  latest: number;
+}
+
+/** Timing details passed to a callback scheduled with {@link SyncedClock.scheduleAt}. */
+export interface ScheduleInfo {
+  /** Server time the callback was scheduled for, in ms since the Unix epoch. */
+  targetTime: number;
+  /** {@link SyncedClock.now} when the callback ran. */
+  firedAt: number;
+  /** How late the callback ran: `firedAt − targetTime`, never negative. */
+  latenessMs: number;
+}
+
+/** Handle returned by {@link SyncedClock.scheduleAt} and {@link SyncedClock.setTimeout}. */
+export interface ScheduledTask {
+  /** Server time the callback is scheduled for, in ms since the Unix epoch. */
+  readonly targetTime: number;
+  /** Whether the callback has neither run nor been cancelled yet. */
+  readonly pending: boolean;
+  /** Cancels the callback if it has not run yet; otherwise does nothing. */
+  cancel(): void;
+}
+
+/** Coarse sync-quality verdict derived from {@link SyncStats.health}. */
+export type HealthStatus = 'healthy' | 'degraded';
+
+/** Snapshot of sync quality returned by {@link SyncedClock.getStats}. */
+export interface SyncStats {
+  /** Offset (ms) currently applied by {@link SyncedClock.now}. */
+  offset: number;
+  /** Offset (ms) the clock is slewing towards, extrapolated along the drift. */
+  targetOffset: number;
+  /** Offset still to be slewed in: `targetOffset − offset`. */
+  slewRemaining: number;
+  /** Offset jitter (ms) over the sample history; see `FilterEngine.getJitter`. */
+  jitter: number;
+  /**
+   * Half-width (ms) of {@link SyncedClock.nowInterval}: the current error
+   * bound.  `Infinity` before the first sync.
+   */
+  dispersion: number;
+  /** Smallest RTT (ms) in the sample history, or `null` when it is empty. */
+  minRtt: number | null;
+  /** Median RTT (ms) in the sample history, or `null` when it is empty. */
+  medianRtt: number | null;
+  /** Number of samples in the history. */
+  sampleCount: number;
+  /**
+   * Samples discarded since the clock was created: by validation
+   * (`"sample_rejected"`) or by source selection (`"source_rejected"` and
+   * `"no_majority"` rounds).
+   */
+  rejectedCount: number;
+  /** Milliseconds since the last successful sync, or `null` if none yet. */
+  lastSyncAgeMs: number | null;
+  /** Fraction of recent pings lost; see {@link SyncedClock.lossRate}. */
+  lossRate: number;
+  /**
+   * Overall quality score from `0` (unusable) to `1` (ideal): the product of
+   * the delivery rate (`1 − lossRate`), sync freshness, precision
+   * (dispersion) and, when the offset exceeds `driftWarningThreshold`, a
+   * factor of `0.5`.
+   */
+  health: number;
+  /** The hysteresis-filtered verdict; see the `"health_change"` event. */
+  status: HealthStatus;
 }
 
 /** Intermediate payload used internally during sync-round processing. */
@@ -102,6 +601,51 @@ export interface SyncManager {
  */
 export type SyncState = 'UNSYNCED' | 'SYNCING' | 'SYNCED';
 
+/**
+ * Reason carried by a `"sample_rejected"` event.
+ *
+ * - `"non_finite"` — a timestamp is missing, `NaN` or infinite.
+ * - `"causality_violation"` — the pong arrived before the ping was sent
+ *   (`t3 < t0`) or the server replied before receiving (`t2 < t1`).
+ * - `"negative_rtt"` — the server's processing time exceeds the total
+ *   round-trip time.
+ * - `"rtt_exceeded"` — the RTT exceeds {@link SyncConfig.maxRttMs}.
+ * - `"offset_exceeded"` — the offset exceeds {@link SyncConfig.maxOffsetMs}.
+ */
+export type SampleRejectionReason =
+  | 'non_finite'
+  | 'causality_violation'
+  | 'negative_rtt'
+  | 'rtt_exceeded'
+  | 'offset_exceeded';
+
+/**
+ * Reason carried by a `"sync_error"` event.
+ *
+ * - `"unknown_id"` — a pong arrived whose `id` matches no ping this clock sent.
+ * - `"duplicate"` — a pong arrived for a ping that was already answered.
+ * - `"late"` — a pong arrived for a ping that had already timed out.
+ * - `"transport_error"` — {@link TransportAdapter.sendPing} threw, or the
+ *   transport reported the ping lost through {@link TransportAdapter.onError}.
+ * - `"no_majority"` — the sources answering a poll did not agree on an
+ *   offset, so the whole round was discarded.
+ * - `"burst_deadline"` — the {@link SyncConfig.initialBurst} deadline passed
+ *   without a single usable sample.
+ * - `"panic"` — a sample implied a correction beyond
+ *   {@link StepPolicy.panicThresholdMs} and was discarded.
+ * - `"storage_error"` — {@link ClockStorage.load} or {@link ClockStorage.save}
+ *   threw.
+ */
+export type SyncErrorReason =
+  | 'unknown_id'
+  | 'duplicate'
+  | 'late'
+  | 'transport_error'
+  | 'no_majority'
+  | 'burst_deadline'
+  | 'panic'
+  | 'storage_error';
+
 /**
  * Map of events emitted by {@link SyncedClock} through its `events` emitter.
  * Use `clock.events.on(eventName, callback)` to subscribe.
@@ -112,8 +656,9 @@ export interface SyncEventMap {
   /** Fired after a pong is processed and the offset has been updated. */
   sync_success: { offset: number; rtt: number; timestamp: number };
   /**
-   * Fired when the estimated clock offset exceeds
-   * {@link SyncConfig.driftWarningThreshold}.
+   * Fired when the estimated clock offset comes to exceed
+   * {@link SyncConfig.driftWarningThreshold}.  Edge-triggered: it fires again
+   * only after the offset has first dropped back within the threshold.
    */
   drift_warning: { offset: number; threshold: number; timestamp: number };
   /**
@@ -121,6 +666,94 @@ export interface SyncEventMap {
    * indicating the host device likely entered a sleep/suspend state.
    */
   sleep_detected: { gapMs: number; timestamp: number };
+  /**
+   * Fired when no pong arrived for a ping within
+   * {@link SyncConfig.pingTimeoutMs}.  `lossRate` is the fraction of recent
+   * pings that were lost, including this one.
+   */
+  sync_timeout: {
+    id: string;
+    sourceId: string;
+    t0: number;
+    timeoutMs: number;
+    lossRate: number;
+    timestamp: number;
+  };
+  /**
+   * Fired when a pong cannot be matched to an outstanding ping, or when the
+   * transport fails to send a ping or reports it lost.  The pong, if any, is
+   * discarded.
+   */
+  sync_error: {
+    reason: SyncErrorReason;
+    id?: string;
+    sourceId?: string;
+    error?: unknown;
+    timestamp: number;
+  };
+  /**
+   * Fired when a pong is matched to its ping but describes a physically
+   * impossible or out-of-bounds sample.  The sample is not used.
+   */
+  sample_rejected: {
+    reason: SampleRejectionReason;
+    pong: PongPayload;
+    sourceId: string;
+    timestamp: number;
+  };
+  /**
+   * Fired when a source is outvoted in a multi-source poll: its offset
+   * interval (`offset ± rtt / 2`) does not contain the intersection agreed on
+   * by the majority of answering sources, so it is treated as a falseticker
+   * and its sample is discarded.
+   */
+  source_rejected: {
+    sourceId: string;
+    offset: number;
+    rtt: number;
+    interval: OffsetInterval;
+    agreed: OffsetInterval;
+    timestamp: number;
+  };
+  /** Fired when adaptive polling lengthens or shortens the poll interval. */
+  poll_interval_change: { from: number; to: number; timestamp: number };
   /** Fired whenever the internal {@link SyncState} transitions. */
   state_change: { from: SyncState; to: SyncState };
+  /**
+   * Fired when a transport that implements
+   * {@link TransportAdapter.onConnectionChange} connects or disconnects.
+   */
+  connection_change: { connected: boolean; sourceId: string; timestamp: number };
+  /**
+   * Fired when the health status flips.  The clock degrades when
+   * {@link SyncStats.health} drops below `0.5` and recovers only once it
+   * climbs back to `0.7`, so a score hovering near one threshold does not
+   * flap.
+   */
+  health_change: { from: HealthStatus; to: HealthStatus; health: number; timestamp: number };
+  /**
+   * Fired in calibration mode when a source's path asymmetry has been
+   * estimated from `samples` rounds against the reference source.  The value
+   * applies to that source's samples from then on.
+   */
+  asymmetry_calibrated: {
+    sourceId: string;
+    asymmetry: PathAsymmetry;
+    samples: number;
+    timestamp: number;
+  };
+  /**
+   * Fired when a correction is stepped rather than slewed (see
+   * {@link SyncConfig.stepPolicy}).  `from` and `to` are the synced times
+   * just before and after the step.  After a backward step
+   * {@link SyncedClock.now} holds at `from` until real time catches up.
+   */
+  time_step: { from: number; to: number; direction: StepDirection; timestamp: number };
+  /**
+   * Fired when a slewed correction has been fully applied, so that
+   * {@link SyncedClock.now} tracks the offset estimate again.  Check
+   * {@link SyncedClock.estimatedConvergenceMs} first: no event follows while
+   * the clock is already settled.
+   */
+  slew_complete: { offset: number; timestamp: number };
 }
@@ -0,0 +1,273 @@
+import type {
+  PingPayload,
+  PongPayload,
+  TimeSource,
+  TimerHandle,
+  TransportAdapter,
+} from './types.js';
+import { PING_FRAME_TYPE, isPongFrame, tryParseJson } from './protocol.js';
+import { SystemTimeSource } from './timeSource.js';
+
+/** `readyState` value of an open WebSocket, per the WHATWG specification. */
+const WEBSOCKET_OPEN = 1;
+
+/**
+ * Minimal structural view of a WebSocket.  The browser `WebSocket` and the
+ * `ws` package's client both satisfy it.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+/** Reconnection backoff settings for {@link WebSocketTransport}. */
+export interface ReconnectOptions {
+  /**
+   * Delay before the first reconnection attempt.
+   * @defaultValue `500`
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound on the delay between attempts.
+   * @defaultValue `30000`
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor by which the delay grows after every failed attempt.
+   * @defaultValue `2`
+   */
+  multiplier?: number;
+}
+
+/** Configuration object passed to the {@link WebSocketTransport} constructor. */
+export interface WebSocketTransportOptions {
+  /** WebSocket endpoint of the time server. */
+  url: string;
+  /**
+   * Factory used to open a socket.  Defaults to the global `WebSocket`
+   * constructor; pass e.g. `(url) => new WebSocket(url)` from the `ws`
+   * package on Node versions without a global implementation.
+   */
+  createSocket?: (url: string) => WebSocketLike;
+  /** Reconnection backoff settings.  Pass `false` to disable reconnection. */
+  reconnect?: ReconnectOptions | false;
+  /**
+   * Wall clock that stamps `t3`, and timers of the reconnection backoff.
+   * Pass the `timeSource` of the `SyncedClock` using this transport, so that
+   * `t0` and `t3` are read from the same clock.
+   * @defaultValue a `SystemTimeSource`
+   */
+  timeSource?: TimeSource;
+}
+
+/**
+ * A {@link TransportAdapter} over a single WebSocket that it opens, and
+ * re-opens with exponential backoff whenever the connection drops.
+ *
+ * Time-sync traffic is sent as tagged `uts:ping` / `uts:pong` frames (see
+ * `createSocketHandler` on the server side), so the same socket can carry
+ * application messages through {@link send} and {@link onMessage}.
+ *
+ * Pings sent while disconnected are dropped and reported through
+ * {@link onError}; `SyncedClock` re-polls as soon as the link is back.
+ *
+ * @example
+ * ```ts
+ * const transport = new WebSocketTransport({ url: 'wss://example.com/time' });
+ * const clock = new SyncedClock({ ...config, transportAdapter: transport });
+ * clock.events.on('connection_change', ({ connected }) => setOnline(connected));
+ * ```
+ */
+export class WebSocketTransport implements TransportAdapter {
+  private readonly _url: string;
+  private readonly _createSocket: (url: string) => WebSocketLike;
+  private readonly _reconnect: Required<ReconnectOptions> | false;
+  private readonly _time: TimeSource;
+  private _socket: WebSocketLike | null = null;
+  private _connected: boolean = false;
+  private _closed: boolean = false;
+  private _attempt: number = 0;
+  private _reconnectTimer: TimerHandle | null = null;
+  private _pongCallbacks: Array<(payload: PongPayload) => void> = [];
+  private _errorCallbacks: Array<(error: unknown, ping: PingPayload) => void> = [];
+  private _connectionCallbacks: Array<(connected: boolean) => void> = [];
+  private _messageCallbacks: Array<(data: unknown) => void> = [];
+
+  /**
+   * Opens the connection immediately.
+   *
+   * @param options - Transport configuration.
+   * @throws {TypeError} When no `createSocket` factory is given and there is
+   *   no global `WebSocket` constructor.
+   */
+  constructor(options: WebSocketTransportOptions) {
+    this._url = options.url;
+    this._createSocket = options.createSocket ?? defaultCreateSocket;
+    this._reconnect =
+      options.reconnect === false
+        ? false
+        : {
+            initialDelayMs: options.reconnect?.initialDelayMs ?? 500,
+            maxDelayMs: options.reconnect?.maxDelayMs ?? 30_000,
+            multiplier: options.reconnect?.multiplier ?? 2,
+          };
+    this._time = options.timeSource ?? new SystemTimeSource();
+    this._open();
+  }
+
+  // ── TransportAdapter ───────────────────────────────────────────────────────
+
+  /**
+   * Sends a ping frame.  While disconnected the ping is dropped and reported
+   * through {@link onError}: sent later, its `t0` would count the wait as
+   * network latency.
+   */
+  sendPing(payload: PingPayload): void {
+    const socket = this._socket;
+    if (socket !== null && socket.readyState === WEBSOCKET_OPEN) {
+      socket.send(JSON.stringify({ type: PING_FRAME_TYPE, ...payload }));
+      return;
+    }
+    const error = new Error(`WebSocket to ${this._url} is not open`);
+    for (const callback of this._errorCallbacks) callback(error, payload);
+  }
+
+  /** Registers a callback invoked with every pong, already stamped with `t3`. */
+  onPong(callback: (payload: PongPayload) => void): void {
+    this._pongCallbacks.push(callback);
+  }
+
+  /**
+   * Registers a callback invoked when a ping is dropped because the socket
+   * is not open.
+   *
+   * @param callback - Receives the failure and the ping that was lost.
+   */
+  onError(callback: (error: unknown, ping: PingPayload) => void): void {
+    this._errorCallbacks.push(callback);
+  }
+
+  /**
+   * Registers a callback invoked immediately with the current link state and
+   * then whenever the socket connects or disconnects.
+   */
+  onConnectionChange(callback: (connected: boolean) => void): void {
+    this._connectionCallbacks.push(callback);
+    callback(this._connected);
+  }
+
+  // ── Application traffic ────────────────────────────────────────────────────
+
+  /** Whether the underlying socket is currently open. */
+  get connected(): boolean {
+    return this._connected;
+  }
+
+  /**
+   * Sends an application message over the shared socket.
+   *
+   * @param data - The raw message to send.
+   * @returns `true` when the message was handed to an open socket.
+   */
+  send(data: string): boolean {
+    const socket = this._socket;
+    if (socket === null || socket.readyState !== WEBSOCKET_OPEN) return false;
+    socket.send(data);
+    return true;
+  }
+
+  /**
+   * Registers a callback invoked with every message that is not a time-sync
+   * frame.
+   *
+   * @param callback - Receives the raw message data.
+   */
+  onMessage(callback: (data: unknown) => void): void {
+    this._messageCallbacks.push(callback);
+  }
+
+  /**
+   * Closes the socket and stops reconnecting.  The instance cannot be reused.
+   */
+  close(): void {
+    this._closed = true;
+    if (this._reconnectTimer !== null) {
+      this._time.clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = null;
+    }
+    const socket = this._socket;
+    this._socket = null;
+    if (socket !== null) {
+      socket.onopen = socket.onclose = socket.onerror = socket.onmessage = null;
+      socket.close();
+    }
+    this._setConnected(false);
+  }
+
+  // ── Private helpers ────────────────────────────────────────────────────────
+
+  private _open(): void {
+    const socket = this._createSocket(this._url);
+    this._socket = socket;
+
+    socket.onmessage = (event): void => {
+      // Stamp t3 before parsing so that decoding time is not counted as latency.
+      const t3 = this._time.wallNow();
+      const frame = tryParseJson(event.data);
+      if (isPongFrame(frame)) {
+        const pong: PongPayload = { t0: frame.t0, t1: frame.t1, t2: frame.t2, t3, id: frame.id };
+        for (const callback of this._pongCallbacks) callback(pong);
+        return;
+      }
+      for (const callback of this._messageCallbacks) callback(event.data);
+    };
+
+    socket.onopen = (): void => {
+      this._attempt = 0;
+      this._setConnected(true);
+    };
+
+    // `error` is always followed by `close`; reconnection is handled there.
+    socket.onerror = (): void => {};
+
+    socket.onclose = (): void => {
+      if (this._socket !== socket) return;
+      this._socket = null;
+      this._setConnected(false);
+      this._scheduleReconnect();
+    };
+  }
+
+  private _scheduleReconnect(): void {
+    if (this._closed || this._reconnect === false) return;
+    const { initialDelayMs, maxDelayMs, multiplier } = this._reconnect;
+    const delay = Math.min(initialDelayMs * multiplier ** this._attempt, maxDelayMs);
+    this._attempt++;
+    this._reconnectTimer = this._time.setTimeout(() => {
+      this._reconnectTimer = null;
+      try {
+        this._open();
+      } catch {
+        this._scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private _setConnected(connected: boolean): void {
+    if (this._connected === connected) return;
+    this._connected = connected;
+    for (const callback of this._connectionCallbacks) callback(connected);
+  }
+}
+
+function defaultCreateSocket(url: string): WebSocketLike {
+  if (typeof WebSocket === 'undefined') {
+    throw new TypeError('No global WebSocket available; pass a createSocket factory');
+  }
+  return new WebSocket(url) as unknown as WebSocketLike;
+}